@@ -1,4 +1,4 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -9,12 +9,20 @@ import { OnboardingTour } from "@/components/walkthrough/onboarding-tour";
 import Dashboard from "@/pages/dashboard";
 import Events from "@/pages/events";
 import Attendees from "@/pages/attendees";
+import Approvals from "@/pages/approvals";
+import CheckIn from "@/pages/check-in";
 import Campaigns from "@/pages/campaigns";
+import CampaignDetail from "@/pages/campaign-detail";
 import Analytics from "@/pages/analytics";
 import Templates from "@/pages/templates";
+import Outbox from "@/pages/outbox";
 import PublicRegister from "@/pages/public-register";
+import Login from "@/pages/login";
+import Unsubscribe from "@/pages/unsubscribe";
+import ManageRegistration from "@/pages/manage-registration";
 import NotFound from "@/pages/not-found";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import { useState, useEffect } from "react";
 
 function Router() {
@@ -23,52 +31,106 @@ function Router() {
       <Route path="/" component={Dashboard} />
       <Route path="/events" component={Events} />
       <Route path="/attendees" component={Attendees} />
+      <Route path="/approvals" component={Approvals} />
+      <Route path="/check-in" component={CheckIn} />
       <Route path="/campaigns" component={Campaigns} />
+      <Route path="/campaigns/:id" component={CampaignDetail} />
       <Route path="/analytics" component={Analytics} />
       <Route path="/templates" component={Templates} />
+      <Route path="/outbox" component={Outbox} />
       <Route path="/register" component={PublicRegister} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
-function App() {
+// Pages that visitors can open without an operator session
+const publicPages: Record<string, () => JSX.Element> = {
+  "/login": Login,
+  "/register": PublicRegister,
+};
+
+// Pages opened from links in attendee emails; they render on their own whether
+// or not an operator is signed in on this browser
+const recipientPagePrefixes = ["/unsubscribe/", "/manage/"];
+
+function RecipientRouter() {
+  return (
+    <Switch>
+      <Route path="/unsubscribe/:token" component={Unsubscribe} />
+      <Route path="/manage/:token" component={ManageRegistration} />
+      <Route component={NotFound} />
+    </Switch>
+  );
+}
+
+function AppShell() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [showTour, setShowTour] = useState(false);
   const isMobile = useIsMobile();
+  const { user, isLoading } = useAuth();
+  const [location] = useLocation();
 
   useEffect(() => {
+    if (!user) return;
     const hasCompletedTour = localStorage.getItem("onboarding-tour-completed");
     if (!hasCompletedTour) {
       setTimeout(() => setShowTour(true), 500);
     }
-  }, []);
+  }, [user]);
 
   const handleTourComplete = () => {
     localStorage.setItem("onboarding-tour-completed", "true");
     setShowTour(false);
   };
 
+  if (recipientPagePrefixes.some(prefix => location.startsWith(prefix))) {
+    return <RecipientRouter />;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user || location === "/login") {
+    const PublicPage = publicPages[location];
+    return PublicPage ? <PublicPage /> : <Redirect to="/login" />;
+  }
+
+  return (
+    <>
+      <div className="flex h-screen overflow-hidden">
+        <Sidebar 
+          isOpen={sidebarOpen} 
+          onClose={() => setSidebarOpen(false)}
+          isMobile={isMobile}
+        />
+        <main className="flex-1 overflow-y-auto">
+          <Header 
+            onMenuClick={() => setSidebarOpen(true)}
+            showMenuButton={isMobile}
+          />
+          <div className="p-6">
+            <Router />
+          </div>
+        </main>
+      </div>
+      {showTour && <OnboardingTour onComplete={handleTourComplete} />}
+    </>
+  );
+}
+
+function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <div className="flex h-screen overflow-hidden">
-          <Sidebar 
-            isOpen={sidebarOpen} 
-            onClose={() => setSidebarOpen(false)}
-            isMobile={isMobile}
-          />
-          <main className="flex-1 overflow-y-auto">
-            <Header 
-              onMenuClick={() => setSidebarOpen(true)}
-              showMenuButton={isMobile}
-            />
-            <div className="p-6">
-              <Router />
-            </div>
-          </main>
-        </div>
-        {showTour && <OnboardingTour onComplete={handleTourComplete} />}
+        <AuthProvider>
+          <AppShell />
+        </AuthProvider>
         <Toaster />
       </TooltipProvider>
     </QueryClientProvider>
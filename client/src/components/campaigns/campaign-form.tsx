@@ -12,8 +12,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Calendar, Mail, Users, Brain, X, Plus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
 import { insertEmailCampaignSchema } from "@shared/schema";
 import type { EmailCampaign, InsertEmailCampaign, Event, EmailTemplate } from "@shared/schema";
+import { formatRegistrationAnswer, getTargetableValues, type RegistrationField } from "@shared/registrationFields";
 import { z } from "zod";
 import { useState } from "react";
 
@@ -25,9 +27,19 @@ const campaignFormSchema = insertEmailCampaignSchema.extend({
       max: z.number().min(0).max(100),
     }).optional(),
     attendanceHistory: z.enum(["all", "attended", "not-attended"]).optional(),
+    registrationAnswers: z.array(z.object({
+      fieldId: z.string(),
+      values: z.array(z.string()),
+    })).optional(),
   }).optional(),
 });
 
+// Targetable values shown the way registrants saw them
+const formatTargetValue = (field: RegistrationField, value: string) =>
+  field.type === "checkbox" || field.type === "consent"
+    ? formatRegistrationAnswer(field, value === "true")
+    : value;
+
 interface CampaignFormProps {
   campaign?: EmailCampaign;
   onSuccess: () => void;
@@ -37,6 +49,9 @@ export function CampaignForm({ campaign, onSuccess }: CampaignFormProps) {
   const [newInterest, setNewInterest] = useState("");
   const [useAiPersonalization, setUseAiPersonalization] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canWrite = can("campaigns:write");
+  const canSend = can("campaigns:send");
 
   const { data: events } = useQuery<Event[]>({
     queryKey: ["/api/events"],
@@ -130,11 +145,22 @@ export function CampaignForm({ campaign, onSuccess }: CampaignFormProps) {
         interests: campaign?.targetAudience?.interests || [],
         engagementScore: campaign?.targetAudience?.engagementScore || { min: 0, max: 100 },
         attendanceHistory: campaign?.targetAudience?.attendanceHistory || "all",
+        registrationAnswers: campaign?.targetAudience?.registrationAnswers || [],
       },
     },
   });
 
+  const selectedEvent = events?.find(e => e.id === form.watch("eventId"));
+  const targetableFields = (selectedEvent?.registrationFields ?? []).filter(f => getTargetableValues(f).length > 0);
+
   const onSubmit = (data: z.infer<typeof campaignFormSchema>) => {
+    // Answer filters only apply to the questions of the event the campaign is for
+    if (data.targetAudience) {
+      const fieldIds = new Set(targetableFields.map(f => f.id));
+      data.targetAudience.registrationAnswers = (data.targetAudience.registrationAnswers ?? [])
+        .filter(f => fieldIds.has(f.fieldId) && f.values.length > 0);
+    }
+
     if (campaign) {
       updateCampaignMutation.mutate(data);
     } else {
@@ -157,6 +183,16 @@ export function CampaignForm({ campaign, onSuccess }: CampaignFormProps) {
     form.setValue("targetAudience.interests", currentInterests.filter(interest => interest !== interestToRemove));
   };
 
+  const toggleAnswerValue = (fieldId: string, value: string) => {
+    const filters = form.getValues("targetAudience.registrationAnswers") || [];
+    const current = filters.find(f => f.fieldId === fieldId)?.values ?? [];
+    const values = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+    form.setValue("targetAudience.registrationAnswers", [
+      ...filters.filter(f => f.fieldId !== fieldId),
+      { fieldId, values },
+    ]);
+  };
+
   const applyTemplate = (templateId: string) => {
     const template = templates?.find(t => t.id === templateId);
     if (template) {
@@ -353,7 +389,7 @@ export function CampaignForm({ campaign, onSuccess }: CampaignFormProps) {
                     type="button"
                     variant="outline"
                     onClick={handleAiEnhancement}
-                    disabled={aiPersonalizationMutation.isPending}
+                    disabled={!canWrite || aiPersonalizationMutation.isPending}
                     data-testid="enhance-with-ai"
                   >
                     <Brain className="w-4 h-4 mr-2" />
@@ -515,6 +551,37 @@ export function CampaignForm({ campaign, onSuccess }: CampaignFormProps) {
                     )}
                   />
                 </div>
+
+                {targetableFields.length > 0 && (
+                  <div className="space-y-3" data-testid="registration-answer-targeting">
+                    <FormLabel>Registration Answers</FormLabel>
+                    {targetableFields.map((registrationField) => {
+                      const selected = form.watch("targetAudience.registrationAnswers")
+                        ?.find(f => f.fieldId === registrationField.id)?.values ?? [];
+                      return (
+                        <div key={registrationField.id} className="space-y-2">
+                          <p className="text-sm text-muted-foreground">{registrationField.label}</p>
+                          <div className="flex flex-wrap gap-2">
+                            {getTargetableValues(registrationField).map((value) => (
+                              <Badge
+                                key={value}
+                                variant={selected.includes(value) ? "default" : "outline"}
+                                className="cursor-pointer"
+                                onClick={() => toggleAnswerValue(registrationField.id, value)}
+                                data-testid={`answer-filter-${registrationField.id}-${value}`}
+                              >
+                                {formatTargetValue(registrationField, value)}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      );
+                    })}
+                    <FormDescription>
+                      Only registrants who gave one of the selected answers to every question receive this campaign
+                    </FormDescription>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -536,7 +603,7 @@ export function CampaignForm({ campaign, onSuccess }: CampaignFormProps) {
                   </FormControl>
                   <SelectContent>
                     <SelectItem value="draft">Draft</SelectItem>
-                    <SelectItem value="scheduled">Scheduled</SelectItem>
+                    <SelectItem value="scheduled" disabled={!canSend}>Scheduled</SelectItem>
                   </SelectContent>
                 </Select>
               </FormItem>
@@ -554,7 +621,7 @@ export function CampaignForm({ campaign, onSuccess }: CampaignFormProps) {
             </Button>
             <Button 
               type="submit" 
-              disabled={isLoading}
+              disabled={!canWrite || isLoading}
               data-testid="submit-campaign"
             >
               {isLoading 
@@ -1,10 +1,45 @@
+import { useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import { Plus } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { EmailCampaign } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import type { EmailCampaign, CampaignSendProgress } from "@shared/schema";
+
+function SendProgress({ campaignId }: { campaignId: string }) {
+  const { data: progress } = useQuery<CampaignSendProgress>({
+    queryKey: ["/api/campaigns", campaignId, "progress"],
+    refetchInterval: 5000,
+  });
+
+  const remaining = progress ? progress.pending + progress.processing + progress.retrying : 0;
+
+  // Once the queue is drained the campaign flips to "sent" on the server
+  useEffect(() => {
+    if (progress && progress.total > 0 && remaining === 0) {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+    }
+  }, [progress, remaining]);
+
+  if (!progress || progress.total === 0) return null;
+
+  const done = progress.sent + progress.skipped + progress.dead;
+
+  return (
+    <div className="mt-3 space-y-1" data-testid={`campaign-progress-${campaignId}`}>
+      <Progress value={(done / progress.total) * 100} className="h-2" />
+      <p className="text-xs text-muted-foreground">
+        {progress.sent} of {progress.total} sent
+        {progress.retrying > 0 && ` · ${progress.retrying} retrying`}
+        {progress.skipped > 0 && ` · ${progress.skipped} suppressed`}
+        {progress.dead > 0 && ` · ${progress.dead} failed`}
+      </p>
+    </div>
+  );
+}
 
 export function CampaignStatus() {
   const { data: campaigns, isLoading } = useQuery<EmailCampaign[]>({
@@ -183,6 +218,8 @@ export function CampaignStatus() {
                       <p className="text-xs text-muted-foreground">Clicked</p>
                     </div>
                   </div>
+
+                  {campaign.status === "sending" && <SendProgress campaignId={campaign.id} />}
                 </div>
               );
             })}
@@ -55,6 +55,8 @@ export function EmailTemplates() {
       case "thank-you": return "bg-secondary text-secondary-foreground";
       case "follow-up": return "bg-accent text-accent-foreground";
       case "content-preview": return "bg-chart-5 text-white";
+      case "registration-approved": return "bg-chart-4 text-white";
+      case "registration-rejected": return "bg-muted text-muted-foreground";
       default: return "bg-muted text-muted-foreground";
     }
   };
@@ -66,6 +68,8 @@ export function EmailTemplates() {
       case "thank-you": return "💝";
       case "follow-up": return "💌";
       case "content-preview": return "📄";
+      case "registration-approved": return "✅";
+      case "registration-rejected": return "✉️";
       default: return "📧";
     }
   };
@@ -140,6 +144,8 @@ export function EmailTemplates() {
                      template.type === "welcome" ? "Sent on registration" :
                      template.type === "thank-you" ? "Sent after event completion" :
                      template.type === "follow-up" ? "Sent 24h after event" :
+                     template.type === "registration-approved" ? "Sent when a registration is approved" :
+                     template.type === "registration-rejected" ? "Sent when a registration is declined" :
                      "Custom template"}
                   </p>
                   <div className="flex items-center justify-between text-xs text-muted-foreground">
@@ -57,6 +57,17 @@ export function RecentActivity() {
           icon: UserPlus,
           iconColor: "text-primary bg-primary/10",
         };
+      case "registration_update":
+        return {
+          id: event.id,
+          type: "registration_update",
+          description: (event.metadata as { action?: string } | null)?.action === "cancelled"
+            ? `Registration cancelled by attendee`
+            : `Registration updated by attendee`,
+          timestamp,
+          icon: UserPlus,
+          iconColor: "text-primary bg-primary/10",
+        };
       case "email_open":
         return {
           id: event.id,
@@ -79,7 +90,9 @@ export function RecentActivity() {
         return {
           id: event.id,
           type: "attendance",
-          description: `Event attended`,
+          description: (event.metadata as { action?: string } | null)?.action === "check_out"
+            ? `Attendee checked out`
+            : `Event attended`,
           timestamp,
           icon: Calendar,
           iconColor: "text-chart-4 bg-chart-4/10",
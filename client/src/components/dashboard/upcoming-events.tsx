@@ -56,7 +56,7 @@ export function UpcomingEvents() {
 
   // Get registration count for each event
   const getRegistrationCount = (eventId: string) => {
-    return registrations?.filter(reg => reg.eventId === eventId).length || 0;
+    return registrations?.filter(reg => reg.eventId === eventId && reg.status === "registered").length || 0;
   };
 
   const getStatusColor = (status: string) => {
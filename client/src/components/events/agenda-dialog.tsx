@@ -0,0 +1,449 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Edit, Loader2, Plus, Trash } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Event, EventAgenda, EventSession, Speaker } from "@shared/schema";
+import { AgendaView, speakerByline } from "./agenda-view";
+
+interface AgendaDialogProps {
+  event: Event;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type SessionDraft = {
+  id?: string;
+  title: string;
+  abstract: string;
+  startTime: string; // datetime-local value
+  endTime: string;
+  track: string;
+  location: string;
+  speakerIds: string[];
+};
+
+type SpeakerDraft = {
+  id?: string;
+  name: string;
+  title: string;
+  company: string;
+  bio: string;
+  photoUrl: string;
+};
+
+const toInputValue = (date: Date | string) => format(new Date(date), "yyyy-MM-dd'T'HH:mm");
+
+const emptySpeaker: SpeakerDraft = { name: "", title: "", company: "", bio: "", photoUrl: "" };
+
+export function AgendaDialog({ event, open, onOpenChange }: AgendaDialogProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const agendaKey = ["/api/events", event.id, "agenda"];
+
+  const newSession = (): SessionDraft => {
+    const start = new Date(event.startDate);
+    return {
+      title: "",
+      abstract: "",
+      startTime: toInputValue(start),
+      endTime: toInputValue(new Date(start.getTime() + 45 * 60 * 1000)),
+      track: "",
+      location: "",
+      speakerIds: [],
+    };
+  };
+
+  const [session, setSession] = useState<SessionDraft>(newSession);
+  const [speaker, setSpeaker] = useState<SpeakerDraft>(emptySpeaker);
+
+  const { data: agenda } = useQuery<EventAgenda>({
+    queryKey: agendaKey,
+    enabled: open,
+  });
+
+  const { data: speakers = [] } = useQuery<Speaker[]>({
+    queryKey: ["/api/speakers"],
+    enabled: open,
+  });
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveSessionMutation = useMutation({
+    mutationFn: async (draft: SessionDraft) => {
+      const body = {
+        title: draft.title,
+        abstract: draft.abstract || null,
+        startTime: new Date(draft.startTime).toISOString(),
+        endTime: new Date(draft.endTime).toISOString(),
+        track: draft.track.trim() || null,
+        location: draft.location.trim() || null,
+        speakerIds: draft.speakerIds,
+      };
+      const response = draft.id
+        ? await apiRequest("PUT", `/api/sessions/${draft.id}`, body)
+        : await apiRequest("POST", `/api/events/${event.id}/sessions`, body);
+      return response.json() as Promise<EventSession>;
+    },
+    onSuccess: (_saved, draft) => {
+      queryClient.invalidateQueries({ queryKey: agendaKey });
+      toast({ title: draft.id ? "Session updated" : "Session added", description: draft.title });
+      setSession(newSession());
+    },
+    onError: onError("Failed to save session"),
+  });
+
+  const deleteSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      await apiRequest("DELETE", `/api/sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: agendaKey });
+      toast({ title: "Session removed", description: "Bookmarks of this session have been removed too." });
+    },
+    onError: onError("Failed to delete session"),
+  });
+
+  const saveSpeakerMutation = useMutation({
+    mutationFn: async (draft: SpeakerDraft) => {
+      const body = {
+        name: draft.name,
+        title: draft.title.trim() || null,
+        company: draft.company.trim() || null,
+        bio: draft.bio.trim() || null,
+        photoUrl: draft.photoUrl.trim() || null,
+      };
+      const response = draft.id
+        ? await apiRequest("PUT", `/api/speakers/${draft.id}`, body)
+        : await apiRequest("POST", "/api/speakers", body);
+      return response.json() as Promise<Speaker>;
+    },
+    onSuccess: (_saved, draft) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/speakers"] });
+      queryClient.invalidateQueries({ queryKey: agendaKey });
+      toast({ title: draft.id ? "Speaker updated" : "Speaker added", description: draft.name });
+      setSpeaker(emptySpeaker);
+    },
+    onError: onError("Failed to save speaker"),
+  });
+
+  const deleteSpeakerMutation = useMutation({
+    mutationFn: async (speakerId: string) => {
+      await apiRequest("DELETE", `/api/speakers/${speakerId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/speakers"] });
+      queryClient.invalidateQueries({ queryKey: agendaKey });
+      toast({ title: "Speaker removed", description: "They've been taken off their sessions." });
+    },
+    onError: onError("Failed to delete speaker"),
+  });
+
+  const toggleSessionSpeaker = (speakerId: string) => {
+    setSession({
+      ...session,
+      speakerIds: session.speakerIds.includes(speakerId)
+        ? session.speakerIds.filter(id => id !== speakerId)
+        : [...session.speakerIds, speakerId],
+    });
+  };
+
+  const editSession = (existing: EventSession) => {
+    setSession({
+      id: existing.id,
+      title: existing.title,
+      abstract: existing.abstract ?? "",
+      startTime: toInputValue(existing.startTime),
+      endTime: toInputValue(existing.endTime),
+      track: existing.track ?? "",
+      location: existing.location ?? "",
+      speakerIds: existing.speakerIds,
+    });
+  };
+
+  const canEdit = can("events:write");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Agenda for {event.title}</DialogTitle>
+          <DialogDescription>
+            Sessions and speakers appear on the public registration page and in the {"{{agenda}}"} and {"{{speakers}}"} template variables.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="sessions">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="sessions" data-testid="tab-sessions">Sessions</TabsTrigger>
+            <TabsTrigger value="speakers" data-testid="tab-speakers">Speakers</TabsTrigger>
+            <TabsTrigger value="preview" data-testid="tab-agenda-preview">Preview</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="sessions" className="space-y-4">
+            {canEdit && (
+              <div className="rounded-lg border p-4 space-y-3" data-testid="session-form">
+                <div className="space-y-2">
+                  <Label htmlFor="session-title">Title *</Label>
+                  <Input
+                    id="session-title"
+                    value={session.title}
+                    onChange={(e) => setSession({ ...session, title: e.target.value })}
+                    data-testid="input-session-title"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="session-abstract">Abstract</Label>
+                  <Textarea
+                    id="session-abstract"
+                    value={session.abstract}
+                    onChange={(e) => setSession({ ...session, abstract: e.target.value })}
+                    data-testid="input-session-abstract"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="session-start">Starts</Label>
+                    <Input
+                      id="session-start"
+                      type="datetime-local"
+                      value={session.startTime}
+                      onChange={(e) => setSession({ ...session, startTime: e.target.value })}
+                      data-testid="input-session-start"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="session-end">Ends</Label>
+                    <Input
+                      id="session-end"
+                      type="datetime-local"
+                      value={session.endTime}
+                      onChange={(e) => setSession({ ...session, endTime: e.target.value })}
+                      data-testid="input-session-end"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="session-track">Track</Label>
+                    <Input
+                      id="session-track"
+                      placeholder="e.g. Engineering"
+                      value={session.track}
+                      onChange={(e) => setSession({ ...session, track: e.target.value })}
+                      data-testid="input-session-track"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="session-location">Room or stream link</Label>
+                    <Input
+                      id="session-location"
+                      value={session.location}
+                      onChange={(e) => setSession({ ...session, location: e.target.value })}
+                      data-testid="input-session-location"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Speakers</Label>
+                  {speakers.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Add speakers on the Speakers tab first.</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {speakers.map(s => (
+                        <Badge
+                          key={s.id}
+                          variant={session.speakerIds.includes(s.id) ? "default" : "outline"}
+                          className="cursor-pointer"
+                          onClick={() => toggleSessionSpeaker(s.id)}
+                          data-testid={`session-speaker-${s.id}`}
+                        >
+                          {s.name}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="flex justify-end space-x-2">
+                  {session.id && (
+                    <Button type="button" variant="outline" size="sm" onClick={() => setSession(newSession())}>
+                      Cancel edit
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    onClick={() => saveSessionMutation.mutate(session)}
+                    disabled={!session.title.trim() || saveSessionMutation.isPending}
+                    data-testid="button-save-session"
+                  >
+                    {saveSessionMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : (
+                      <>
+                        {!session.id && <Plus className="w-4 h-4 mr-1" />}
+                        {session.id ? "Save session" : "Add session"}
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {agenda?.sessions.map(existing => (
+              <div key={existing.id} className="flex items-center justify-between rounded-lg border p-3" data-testid={`session-row-${existing.id}`}>
+                <div>
+                  <p className="font-medium text-foreground">{existing.title}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {format(new Date(existing.startTime), "MMM d, h:mm a")} – {format(new Date(existing.endTime), "h:mm a")}
+                    {existing.track && ` · ${existing.track}`}
+                    {existing.speakers.length > 0 && ` · ${existing.speakers.map(s => s.name).join(", ")}`}
+                    {` · ${existing.bookmarkCount ?? 0} bookmarked`}
+                  </p>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center space-x-1">
+                    <Button variant="outline" size="sm" onClick={() => editSession(existing)} data-testid={`edit-session-${existing.id}`}>
+                      <Edit className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteSessionMutation.mutate(existing.id)}
+                      disabled={deleteSessionMutation.isPending}
+                      data-testid={`delete-session-${existing.id}`}
+                    >
+                      <Trash className="w-3 h-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="speakers" className="space-y-4">
+            {canEdit && (
+              <div className="rounded-lg border p-4 space-y-3" data-testid="speaker-form">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="speaker-name">Name *</Label>
+                    <Input
+                      id="speaker-name"
+                      value={speaker.name}
+                      onChange={(e) => setSpeaker({ ...speaker, name: e.target.value })}
+                      data-testid="input-speaker-name"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="speaker-photo">Photo URL</Label>
+                    <Input
+                      id="speaker-photo"
+                      value={speaker.photoUrl}
+                      onChange={(e) => setSpeaker({ ...speaker, photoUrl: e.target.value })}
+                      data-testid="input-speaker-photo"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="speaker-title">Job title</Label>
+                    <Input
+                      id="speaker-title"
+                      value={speaker.title}
+                      onChange={(e) => setSpeaker({ ...speaker, title: e.target.value })}
+                      data-testid="input-speaker-title"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="speaker-company">Company</Label>
+                    <Input
+                      id="speaker-company"
+                      value={speaker.company}
+                      onChange={(e) => setSpeaker({ ...speaker, company: e.target.value })}
+                      data-testid="input-speaker-company"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="speaker-bio">Bio</Label>
+                  <Textarea
+                    id="speaker-bio"
+                    value={speaker.bio}
+                    onChange={(e) => setSpeaker({ ...speaker, bio: e.target.value })}
+                    data-testid="input-speaker-bio"
+                  />
+                </div>
+                <div className="flex justify-end space-x-2">
+                  {speaker.id && (
+                    <Button type="button" variant="outline" size="sm" onClick={() => setSpeaker(emptySpeaker)}>
+                      Cancel edit
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    onClick={() => saveSpeakerMutation.mutate(speaker)}
+                    disabled={!speaker.name.trim() || saveSpeakerMutation.isPending}
+                    data-testid="button-save-speaker"
+                  >
+                    {saveSpeakerMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : speaker.id ? "Save speaker" : "Add speaker"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <p className="text-sm text-muted-foreground">Speakers are shared by every event in this workspace.</p>
+            {speakers.map(existing => (
+              <div key={existing.id} className="flex items-center justify-between rounded-lg border p-3" data-testid={`speaker-row-${existing.id}`}>
+                <div>
+                  <p className="font-medium text-foreground">{existing.name}</p>
+                  {speakerByline(existing) && <p className="text-sm text-muted-foreground">{speakerByline(existing)}</p>}
+                </div>
+                {canEdit && (
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSpeaker({
+                        id: existing.id,
+                        name: existing.name,
+                        title: existing.title ?? "",
+                        company: existing.company ?? "",
+                        bio: existing.bio ?? "",
+                        photoUrl: existing.photoUrl ?? "",
+                      })}
+                      data-testid={`edit-speaker-${existing.id}`}
+                    >
+                      <Edit className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteSpeakerMutation.mutate(existing.id)}
+                      disabled={deleteSpeakerMutation.isPending}
+                      title="Removes the speaker from every event's sessions"
+                      data-testid={`delete-speaker-${existing.id}`}
+                    >
+                      <Trash className="w-3 h-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="preview">
+            {agenda && <AgendaView agenda={agenda} />}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
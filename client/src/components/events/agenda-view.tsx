@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Bookmark, Clock, MapPin, Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import type { AgendaSession, EventAgenda, Speaker } from "@shared/schema";
+
+interface AgendaViewProps {
+  agenda: EventAgenda;
+  // Shown with a bookmark toggle per session when given
+  bookmarkedSessionIds?: string[];
+  onToggleBookmark?: (session: AgendaSession, bookmarked: boolean) => void;
+}
+
+const isLink = (location: string) => /^https?:\/\//i.test(location);
+
+export const speakerInitials = (speaker: Speaker) =>
+  speaker.name.split(/\s+/).map(part => part[0]).join("").slice(0, 2).toUpperCase();
+
+export function speakerByline(speaker: Speaker) {
+  return [speaker.title, speaker.company].filter(Boolean).join(", ");
+}
+
+// Sessions grouped by day, with a filter per track, followed by the speakers
+export function AgendaView({ agenda, bookmarkedSessionIds, onToggleBookmark }: AgendaViewProps) {
+  const [track, setTrack] = useState<string | null>(null);
+
+  if (agenda.sessions.length === 0) {
+    return <p className="text-sm text-muted-foreground" data-testid="agenda-empty">The agenda hasn't been published yet.</p>;
+  }
+
+  const tracks = Array.from(new Set(agenda.sessions.map(s => s.track).filter((t): t is string => !!t)));
+  const sessions = track ? agenda.sessions.filter(s => s.track === track) : agenda.sessions;
+
+  const days = new Map<string, AgendaSession[]>();
+  for (const session of sessions) {
+    const day = format(new Date(session.startTime), "EEEE, MMMM d");
+    days.set(day, [...(days.get(day) ?? []), session]);
+  }
+
+  return (
+    <div className="space-y-6" data-testid="agenda-view">
+      {tracks.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          <Badge
+            variant={track === null ? "default" : "outline"}
+            className="cursor-pointer"
+            onClick={() => setTrack(null)}
+            data-testid="agenda-track-all"
+          >
+            All tracks
+          </Badge>
+          {tracks.map(name => (
+            <Badge
+              key={name}
+              variant={track === name ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => setTrack(name)}
+              data-testid={`agenda-track-${name}`}
+            >
+              {name}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {Array.from(days.entries()).map(([day, daySessions]) => (
+        <div key={day} className="space-y-3">
+          <h4 className="font-semibold text-foreground">{day}</h4>
+          {daySessions.map(session => {
+            const bookmarked = bookmarkedSessionIds?.includes(session.id) ?? false;
+            return (
+              <div key={session.id} className="rounded-lg border p-4 space-y-2" data-testid={`agenda-session-${session.id}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="space-y-1">
+                    <div className="flex items-center text-sm text-muted-foreground">
+                      <Clock className="w-3 h-3 mr-1" />
+                      {format(new Date(session.startTime), "h:mm a")} – {format(new Date(session.endTime), "h:mm a")}
+                      {session.track && <Badge variant="secondary" className="ml-2">{session.track}</Badge>}
+                    </div>
+                    <p className="font-medium text-foreground">{session.title}</p>
+                  </div>
+                  {onToggleBookmark && (
+                    <Button
+                      variant={bookmarked ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => onToggleBookmark(session, !bookmarked)}
+                      title={bookmarked ? "Remove bookmark" : "Bookmark"}
+                      data-testid={`bookmark-session-${session.id}`}
+                    >
+                      <Bookmark className="w-3 h-3" />
+                    </Button>
+                  )}
+                  {session.bookmarkCount !== undefined && (
+                    <Badge variant="outline" title="Attendees who bookmarked this session" data-testid={`bookmark-count-${session.id}`}>
+                      <Bookmark className="w-3 h-3 mr-1" />
+                      {session.bookmarkCount}
+                    </Badge>
+                  )}
+                </div>
+                {session.abstract && <p className="text-sm text-muted-foreground">{session.abstract}</p>}
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                  {session.location && (
+                    <span className="flex items-center">
+                      <MapPin className="w-3 h-3 mr-1" />
+                      {isLink(session.location)
+                        ? <a href={session.location} target="_blank" rel="noreferrer" className="underline">Join stream</a>
+                        : session.location}
+                    </span>
+                  )}
+                  {session.speakers.length > 0 && (
+                    <span className="flex items-center">
+                      <Users className="w-3 h-3 mr-1" />
+                      {session.speakers.map(speaker => speaker.name).join(", ")}
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+
+      {agenda.speakers.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="font-semibold text-foreground">Speakers</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {agenda.speakers.map(speaker => (
+              <div key={speaker.id} className="flex items-start space-x-3" data-testid={`agenda-speaker-${speaker.id}`}>
+                <Avatar>
+                  {speaker.photoUrl && <AvatarImage src={speaker.photoUrl} alt={speaker.name} />}
+                  <AvatarFallback>{speakerInitials(speaker)}</AvatarFallback>
+                </Avatar>
+                <div>
+                  <p className="font-medium text-foreground">{speaker.name}</p>
+                  {speakerByline(speaker) && <p className="text-sm text-muted-foreground">{speakerByline(speaker)}</p>}
+                  {speaker.bio && <p className="text-sm text-muted-foreground mt-1">{speaker.bio}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { AttendanceImportResult, AttendancePlatform, Event } from "@shared/schema";
+
+interface AttendanceImportDialogProps {
+  event: Event;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const platformLabels: Record<AttendancePlatform, string> = {
+  zoom: "Zoom",
+  teams: "Microsoft Teams",
+  webex: "Webex",
+  csv: "CSV",
+};
+
+export function AttendanceImportDialog({ event, open, onOpenChange }: AttendanceImportDialogProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<AttendanceImportResult | null>(null);
+
+  const importMutation = useMutation({
+    // Sent as the raw file: Teams exports are UTF-16, which the server decodes
+    mutationFn: async (report: File) => {
+      const response = await fetch(`/api/events/${event.id}/attendance-import`, {
+        method: "POST",
+        headers: { "Content-Type": "text/csv" },
+        body: report,
+        credentials: "include",
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.message);
+      return body as AttendanceImportResult;
+    },
+    onSuccess: (imported) => {
+      setResult(imported);
+      queryClient.invalidateQueries({ queryKey: ["/api/events", event.id, "registrations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import attendance",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setFile(null);
+      setResult(null);
+    }
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import attendance</DialogTitle>
+          <DialogDescription>
+            Upload the attendee or participant report exported from Zoom, Microsoft Teams or Webex for {event.title}.
+            Rows are matched to registrations by email.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="flex items-end space-x-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (file) importMutation.mutate(file);
+          }}
+        >
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="attendance-report">Attendance report</Label>
+            <Input
+              id="attendance-report"
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                setResult(null);
+              }}
+              data-testid="input-attendance-report"
+            />
+          </div>
+          <Button type="submit" disabled={!file || importMutation.isPending} data-testid="import-attendance">
+            {importMutation.isPending
+              ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              : <Upload className="w-4 h-4 mr-2" />}
+            Import
+          </Button>
+        </form>
+
+        {result && (
+          <div className="space-y-4" data-testid="attendance-import-result">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="secondary">{platformLabels[result.platform]} report</Badge>
+              <span>{result.rows} people in the report</span>
+              <span>· {result.matched} marked attended</span>
+              {result.absent > 0 && <span>· {result.absent} registered but absent</span>}
+              <span>· {result.unmatched.length} unmatched</span>
+            </div>
+
+            {result.unmatched.length > 0 && (
+              <div className="rounded-lg border">
+                <table className="w-full text-sm" data-testid="attendance-unmatched">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="p-2 font-medium">Line</th>
+                      <th className="p-2 font-medium">Name</th>
+                      <th className="p-2 font-medium">Email</th>
+                      <th className="p-2 font-medium">Reason</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.unmatched.map(row => (
+                      <tr key={row.line} className="border-b last:border-0">
+                        <td className="p-2 text-muted-foreground">{row.line}</td>
+                        <td className="p-2">{row.name || "—"}</td>
+                        <td className="p-2">{row.email || "—"}</td>
+                        <td className="p-2 text-muted-foreground">{row.reason}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,12 +3,19 @@ import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Calendar, Clock, MapPin, Users, Edit, Trash, Eye, UserPlus } from "lucide-react";
+import { Bell, Calendar, Clock, Hourglass, MapPin, Users, Edit, Trash, Eye, UserPlus, Download, Link2, UserCheck, Repeat, ListTree, ScanLine, FileUp } from "lucide-react";
+import { Link } from "wouter";
 import { EventForm } from "./event-form";
 import { RegistrationWalkthrough } from "./registration-walkthrough";
+import { InviteLinkDialog } from "./invite-link-dialog";
+import { AgendaDialog } from "./agenda-dialog";
+import { AttendanceImportDialog } from "./attendance-import-dialog";
 import { useQuery } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
-import type { Event, EventRegistration } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import type { Event, EventRegistration, EventSeriesWithOccurrences } from "@shared/schema";
+import { describeRecurrence } from "@shared/recurrence";
+import { getReminderTimeline, formatReminderOffset } from "@shared/reminders";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -30,6 +37,10 @@ interface EventCardProps {
 export function EventCard({ event, onDelete, isDeleting }: EventCardProps) {
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [isRegisterOpen, setIsRegisterOpen] = useState(false);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [isAgendaOpen, setIsAgendaOpen] = useState(false);
+  const [isAttendanceImportOpen, setIsAttendanceImportOpen] = useState(false);
+  const { can } = useAuth();
 
   const { data: registrations } = useQuery<EventRegistration[]>({
     queryKey: ["/api/events", event.id, "registrations"],
@@ -40,7 +51,17 @@ export function EventCard({ event, onDelete, isDeleting }: EventCardProps) {
     },
   });
 
-  const registrationCount = registrations?.length || 0;
+  const { data: series } = useQuery<EventSeriesWithOccurrences>({
+    queryKey: ["/api/series", event.seriesId],
+    enabled: !!event.seriesId,
+  });
+  const occurrenceNumber = series ? series.occurrences.findIndex(e => e.id === event.id) + 1 : 0;
+
+  // Only registered registrations take a seat
+  const registrationCount = registrations?.filter(r => r.status === "registered").length || 0;
+  const waitlistCount = registrations?.filter(r => r.status === "waitlisted").length || 0;
+  const pendingCount = registrations?.filter(r => r.status === "pending").length || 0;
+  const checkedInCount = registrations?.filter(r => r.checkedInAt && !r.checkedOutAt).length || 0;
   const maxAttendees = event.maxAttendees || 100;
   const fillPercentage = Math.min((registrationCount / maxAttendees) * 100, 100);
   const isFull = event.maxAttendees ? registrationCount >= event.maxAttendees : false;
@@ -66,6 +87,7 @@ export function EventCard({ event, onDelete, isDeleting }: EventCardProps) {
   };
 
   const { date, time } = formatDate(event.startDate.toString());
+  const reminderTimeline = getReminderTimeline(new Date(event.startDate), event.reminderOffsets ?? []);
 
   return (
     <>
@@ -76,7 +98,18 @@ export function EventCard({ event, onDelete, isDeleting }: EventCardProps) {
             alt={`${event.title} event`}
             className="w-full h-48 object-cover"
           />
-          <div className="absolute top-4 right-4">
+          <div className="absolute top-4 right-4 flex gap-2">
+            {series && (
+              <Badge variant="secondary" className="flex items-center space-x-1" title={describeRecurrence(series.recurrence)} data-testid={`series-badge-${event.id}`}>
+                <Repeat className="w-3 h-3" />
+                <span>{occurrenceNumber} of {series.occurrences.length}</span>
+              </Badge>
+            )}
+            {event.registrationMode !== "open" && (
+              <Badge variant="secondary" data-testid={`registration-mode-${event.id}`}>
+                {event.registrationMode === "approval" ? "Approval" : "Invite only"}
+              </Badge>
+            )}
             <Badge className={getStatusColor(event.status || "draft")}>
               {event.status || "draft"}
             </Badge>
@@ -121,6 +154,35 @@ export function EventCard({ event, onDelete, isDeleting }: EventCardProps) {
               <span>{registrationCount} registered</span>
               {event.maxAttendees && <span> / {event.maxAttendees} max</span>}
             </div>
+
+            {waitlistCount > 0 && (
+              <div className="flex items-center text-sm text-muted-foreground" data-testid={`waitlist-count-${event.id}`}>
+                <Hourglass className="w-4 h-4 mr-2" />
+                <span>{waitlistCount} on waitlist</span>
+              </div>
+            )}
+
+            {pendingCount > 0 && (
+              <Link
+                href="/approvals"
+                className="flex items-center text-sm text-primary hover:underline"
+                data-testid={`pending-count-${event.id}`}
+              >
+                <UserCheck className="w-4 h-4 mr-2" />
+                <span>{pendingCount} awaiting approval</span>
+              </Link>
+            )}
+
+            {checkedInCount > 0 && (
+              <Link
+                href="/check-in"
+                className="flex items-center text-sm text-primary hover:underline"
+                data-testid={`checked-in-count-${event.id}`}
+              >
+                <ScanLine className="w-4 h-4 mr-2" />
+                <span>{checkedInCount} checked in</span>
+              </Link>
+            )}
           </div>
 
           {/* Registration Progress */}
@@ -137,6 +199,28 @@ export function EventCard({ event, onDelete, isDeleting }: EventCardProps) {
             </div>
           </div>
 
+          {/* Reminder Timeline */}
+          {reminderTimeline.length > 0 && (
+            <div className="space-y-2" data-testid={`reminder-timeline-${event.id}`}>
+              <div className="flex items-center text-sm text-muted-foreground">
+                <Bell className="w-4 h-4 mr-2" />
+                <span>Reminders</span>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {reminderTimeline.map((reminder) => (
+                  <Badge
+                    key={reminder.offsetMinutes}
+                    variant={reminder.isPast ? "secondary" : "outline"}
+                    className={`text-xs ${reminder.isPast ? "opacity-60" : ""}`}
+                    title={reminder.sendAt.toLocaleString()}
+                  >
+                    {formatReminderOffset(reminder.offsetMinutes)} before
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Tags */}
           {event.tags && event.tags.length > 0 && (
             <div className="flex flex-wrap gap-1">
@@ -157,15 +241,14 @@ export function EventCard({ event, onDelete, isDeleting }: EventCardProps) {
           <div className="flex items-center justify-between pt-2 border-t gap-2">
             {canRegister && (
               <Button 
-                variant="default" 
+                variant={isFull ? "secondary" : "default"}
                 size="sm"
                 onClick={() => setIsRegisterOpen(true)}
-                disabled={isFull}
                 className="flex-1"
                 data-testid={`register-event-${event.id}`}
               >
                 <UserPlus className="w-3 h-3 mr-1" />
-                {isFull ? "Event Full" : "Register"}
+                {isFull ? "Join Waitlist" : "Register"}
               </Button>
             )}
             
@@ -177,47 +260,97 @@ export function EventCard({ event, onDelete, isDeleting }: EventCardProps) {
               >
                 <Eye className="w-3 h-3" />
               </Button>
+
+              <Button 
+                variant="outline" 
+                size="sm"
+                asChild
+                data-testid={`export-registrations-${event.id}`}
+              >
+                <a href={`/api/events/${event.id}/registrations/export`} download title="Export registrations">
+                  <Download className="w-3 h-3" />
+                </a>
+              </Button>
+
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => setIsAgendaOpen(true)}
+                title="Agenda"
+                data-testid={`agenda-event-${event.id}`}
+              >
+                <ListTree className="w-3 h-3" />
+              </Button>
+
+              {can("attendees:write") && (
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  onClick={() => setIsAttendanceImportOpen(true)}
+                  title="Import attendance report"
+                  data-testid={`import-attendance-${event.id}`}
+                >
+                  <FileUp className="w-3 h-3" />
+                </Button>
+              )}
+
+              {can("events:write") && (
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  onClick={() => setIsInviteOpen(true)}
+                  title="Invite link"
+                  data-testid={`invite-event-${event.id}`}
+                >
+                  <Link2 className="w-3 h-3" />
+                </Button>
+              )}
               
               <Button 
                 variant="outline" 
                 size="sm"
                 onClick={() => setIsEditOpen(true)}
+                disabled={!can("events:write")}
                 data-testid={`edit-event-${event.id}`}
               >
                 <Edit className="w-3 h-3" />
               </Button>
               
-              <AlertDialog>
-                <AlertDialogTrigger asChild>
-                  <Button 
-                    variant="outline" 
-                    size="sm"
-                    disabled={isDeleting}
-                    data-testid={`delete-event-${event.id}`}
-                  >
-                    <Trash className="w-3 h-3" />
-                  </Button>
-                </AlertDialogTrigger>
-                <AlertDialogContent>
-                  <AlertDialogHeader>
-                    <AlertDialogTitle>Delete Event</AlertDialogTitle>
-                    <AlertDialogDescription>
-                      Are you sure you want to delete "{event.title}"? This action cannot be undone.
-                      All registrations and associated data will be permanently removed.
-                    </AlertDialogDescription>
-                  </AlertDialogHeader>
-                  <AlertDialogFooter>
-                    <AlertDialogCancel>Cancel</AlertDialogCancel>
-                    <AlertDialogAction
-                      onClick={onDelete}
+              {can("events:delete") && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button 
+                      variant="outline" 
+                      size="sm"
                       disabled={isDeleting}
-                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      data-testid={`delete-event-${event.id}`}
                     >
-                      {isDeleting ? "Deleting..." : "Delete Event"}
-                    </AlertDialogAction>
-                  </AlertDialogFooter>
-                </AlertDialogContent>
-              </AlertDialog>
+                      <Trash className="w-3 h-3" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete Event</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Are you sure you want to delete "{event.title}"? It will be removed from your event list.
+                        {event.status !== "cancelled" && event.status !== "completed" &&
+                          " The event will be cancelled and everyone registered will be emailed a cancellation."}
+                        {" "}Registrations and email history are kept.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={onDelete}
+                        disabled={isDeleting}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        {isDeleting ? "Deleting..." : "Delete Event"}
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
             </div>
           </div>
         </CardContent>
@@ -234,11 +367,18 @@ export function EventCard({ event, onDelete, isDeleting }: EventCardProps) {
             onSuccess={() => {
               setIsEditOpen(false);
               queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+              queryClient.invalidateQueries({ queryKey: ["/api/series"] });
             }} 
           />
         </DialogContent>
       </Dialog>
 
+      <InviteLinkDialog event={event} open={isInviteOpen} onOpenChange={setIsInviteOpen} />
+
+      <AgendaDialog event={event} open={isAgendaOpen} onOpenChange={setIsAgendaOpen} />
+
+      <AttendanceImportDialog event={event} open={isAttendanceImportOpen} onOpenChange={setIsAttendanceImportOpen} />
+
       {/* Registration Walkthrough */}
       <RegistrationWalkthrough 
         event={event}
@@ -8,11 +8,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
 import { Badge } from "@/components/ui/badge";
-import { Calendar, Clock, MapPin, Users, X } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Bell, Calendar, Clock, MapPin, Users, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { insertEventSchema } from "@shared/schema";
-import type { Event, InsertEvent } from "@shared/schema";
+import type { Event, EventSeries, InsertEvent } from "@shared/schema";
+import type { RecurrenceRule } from "@shared/recurrence";
+import { DEFAULT_REMINDER_OFFSETS, reminderOffsetOptions, formatReminderOffset } from "@shared/reminders";
+import { RegistrationFieldsEditor } from "./registration-fields-editor";
+import { RecurrenceEditor } from "./recurrence-editor";
 import { z } from "zod";
 import { useState } from "react";
 
@@ -27,17 +33,26 @@ interface EventFormProps {
 
 export function EventForm({ event, onSuccess }: EventFormProps) {
   const [newTag, setNewTag] = useState("");
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  // Edits to an occurrence of a series can carry over to the later ones
+  const [editScope, setEditScope] = useState<"occurrence" | "following">("occurrence");
   const { toast } = useToast();
 
   const createEventMutation = useMutation({
     mutationFn: async (data: InsertEvent) => {
-      const response = await apiRequest("POST", "/api/events", data);
-      return response.json();
+      if (!recurrence) {
+        const response = await apiRequest("POST", "/api/events", data);
+        return response.json() as Promise<Event>;
+      }
+      const response = await apiRequest("POST", "/api/series", { event: data, recurrence });
+      return response.json() as Promise<{ series: EventSeries; events: Event[] }>;
     },
-    onSuccess: () => {
+    onSuccess: (created) => {
       toast({
-        title: "Event created",
-        description: "Your event has been successfully created.",
+        title: "series" in created ? "Series created" : "Event created",
+        description: "series" in created
+          ? `${created.events.length} events have been created, each with its own registrations.`
+          : "Your event has been successfully created.",
       });
       onSuccess();
     },
@@ -52,13 +67,16 @@ export function EventForm({ event, onSuccess }: EventFormProps) {
 
   const updateEventMutation = useMutation({
     mutationFn: async (data: Partial<Event>) => {
-      const response = await apiRequest("PUT", `/api/events/${event!.id}`, data);
+      const scope = event?.seriesId && editScope === "following" ? "?scope=following" : "";
+      const response = await apiRequest("PUT", `/api/events/${event!.id}${scope}`, data);
       return response.json();
     },
     onSuccess: () => {
       toast({
         title: "Event updated",
-        description: "Your event has been successfully updated.",
+        description: editScope === "following"
+          ? "This event and the following events in its series have been updated."
+          : "Your event has been successfully updated.",
       });
       onSuccess();
     },
@@ -81,10 +99,13 @@ export function EventForm({ event, onSuccess }: EventFormProps) {
       timezone: event?.timezone ?? "UTC",
       maxAttendees: event?.maxAttendees ?? undefined,
       isPublic: event?.isPublic ?? true,
+      registrationMode: event?.registrationMode ?? "open",
       status: (event?.status as any) || "draft",
       imageUrl: event?.imageUrl ?? "",
       location: event?.location ?? "",
       tags: event?.tags ?? [],
+      reminderOffsets: event?.reminderOffsets ?? DEFAULT_REMINDER_OFFSETS,
+      registrationFields: event?.registrationFields ?? [],
     },
   });
 
@@ -109,6 +130,16 @@ export function EventForm({ event, onSuccess }: EventFormProps) {
     form.setValue('tags', currentTags.filter(tag => tag !== tagToRemove));
   };
 
+  const toggleReminderOffset = (offset: number) => {
+    const currentOffsets = form.getValues('reminderOffsets') || [];
+    form.setValue(
+      'reminderOffsets',
+      currentOffsets.includes(offset)
+        ? currentOffsets.filter(o => o !== offset)
+        : [...currentOffsets, offset].sort((a, b) => b - a)
+    );
+  };
+
   const isLoading = createEventMutation.isPending || updateEventMutation.isPending;
 
   return (
@@ -278,6 +309,18 @@ export function EventForm({ event, onSuccess }: EventFormProps) {
                 </FormItem>
               )}
             />
+
+            {!event && (
+              <div className="space-y-2">
+                <Label>Repeat</Label>
+                <RecurrenceEditor
+                  value={recurrence}
+                  onChange={setRecurrence}
+                  startDate={form.watch("startDate")}
+                  timezone={form.watch("timezone") || "UTC"}
+                />
+              </div>
+            )}
           </div>
         </div>
 
@@ -346,7 +389,7 @@ export function EventForm({ event, onSuccess }: EventFormProps) {
                   <div className="space-y-0.5">
                     <FormLabel className="text-base">Public Event</FormLabel>
                     <FormDescription>
-                      Allow anyone to discover and register for this event
+                      List this event on the public registration page. Private events are reached through invite links
                     </FormDescription>
                   </div>
                   <FormControl>
@@ -359,6 +402,66 @@ export function EventForm({ event, onSuccess }: EventFormProps) {
                 </FormItem>
               )}
             />
+
+            <FormField
+              control={form.control}
+              name="registrationMode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Registration</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-registration-mode">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="open">Open to anyone</SelectItem>
+                      <SelectItem value="approval">Requires approval</SelectItem>
+                      <SelectItem value="invite">Invite only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {field.value === "approval"
+                      ? "Registrations wait in the approval queue until you approve or decline them"
+                      : field.value === "invite"
+                        ? "Only visitors with an invite link can register; the event isn't listed publicly"
+                        : "Visitors are registered as soon as they sign up"}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reminderOffsets"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center space-x-2">
+                    <Bell className="w-4 h-4 text-muted-foreground" />
+                    <span>Reminder Emails</span>
+                  </FormLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {reminderOffsetOptions.map((offset) => (
+                      <Badge
+                        key={offset}
+                        variant={field.value?.includes(offset) ? "default" : "outline"}
+                        className="cursor-pointer"
+                        onClick={() => toggleReminderOffset(offset)}
+                        data-testid={`reminder-offset-${offset}`}
+                      >
+                        {formatReminderOffset(offset)}
+                      </Badge>
+                    ))}
+                  </div>
+                  <FormDescription>
+                    Registrants get a reminder this long before the event starts
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           </div>
 
           <div className="space-y-4">
@@ -397,6 +500,52 @@ export function EventForm({ event, onSuccess }: EventFormProps) {
           </div>
         </div>
 
+        {/* Custom Registration Questions */}
+        <FormField
+          control={form.control}
+          name="registrationFields"
+          render={({ field }) => (
+            <FormItem className="space-y-4">
+              <div>
+                <h3 className="text-lg font-semibold text-foreground">Registration Questions</h3>
+                <FormDescription>
+                  Extra questions on this event's registration form. Answers are included in the registrations export and can be used to target campaigns.
+                </FormDescription>
+              </div>
+              <RegistrationFieldsEditor value={field.value ?? []} onChange={field.onChange} />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {event?.seriesId && (
+          <div className="space-y-2">
+            <Label>Apply changes to</Label>
+            <RadioGroup
+              value={editScope}
+              onValueChange={(value) => setEditScope(value as "occurrence" | "following")}
+              data-testid="radio-edit-scope"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="occurrence" id="edit-scope-occurrence" />
+                <Label htmlFor="edit-scope-occurrence" className="font-normal">This event only</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="following" id="edit-scope-following" />
+                <Label htmlFor="edit-scope-following" className="font-normal">
+                  This and following events in the series (a new time moves each of them by the same amount)
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+        )}
+
+        {event && (
+          <p className="text-sm text-muted-foreground" data-testid="event-change-notice">
+            Registrants are emailed an updated calendar invite when you change the date, time or location, or cancel the event.
+          </p>
+        )}
+
         {/* Form Actions */}
         <div className="flex justify-end space-x-2 pt-6 border-t">
           <Button 
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Copy, Link2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Event } from "@shared/schema";
+
+interface InviteLinkDialogProps {
+  event: Event;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function InviteLinkDialog({ event, open, onOpenChange }: InviteLinkDialogProps) {
+  const [email, setEmail] = useState("");
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const createInviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/events/${event.id}/invites`, email.trim() ? { email: email.trim() } : {});
+      return response.json() as Promise<{ url: string; email: string | null }>;
+    },
+    onSuccess: (invite) => setInviteUrl(invite.url),
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create invite link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = () => {
+    if (!inviteUrl) return;
+    navigator.clipboard.writeText(inviteUrl).then(
+      () => toast({ title: "Copied", description: "The invite link is on the clipboard." }),
+      () => toast({ title: "Error", description: "Failed to copy to the clipboard", variant: "destructive" })
+    );
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    onOpenChange(next);
+    if (!next) {
+      setEmail("");
+      setInviteUrl(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Invite to {event.title}</DialogTitle>
+          <DialogDescription>
+            Invite links open the public registration page on this event, even when it's private or invite-only,
+            and skip the approval queue. A link for one email address only registers that address.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="invite-email">Email (optional)</Label>
+            <div className="flex items-center space-x-2">
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="Anyone with the link"
+                value={email}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  setInviteUrl(null);
+                }}
+                data-testid="input-invite-email"
+              />
+              <Button
+                onClick={() => createInviteMutation.mutate()}
+                disabled={createInviteMutation.isPending}
+                data-testid="button-create-invite"
+              >
+                {createInviteMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <>
+                    <Link2 className="w-4 h-4 mr-2" />
+                    Create link
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+
+          {inviteUrl && (
+            <div className="flex items-center space-x-2">
+              <Input readOnly value={inviteUrl} onFocus={(e) => e.target.select()} data-testid="input-invite-url" />
+              <Button variant="outline" onClick={copyLink} data-testid="button-copy-invite">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
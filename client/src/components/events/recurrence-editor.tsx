@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Repeat, X } from "lucide-react";
+import {
+  recurrenceRuleSchema,
+  generateOccurrences,
+  describeRecurrence,
+  formatLocalDate,
+  MAX_SERIES_OCCURRENCES,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from "@shared/recurrence";
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  startDate: Date;
+  timezone: string;
+}
+
+const frequencyUnits: Record<RecurrenceFrequency, string> = {
+  daily: "days",
+  weekly: "weeks",
+  monthly: "months",
+};
+
+export function RecurrenceEditor({ value: rule, onChange, startDate, timezone }: RecurrenceEditorProps) {
+  const [newException, setNewException] = useState("");
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (rule) onChange({ ...rule, ...changes });
+  };
+
+  const setFrequency = (frequency: string) => {
+    onChange(frequency === "none"
+      ? null
+      : { interval: 1, count: 4, exceptions: [], ...rule, frequency: frequency as RecurrenceFrequency });
+  };
+
+  const setEndMode = (mode: string) => {
+    if (!rule) return;
+    const { until: _until, count: _count, ...rest } = rule;
+    onChange(mode === "count"
+      ? { ...rest, count: 4 }
+      : { ...rest, until: formatLocalDate(new Date(startDate.getTime() + 90 * 24 * 60 * 60 * 1000), timezone) });
+  };
+
+  const addException = () => {
+    if (!rule || !newException || rule.exceptions.includes(newException)) return;
+    update({ exceptions: [...rule.exceptions, newException].sort() });
+    setNewException("");
+  };
+
+  const validation = rule ? recurrenceRuleSchema.safeParse(rule) : undefined;
+  const occurrences = validation?.success && !isNaN(startDate.getTime())
+    ? generateOccurrences(startDate, validation.data, timezone)
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Repeat className="w-4 h-4 text-muted-foreground" />
+        <Select value={rule?.frequency ?? "none"} onValueChange={setFrequency}>
+          <SelectTrigger data-testid="select-recurrence-frequency">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="daily">Daily</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+            <SelectItem value="monthly">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {rule && (
+        <div className="rounded-lg border p-4 space-y-4" data-testid="recurrence-options">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurrence-interval">Every</Label>
+              <div className="flex items-center space-x-2">
+                <Input
+                  id="recurrence-interval"
+                  type="number"
+                  min={1}
+                  value={rule.interval}
+                  onChange={(e) => update({ interval: parseInt(e.target.value) || 1 })}
+                  data-testid="input-recurrence-interval"
+                />
+                <span className="text-sm text-muted-foreground">{frequencyUnits[rule.frequency]}</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Ends</Label>
+              <div className="flex items-center space-x-2">
+                <Select value={rule.count !== undefined ? "count" : "until"} onValueChange={setEndMode}>
+                  <SelectTrigger className="w-28" data-testid="select-recurrence-end">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="count">After</SelectItem>
+                    <SelectItem value="until">On</SelectItem>
+                  </SelectContent>
+                </Select>
+                {rule.count !== undefined ? (
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_SERIES_OCCURRENCES}
+                    value={rule.count}
+                    onChange={(e) => update({ count: parseInt(e.target.value) || 1 })}
+                    data-testid="input-recurrence-count"
+                  />
+                ) : (
+                  <Input
+                    type="date"
+                    value={rule.until ?? ""}
+                    onChange={(e) => update({ until: e.target.value })}
+                    data-testid="input-recurrence-until"
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurrence-exception">Skip dates</Label>
+            <div className="flex items-center space-x-2">
+              <Input
+                id="recurrence-exception"
+                type="date"
+                value={newException}
+                onChange={(e) => setNewException(e.target.value)}
+                data-testid="input-recurrence-exception"
+              />
+              <Button type="button" size="sm" onClick={addException} data-testid="add-recurrence-exception">
+                Skip
+              </Button>
+            </div>
+            {rule.exceptions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {rule.exceptions.map((date) => (
+                  <Badge key={date} variant="secondary" className="flex items-center space-x-1">
+                    <span>{date}</span>
+                    <button
+                      type="button"
+                      onClick={() => update({ exceptions: rule.exceptions.filter(d => d !== date) })}
+                      className="ml-1 hover:text-destructive"
+                      data-testid={`remove-recurrence-exception-${date}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <p className="text-sm text-muted-foreground" data-testid="recurrence-summary">
+            {!validation?.success
+              ? validation?.error.issues[0]?.message
+              : occurrences.length > MAX_SERIES_OCCURRENCES
+                ? `A series can have at most ${MAX_SERIES_OCCURRENCES} events`
+                : `${describeRecurrence(validation.data)}: creates ${occurrences.length} event${occurrences.length === 1 ? "" : "s"}, each with its own registrations.`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
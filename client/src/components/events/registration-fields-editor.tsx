@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Plus, Trash, X } from "lucide-react";
+import {
+  registrationFieldSchema,
+  registrationFieldTypes,
+  registrationFieldTypeLabels,
+  createRegistrationFieldId,
+  MAX_REGISTRATION_FIELDS,
+  type RegistrationField,
+  type RegistrationFieldType,
+} from "@shared/registrationFields";
+
+interface RegistrationFieldsEditorProps {
+  value: RegistrationField[];
+  onChange: (fields: RegistrationField[]) => void;
+}
+
+const hasOptions = (type: RegistrationFieldType) => type === "single-select" || type === "multi-select";
+
+export function RegistrationFieldsEditor({ value: fields, onChange }: RegistrationFieldsEditorProps) {
+  const [newLabel, setNewLabel] = useState("");
+  const [newType, setNewType] = useState<RegistrationFieldType>("text");
+  const [newOptions, setNewOptions] = useState<Record<string, string>>({});
+
+  const updateField = (index: number, changes: Partial<RegistrationField>) => {
+    onChange(fields.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const addField = () => {
+    const label = newLabel.trim();
+    if (!label || fields.length >= MAX_REGISTRATION_FIELDS) return;
+
+    onChange([
+      ...fields,
+      {
+        id: createRegistrationFieldId(label, fields),
+        label,
+        type: newType,
+        // Consent questions are almost always required
+        required: newType === "consent",
+        options: [],
+      },
+    ]);
+    setNewLabel("");
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= fields.length) return;
+    const reordered = [...fields];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const addOption = (index: number) => {
+    const field = fields[index];
+    const option = newOptions[field.id]?.trim();
+    if (!option || field.options.includes(option)) return;
+    updateField(index, { options: [...field.options, option] });
+    setNewOptions({ ...newOptions, [field.id]: "" });
+  };
+
+  return (
+    <div className="space-y-4">
+      {fields.map((field, index) => {
+        const issue = registrationFieldSchema.safeParse(field).error?.issues[0]?.message;
+        return (
+          <div key={field.id} className="rounded-lg border p-4 space-y-3" data-testid={`registration-field-${field.id}`}>
+            <div className="flex items-start gap-2">
+              <Input
+                value={field.label}
+                onChange={(e) => updateField(index, { label: e.target.value })}
+                placeholder="Question"
+                data-testid={`input-field-label-${field.id}`}
+              />
+              <Select
+                value={field.type}
+                onValueChange={(type) => updateField(index, { type: type as RegistrationFieldType })}
+              >
+                <SelectTrigger className="w-44" data-testid={`select-field-type-${field.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {registrationFieldTypes.map((type) => (
+                    <SelectItem key={type} value={type}>{registrationFieldTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" variant="ghost" size="sm" onClick={() => moveField(index, -1)} disabled={index === 0}>
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => moveField(index, 1)} disabled={index === fields.length - 1}>
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(fields.filter((_, i) => i !== index))}
+                data-testid={`remove-field-${field.id}`}
+              >
+                <Trash className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <Input
+              value={field.helpText ?? ""}
+              onChange={(e) => updateField(index, { helpText: e.target.value || undefined })}
+              placeholder={field.type === "consent" ? "Link or details about what they agree to (optional)" : "Help text (optional)"}
+            />
+
+            {hasOptions(field.type) && (
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Input
+                    placeholder="Add an option..."
+                    value={newOptions[field.id] ?? ""}
+                    onChange={(e) => setNewOptions({ ...newOptions, [field.id]: e.target.value })}
+                    onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addOption(index))}
+                    data-testid={`input-field-option-${field.id}`}
+                  />
+                  <Button type="button" onClick={() => addOption(index)} size="sm">
+                    Add
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {field.options.map((option) => (
+                    <Badge key={option} variant="secondary" className="flex items-center space-x-1">
+                      <span>{option}</span>
+                      <button
+                        type="button"
+                        onClick={() => updateField(index, { options: field.options.filter(o => o !== option) })}
+                        className="ml-1 hover:text-destructive"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id={`required-${field.id}`}
+                checked={field.required}
+                onCheckedChange={(required) => updateField(index, { required })}
+              />
+              <Label htmlFor={`required-${field.id}`} className="text-sm font-normal">
+                {field.type === "consent" || field.type === "checkbox" ? "Must be checked to register" : "Required"}
+              </Label>
+            </div>
+
+            {issue && <p className="text-sm font-medium text-destructive">{issue}</p>}
+          </div>
+        );
+      })}
+
+      {fields.length < MAX_REGISTRATION_FIELDS && (
+        <div className="flex items-center space-x-2">
+          <Input
+            placeholder="Add a question..."
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addField())}
+            data-testid="input-new-field-label"
+          />
+          <Select value={newType} onValueChange={(type) => setNewType(type as RegistrationFieldType)}>
+            <SelectTrigger className="w-44" data-testid="select-new-field-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {registrationFieldTypes.map((type) => (
+                <SelectItem key={type} value={type}>{registrationFieldTypeLabels[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="button" onClick={addField} size="sm" data-testid="add-field-button">
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  buildRegistrationAnswersSchema,
+  type RegistrationAnswer,
+  type RegistrationAnswers,
+  type RegistrationField,
+} from "@shared/registrationFields";
+
+interface RegistrationQuestionsProps {
+  fields: RegistrationField[];
+  answers: RegistrationAnswers;
+  onChange: (answers: RegistrationAnswers) => void;
+  errors?: Record<string, string>;
+}
+
+// Checks answers against the event's questions before they're sent. Blank
+// answers are dropped so optional questions aren't stored as empty strings.
+export function validateRegistrationAnswers(fields: RegistrationField[], answers: RegistrationAnswers) {
+  const submitted = Object.fromEntries(
+    Object.entries(answers).filter(([, answer]) =>
+      Array.isArray(answer) ? answer.length > 0 : typeof answer === "string" ? answer.trim() !== "" : true,
+    ),
+  );
+
+  const result = buildRegistrationAnswersSchema(fields).safeParse(submitted);
+  if (result.success) {
+    return { answers: result.data as RegistrationAnswers, errors: {} };
+  }
+
+  const errors: Record<string, string> = {};
+  for (const issue of result.error.issues) {
+    const fieldId = String(issue.path[0] ?? "");
+    errors[fieldId] ??= issue.message;
+  }
+  return { answers: null, errors };
+}
+
+export function RegistrationQuestions({ fields, answers, onChange, errors = {} }: RegistrationQuestionsProps) {
+  const setAnswer = (fieldId: string, answer: RegistrationAnswer) => {
+    onChange({ ...answers, [fieldId]: answer });
+  };
+
+  return (
+    <div className="space-y-4">
+      {fields.map((field) => {
+        const answer = answers[field.id];
+        const label = `${field.label}${field.required ? " *" : ""}`;
+
+        return (
+          <div key={field.id} className="space-y-2" data-testid={`question-${field.id}`}>
+            {field.type === "checkbox" || field.type === "consent" ? (
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id={`answer-${field.id}`}
+                  checked={answer === true}
+                  onCheckedChange={(checked) => setAnswer(field.id, checked === true)}
+                  data-testid={`checkbox-answer-${field.id}`}
+                />
+                <Label htmlFor={`answer-${field.id}`} className="text-sm font-normal leading-snug">
+                  {label}
+                </Label>
+              </div>
+            ) : (
+              <Label htmlFor={`answer-${field.id}`}>{label}</Label>
+            )}
+
+            {field.type === "text" && (
+              <Input
+                id={`answer-${field.id}`}
+                value={typeof answer === "string" ? answer : ""}
+                onChange={(e) => setAnswer(field.id, e.target.value)}
+                data-testid={`input-answer-${field.id}`}
+              />
+            )}
+
+            {field.type === "single-select" && (
+              <RadioGroup
+                value={typeof answer === "string" ? answer : ""}
+                onValueChange={(value) => setAnswer(field.id, value)}
+              >
+                {field.options.map((option) => (
+                  <div key={option} className="flex items-center space-x-2">
+                    <RadioGroupItem value={option} id={`answer-${field.id}-${option}`} />
+                    <Label htmlFor={`answer-${field.id}-${option}`} className="text-sm font-normal">{option}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            )}
+
+            {field.type === "multi-select" && (
+              <div className="space-y-2">
+                {field.options.map((option) => {
+                  const selected = Array.isArray(answer) ? answer : [];
+                  return (
+                    <div key={option} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`answer-${field.id}-${option}`}
+                        checked={selected.includes(option)}
+                        onCheckedChange={(checked) =>
+                          setAnswer(field.id, checked ? [...selected, option] : selected.filter(v => v !== option))
+                        }
+                      />
+                      <Label htmlFor={`answer-${field.id}-${option}`} className="text-sm font-normal">{option}</Label>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {field.helpText && <p className="text-sm text-muted-foreground">{field.helpText}</p>}
+            {errors[field.id] && (
+              <p className="text-sm font-medium text-destructive" data-testid={`error-answer-${field.id}`}>
+                {errors[field.id]}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -7,11 +7,15 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertAttendeeSchema } from "@shared/schema";
-import type { Event, Attendee, InsertAttendee } from "@shared/schema";
+import type { Event, Attendee, InsertAttendee, RegistrationResult } from "@shared/schema";
+import type { RegistrationAnswers } from "@shared/registrationFields";
+import { RegistrationQuestions, validateRegistrationAnswers } from "./registration-questions";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { z } from "zod";
@@ -37,7 +41,12 @@ export function RegistrationWalkthrough({
 }: RegistrationWalkthroughProps) {
   const [step, setStep] = useState<RegistrationStep>("profile");
   const [createdAttendee, setCreatedAttendee] = useState<Attendee | null>(null);
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
   const [interestInput, setInterestInput] = useState("");
+  const [answers, setAnswers] = useState<RegistrationAnswers>({});
+  const [answerErrors, setAnswerErrors] = useState<Record<string, string>>({});
+  const [wholeSeries, setWholeSeries] = useState(false);
+  const [seriesRegistrationCount, setSeriesRegistrationCount] = useState<number | null>(null);
   const { toast } = useToast();
 
   const { data: existingAttendees, isLoading: isLoadingAttendees } = useQuery<Attendee[]>({
@@ -75,14 +84,21 @@ export function RegistrationWalkthrough({
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (attendeeId: string) => {
-      const response = await apiRequest("POST", `/api/events/${event.id}/register`, { 
-        attendeeId 
+    mutationFn: async ({ attendeeId, answers }: { attendeeId: string; answers: RegistrationAnswers }) => {
+      const path = wholeSeries && event.seriesId ? `/api/series/${event.seriesId}/register` : `/api/events/${event.id}/register`;
+      const response = await apiRequest("POST", path, { 
+        attendeeId,
+        answers,
       });
-      return response.json();
+      return response.json() as Promise<RegistrationResult | RegistrationResult[]>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/events", event.id, "registrations"] });
+    onSuccess: (result) => {
+      // Registering for a series returns one registration per occurrence
+      const registrations = Array.isArray(result) ? result : [result];
+      const registration = registrations.find(r => r.eventId === event.id) ?? registrations[0];
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      setWaitlistPosition(registration.waitlistPosition);
+      setSeriesRegistrationCount(Array.isArray(result) ? result.length : null);
       setStep("success");
     },
     onError: (error: Error) => {
@@ -124,8 +140,12 @@ export function RegistrationWalkthrough({
   };
 
   const handleConfirmRegistration = () => {
-    if (createdAttendee) {
-      registerMutation.mutate(createdAttendee.id);
+    if (!createdAttendee) return;
+
+    const { answers: validAnswers, errors } = validateRegistrationAnswers(event.registrationFields, answers);
+    setAnswerErrors(errors);
+    if (validAnswers) {
+      registerMutation.mutate({ attendeeId: createdAttendee.id, answers: validAnswers });
     }
   };
 
@@ -134,6 +154,11 @@ export function RegistrationWalkthrough({
     setTimeout(() => {
       setStep("profile");
       setCreatedAttendee(null);
+      setWaitlistPosition(null);
+      setWholeSeries(false);
+      setSeriesRegistrationCount(null);
+      setAnswers({});
+      setAnswerErrors({});
       form.reset();
       if (onSuccess) {
         onSuccess();
@@ -441,6 +466,35 @@ export function RegistrationWalkthrough({
               </div>
             </div>
 
+            {event.registrationFields.length > 0 && (
+              <div className="space-y-4">
+                <h3 className="font-semibold text-foreground flex items-center">
+                  <Check className="w-4 h-4 mr-2 text-primary" />
+                  A Few Questions
+                </h3>
+                <RegistrationQuestions
+                  fields={event.registrationFields}
+                  answers={answers}
+                  onChange={setAnswers}
+                  errors={answerErrors}
+                />
+              </div>
+            )}
+
+            {event.seriesId && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="register-whole-series"
+                  checked={wholeSeries}
+                  onCheckedChange={(checked) => setWholeSeries(checked === true)}
+                  data-testid="checkbox-whole-series"
+                />
+                <Label htmlFor="register-whole-series" className="font-normal">
+                  Register for every upcoming event in this series
+                </Label>
+              </div>
+            )}
+
             <div className="flex justify-between space-x-2 pt-4">
               <Button 
                 type="button" 
@@ -482,11 +536,22 @@ export function RegistrationWalkthrough({
               
               <div>
                 <h2 className="text-2xl font-heading font-bold text-foreground mb-2">
-                  You're All Set!
+                  {waitlistPosition ? "You're on the Waitlist" : "You're All Set!"}
                 </h2>
-                <p className="text-muted-foreground">
-                  Your registration for <span className="font-semibold text-foreground">{event.title}</span> is confirmed.
-                </p>
+                {waitlistPosition ? (
+                  <p className="text-muted-foreground" data-testid="text-waitlist-position">
+                    <span className="font-semibold text-foreground">{event.title}</span> is full. You're number {waitlistPosition} on the waitlist, and we'll email you as soon as a spot opens up.
+                  </p>
+                ) : (
+                  <p className="text-muted-foreground">
+                    Your registration for <span className="font-semibold text-foreground">{event.title}</span> is confirmed.
+                  </p>
+                )}
+                {seriesRegistrationCount !== null && (
+                  <p className="text-muted-foreground mt-2" data-testid="text-series-registrations">
+                    You're signed up for {seriesRegistrationCount} upcoming event{seriesRegistrationCount === 1 ? "" : "s"} in this series, each with its own reminders.
+                  </p>
+                )}
               </div>
             </div>
 
@@ -499,9 +564,11 @@ export function RegistrationWalkthrough({
                 <div className="flex items-start space-x-3 p-3 bg-muted/50 rounded-lg">
                   <Mail className="w-5 h-5 text-primary mt-0.5" />
                   <div>
-                    <p className="font-medium text-foreground">Welcome Email</p>
+                    <p className="font-medium text-foreground">{waitlistPosition ? "Spot Confirmation" : "Welcome Email"}</p>
                     <p className="text-sm text-muted-foreground">
-                      Check your inbox for a welcome email with event details and important information.
+                      {waitlistPosition
+                        ? "When someone cancels, the next person in line is registered automatically and emailed the event details."
+                        : "Check your inbox for a welcome email with event details and important information."}
                     </p>
                   </div>
                 </div>
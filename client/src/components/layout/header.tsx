@@ -1,7 +1,11 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Menu, Search, Bell, Plus } from "lucide-react";
 import { useLocation } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Workspace } from "@shared/schema";
 
 interface HeaderProps {
   onMenuClick: () => void;
@@ -21,6 +25,10 @@ const pageConfig = {
     title: "Attendees",
     description: "View and manage event attendees"
   },
+  "/check-in": {
+    title: "Check-in",
+    description: "Scan attendees in and out at the door"
+  },
   "/campaigns": {
     title: "Email Campaigns",
     description: "Create and manage your email campaigns"
@@ -33,11 +41,61 @@ const pageConfig = {
     title: "Templates",
     description: "Manage your email templates"
   },
+  "/outbox": {
+    title: "Outbox",
+    description: "Inspect emails captured in development"
+  },
 };
 
+function WorkspaceSwitcher() {
+  const { data: workspaces = [] } = useQuery<Workspace[]>({
+    queryKey: ["/api/workspaces"],
+  });
+
+  const { data: activeWorkspace } = useQuery<Workspace>({
+    queryKey: ["/api/workspaces", "active"],
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async (workspaceId: string) => {
+      const res = await apiRequest("POST", `/api/workspaces/${workspaceId}/activate`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      // Every cached list belongs to the previous workspace
+      queryClient.invalidateQueries();
+    },
+  });
+
+  if (workspaces.length < 2) return null;
+
+  return (
+    <Select
+      value={activeWorkspace?.id}
+      onValueChange={(value) => activateMutation.mutate(value)}
+      disabled={activateMutation.isPending}
+    >
+      <SelectTrigger className="w-48" data-testid="workspace-switcher">
+        <SelectValue placeholder="Select workspace" />
+      </SelectTrigger>
+      <SelectContent>
+        {workspaces.map((workspace) => (
+          <SelectItem key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
 export function Header({ onMenuClick, showMenuButton }: HeaderProps) {
   const [location] = useLocation();
-  const config = pageConfig[location as keyof typeof pageConfig] || pageConfig["/"];
+  // Detail pages such as /campaigns/:id share their section's title
+  const section = `/${location.split("/")[1]}`;
+  const config = pageConfig[location as keyof typeof pageConfig]
+    || pageConfig[section as keyof typeof pageConfig]
+    || pageConfig["/"];
 
   return (
     <header className="bg-card border-b border-border sticky top-0 z-40">
@@ -64,6 +122,8 @@ export function Header({ onMenuClick, showMenuButton }: HeaderProps) {
         </div>
         
         <div className="flex items-center space-x-4">
+          <WorkspaceSwitcher />
+
           {/* Search */}
           <div className="hidden md:flex items-center bg-muted rounded-lg px-4 py-2 w-64">
             <Search className="w-4 h-4 text-muted-foreground mr-2" />
@@ -1,5 +1,7 @@
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import { roleLabels, type Permission } from "@shared/permissions";
 import { 
   Calendar,
   CalendarCheck,
@@ -9,8 +11,12 @@ import {
   FileText,
   Settings,
   Plug,
+  Inbox,
   Home,
-  Globe
+  Globe,
+  UserCheck,
+  ScanLine,
+  LogOut
 } from "lucide-react";
 
 interface SidebarProps {
@@ -19,23 +25,34 @@ interface SidebarProps {
   isMobile: boolean;
 }
 
-const navigation = [
+const navigation: {
+  name: string;
+  href: string;
+  icon: typeof Home;
+  badge?: string;
+  permission?: Permission;
+}[] = [
   { name: "Dashboard", href: "/", icon: Home },
   { name: "Events", href: "/events", icon: Calendar, badge: "3" },
   { name: "Attendees", href: "/attendees", icon: Users },
-  { name: "Email Campaigns", href: "/campaigns", icon: Mail },
+  { name: "Approvals", href: "/approvals", icon: UserCheck, permission: "registrations:approve" },
+  { name: "Check-in", href: "/check-in", icon: ScanLine, permission: "attendees:checkin" },
+  { name: "Email Campaigns", href: "/campaigns", icon: Mail, permission: "campaigns:write" },
   { name: "Analytics", href: "/analytics", icon: BarChart3 },
-  { name: "Templates", href: "/templates", icon: FileText },
+  { name: "Templates", href: "/templates", icon: FileText, permission: "templates:write" },
   { name: "Public Registration", href: "/register", icon: Globe },
 ];
 
 const settingsNavigation = [
   { name: "Preferences", href: "/preferences", icon: Settings },
   { name: "Integrations", href: "/integrations", icon: Plug },
+  // Emails captured by the development provider; other builds reach it by URL
+  ...(import.meta.env.DEV ? [{ name: "Outbox", href: "/outbox", icon: Inbox }] : []),
 ];
 
 export function Sidebar({ isOpen, onClose, isMobile }: SidebarProps) {
   const [location] = useLocation();
+  const { user, can, logoutMutation } = useAuth();
 
   return (
     <>
@@ -77,7 +94,7 @@ export function Sidebar({ isOpen, onClose, isMobile }: SidebarProps) {
           
           {/* Navigation */}
           <nav className="flex-1 overflow-y-auto p-4 space-y-1">
-            {navigation.map((item) => {
+            {navigation.filter((item) => !item.permission || can(item.permission)).map((item) => {
               const isActive = location === item.href;
               return (
                 <Link
@@ -132,22 +149,31 @@ export function Sidebar({ isOpen, onClose, isMobile }: SidebarProps) {
           
           {/* User Profile */}
           <div className="p-4 border-t border-sidebar-border">
-            <div className="flex items-center space-x-3 px-4 py-3 rounded-lg hover:bg-sidebar-accent transition-colors cursor-pointer">
-              <img 
-                src="https://images.unsplash.com/photo-1494790108377-be9c29b29330?ixlib=rb-4.0.3&auto=format&fit=crop&w=100&h=100" 
-                alt="Sarah Johnson profile" 
-                className="w-10 h-10 rounded-full object-cover"
+            <div className="flex items-center space-x-3 px-4 py-3 rounded-lg">
+              <div 
+                className="w-10 h-10 rounded-full bg-sidebar-primary text-sidebar-primary-foreground flex items-center justify-center font-semibold uppercase"
                 data-testid="user-avatar"
-              />
+              >
+                {user?.username.charAt(0)}
+              </div>
               <div className="flex-1 min-w-0">
-                <p className="text-sm font-semibold text-sidebar-foreground truncate">
-                  Sarah Johnson
+                <p className="text-sm font-semibold text-sidebar-foreground truncate" data-testid="user-name">
+                  {user?.username}
                 </p>
-                <p className="text-xs text-sidebar-foreground/60 truncate">
-                  Event Organizer
+                <p className="text-xs text-sidebar-foreground/60 truncate" data-testid="user-role">
+                  {user ? roleLabels[user.role] : ""}
                 </p>
               </div>
-              <div className="w-4 h-4 text-sidebar-foreground/60" />
+              <button
+                type="button"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                className="text-sidebar-foreground/60 hover:text-sidebar-foreground transition-colors"
+                title="Sign out"
+                data-testid="logout-button"
+              >
+                <LogOut className="w-4 h-4" />
+              </button>
             </div>
           </div>
         </div>
@@ -0,0 +1,466 @@
+import { useState, type DragEvent, type ReactNode } from "react";
+import {
+  Heading,
+  Type,
+  Image,
+  MousePointerClick,
+  CalendarDays,
+  Users,
+  Minus,
+  PanelBottom,
+  GripVertical,
+  Copy,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  Plus,
+  Settings2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import {
+  emailBlockTypes,
+  emailBlockLabels,
+  createEmailBlock,
+  type EmailBlock,
+  type EmailBlockType,
+  type EmailDocument,
+  type EmailDocumentSettings,
+} from "@shared/emailBlocks";
+
+interface EmailBuilderProps {
+  value: EmailDocument;
+  onChange: (document: EmailDocument) => void;
+}
+
+const blockIcons: Record<EmailBlockType, typeof Heading> = {
+  header: Heading,
+  text: Type,
+  image: Image,
+  button: MousePointerClick,
+  event: CalendarDays,
+  speakers: Users,
+  divider: Minus,
+  footer: PanelBottom,
+};
+
+// Drag payloads: a new block from the palette, or an existing block being moved
+const NEW_BLOCK_TYPE = "application/x-email-block-type";
+const MOVED_BLOCK_INDEX = "application/x-email-block-index";
+
+const blockSummary = (block: EmailBlock): string => {
+  switch (block.type) {
+    case "header": return block.title;
+    case "text": return block.text;
+    case "image": return block.alt || block.src || "No image selected";
+    case "button": return `${block.label} → ${block.url || "no link"}`;
+    case "event": return "Event title, date, time and location";
+    case "speakers": return block.speakers.map(speaker => speaker.name).join(", ") || "No speakers";
+    case "divider": return "";
+    case "footer": return block.text;
+  }
+};
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs">{label}</Label>
+      {children}
+    </div>
+  );
+}
+
+function ColorField({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <Field label={label}>
+      <div className="flex items-center space-x-2">
+        <input
+          type="color"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-9 w-10 shrink-0 cursor-pointer rounded border bg-transparent p-1"
+        />
+        <Input value={value} onChange={(e) => onChange(e.target.value)} className="font-mono text-xs" />
+      </div>
+    </Field>
+  );
+}
+
+function AlignField({ value, onChange }: { value: "left" | "center"; onChange: (value: "left" | "center") => void }) {
+  return (
+    <Field label="Alignment">
+      <Select value={value} onValueChange={(next) => onChange(next as "left" | "center")}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="left">Left</SelectItem>
+          <SelectItem value="center">Center</SelectItem>
+        </SelectContent>
+      </Select>
+    </Field>
+  );
+}
+
+function BlockInspector({ block, onChange }: { block: EmailBlock; onChange: (block: EmailBlock) => void }) {
+  // Every field edit replaces the block with an updated copy of the same type
+  const update = <T extends EmailBlock>(current: T, changes: Partial<T>) => onChange({ ...current, ...changes });
+
+  switch (block.type) {
+    case "header":
+      return (
+        <>
+          <Field label="Title">
+            <Input value={block.title} onChange={(e) => update(block, { title: e.target.value })} />
+          </Field>
+          <Field label="Subtitle">
+            <Input value={block.subtitle} onChange={(e) => update(block, { subtitle: e.target.value })} />
+          </Field>
+          <Field label="Logo URL">
+            <Input value={block.logoUrl} placeholder="https://" onChange={(e) => update(block, { logoUrl: e.target.value })} />
+          </Field>
+          <ColorField label="Background" value={block.backgroundColor} onChange={(value) => update(block, { backgroundColor: value })} />
+          <ColorField label="Text color" value={block.textColor} onChange={(value) => update(block, { textColor: value })} />
+        </>
+      );
+    case "text":
+      return (
+        <>
+          <Field label="Text">
+            <Textarea
+              value={block.text}
+              onChange={(e) => update(block, { text: e.target.value })}
+              className="min-h-[160px] font-mono text-xs"
+            />
+          </Field>
+          <p className="text-xs text-muted-foreground">Leave a blank line between paragraphs. Variables like {"{{attendeeName}}"} work here.</p>
+          <AlignField value={block.align} onChange={(value) => update(block, { align: value })} />
+        </>
+      );
+    case "image":
+      return (
+        <>
+          <Field label="Image URL">
+            <Input value={block.src} placeholder="https://" onChange={(e) => update(block, { src: e.target.value })} />
+          </Field>
+          <Field label="Alt text">
+            <Input value={block.alt} onChange={(e) => update(block, { alt: e.target.value })} />
+          </Field>
+          <Field label="Link">
+            <Input value={block.href} placeholder="https://" onChange={(e) => update(block, { href: e.target.value })} />
+          </Field>
+          <Field label="Width (px)">
+            <Input
+              type="number"
+              min={40}
+              max={600}
+              value={block.width}
+              onChange={(e) => update(block, { width: Math.min(600, Math.max(40, Number(e.target.value) || 600)) })}
+            />
+          </Field>
+        </>
+      );
+    case "button":
+      return (
+        <>
+          <Field label="Label">
+            <Input value={block.label} onChange={(e) => update(block, { label: e.target.value })} />
+          </Field>
+          <Field label="Link">
+            <Input value={block.url} placeholder="https:// or {{feedbackLink}}" onChange={(e) => update(block, { url: e.target.value })} />
+          </Field>
+          <ColorField label="Background" value={block.backgroundColor} onChange={(value) => update(block, { backgroundColor: value })} />
+          <ColorField label="Text color" value={block.textColor} onChange={(value) => update(block, { textColor: value })} />
+          <AlignField value={block.align} onChange={(value) => update(block, { align: value })} />
+        </>
+      );
+    case "event":
+      return (
+        <>
+          <p className="text-xs text-muted-foreground">Shows the campaign event's title, date, time and location.</p>
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Include description</Label>
+            <Switch checked={block.showDescription} onCheckedChange={(checked) => update(block, { showDescription: checked })} />
+          </div>
+          <Field label="Button label">
+            <Input value={block.buttonLabel} placeholder="Optional" onChange={(e) => update(block, { buttonLabel: e.target.value })} />
+          </Field>
+          <Field label="Button link">
+            <Input value={block.buttonUrl} placeholder="https://" onChange={(e) => update(block, { buttonUrl: e.target.value })} />
+          </Field>
+        </>
+      );
+    case "speakers":
+      return (
+        <>
+          <Field label="Heading">
+            <Input value={block.heading} onChange={(e) => update(block, { heading: e.target.value })} />
+          </Field>
+          {block.speakers.map((speaker, index) => {
+            const updateSpeaker = (changes: Partial<typeof speaker>) =>
+              update(block, { speakers: block.speakers.map((s, i) => (i === index ? { ...s, ...changes } : s)) });
+            return (
+              <div key={index} className="space-y-2 rounded-lg border p-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-medium">Speaker {index + 1}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => update(block, { speakers: block.speakers.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+                <Input value={speaker.name} placeholder="Name" onChange={(e) => updateSpeaker({ name: e.target.value })} />
+                <Input value={speaker.title} placeholder="Title" onChange={(e) => updateSpeaker({ title: e.target.value })} />
+                <Input value={speaker.photoUrl} placeholder="Photo URL" onChange={(e) => updateSpeaker({ photoUrl: e.target.value })} />
+              </div>
+            );
+          })}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => update(block, { speakers: [...block.speakers, { name: "", title: "", photoUrl: "" }] })}
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add speaker
+          </Button>
+        </>
+      );
+    case "divider":
+      return <ColorField label="Line color" value={block.color} onChange={(value) => update(block, { color: value })} />;
+    case "footer":
+      return (
+        <>
+          <Field label="Text">
+            <Textarea value={block.text} onChange={(e) => update(block, { text: e.target.value })} className="min-h-[100px] text-xs" />
+          </Field>
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Unsubscribe link</Label>
+            <Switch checked={block.showUnsubscribe} onCheckedChange={(checked) => update(block, { showUnsubscribe: checked })} />
+          </div>
+          {!block.showUnsubscribe && (
+            <p className="text-xs text-muted-foreground">A standard unsubscribe footer is added when sending instead.</p>
+          )}
+        </>
+      );
+  }
+}
+
+function SettingsInspector({ settings, onChange }: { settings: EmailDocumentSettings; onChange: (settings: EmailDocumentSettings) => void }) {
+  return (
+    <>
+      <ColorField label="Page background" value={settings.backgroundColor} onChange={(value) => onChange({ ...settings, backgroundColor: value })} />
+      <ColorField label="Content background" value={settings.contentBackgroundColor} onChange={(value) => onChange({ ...settings, contentBackgroundColor: value })} />
+      <ColorField label="Text color" value={settings.textColor} onChange={(value) => onChange({ ...settings, textColor: value })} />
+      <ColorField label="Accent color" value={settings.accentColor} onChange={(value) => onChange({ ...settings, accentColor: value })} />
+      <Field label="Font">
+        <Select value={settings.fontFamily} onValueChange={(value) => onChange({ ...settings, fontFamily: value })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="Arial, Helvetica, sans-serif">Arial</SelectItem>
+            <SelectItem value="Helvetica, Arial, sans-serif">Helvetica</SelectItem>
+            <SelectItem value="Verdana, Geneva, sans-serif">Verdana</SelectItem>
+            <SelectItem value="Georgia, 'Times New Roman', serif">Georgia</SelectItem>
+            <SelectItem value="'Trebuchet MS', Helvetica, sans-serif">Trebuchet MS</SelectItem>
+          </SelectContent>
+        </Select>
+      </Field>
+    </>
+  );
+}
+
+export function EmailBuilder({ value, onChange }: EmailBuilderProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(value.blocks[0]?.id ?? null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const { blocks } = value;
+  const selected = blocks.find(block => block.id === selectedId);
+
+  const setBlocks = (next: EmailBlock[]) => onChange({ ...value, blocks: next });
+
+  const insertBlock = (type: EmailBlockType, index = blocks.length) => {
+    const block = createEmailBlock(type);
+    setBlocks([...blocks.slice(0, index), block, ...blocks.slice(index)]);
+    setSelectedId(block.id);
+  };
+
+  const moveBlock = (from: number, to: number) => {
+    if (to < 0 || to > blocks.length) return;
+    const next = [...blocks];
+    const [block] = next.splice(from, 1);
+    // Removing the block shifts every later drop position up by one
+    next.splice(to > from ? to - 1 : to, 0, block);
+    setBlocks(next);
+  };
+
+  const duplicateBlock = (index: number) => {
+    const copy = { ...blocks[index], id: createEmailBlock(blocks[index].type).id };
+    setBlocks([...blocks.slice(0, index + 1), copy, ...blocks.slice(index + 1)]);
+    setSelectedId(copy.id);
+  };
+
+  const removeBlock = (index: number) => {
+    setBlocks(blocks.filter((_, i) => i !== index));
+    if (blocks[index].id === selectedId) setSelectedId(null);
+  };
+
+  // Drop position is before or after the hovered block depending on which half the pointer is in
+  const handleDragOver = (e: DragEvent<HTMLElement>, index: number) => {
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLElement>) => {
+    e.preventDefault();
+    const index = dropIndex ?? blocks.length;
+    const type = e.dataTransfer.getData(NEW_BLOCK_TYPE) as EmailBlockType;
+    const moved = e.dataTransfer.getData(MOVED_BLOCK_INDEX);
+    if (type && emailBlockTypes.includes(type)) {
+      insertBlock(type, index);
+    } else if (moved !== "") {
+      moveBlock(Number(moved), index);
+    }
+    setDropIndex(null);
+  };
+
+  const dropIndicator = (index: number) =>
+    dropIndex === index && <div className="h-1 rounded bg-primary" data-testid={`builder-drop-${index}`} />;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[160px,1fr,260px] gap-4">
+      {/* Palette */}
+      <div className="space-y-2">
+        <div className="text-xs font-medium text-muted-foreground uppercase">Blocks</div>
+        {emailBlockTypes.map((type) => {
+          const Icon = blockIcons[type];
+          return (
+            <button
+              key={type}
+              type="button"
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData(NEW_BLOCK_TYPE, type);
+                e.dataTransfer.effectAllowed = "copy";
+              }}
+              onClick={() => insertBlock(type)}
+              className="w-full flex items-center space-x-2 rounded-lg border bg-card px-3 py-2 text-sm hover:bg-muted/50 cursor-grab"
+              title="Drag into the email or click to add at the end"
+              data-testid={`builder-add-${type}`}
+            >
+              <Icon className="w-4 h-4 text-muted-foreground" />
+              <span>{emailBlockLabels[type]}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Canvas */}
+      <div
+        className="space-y-2 rounded-lg p-3 min-h-[300px]"
+        style={{ backgroundColor: value.settings.backgroundColor }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (e.target === e.currentTarget) setDropIndex(blocks.length);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropIndex(null);
+        }}
+        onDrop={handleDrop}
+        data-testid="builder-canvas"
+      >
+        {blocks.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-24">Drag blocks here to build your email</p>
+        )}
+        {blocks.map((block, index) => {
+          const Icon = blockIcons[block.type];
+          const summary = blockSummary(block);
+          return (
+            <div key={block.id}>
+              {dropIndicator(index)}
+              <div
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(MOVED_BLOCK_INDEX, String(index));
+                  e.dataTransfer.effectAllowed = "move";
+                }}
+                onDragEnd={() => setDropIndex(null)}
+                onDragOver={(e) => handleDragOver(e, index)}
+                onClick={() => setSelectedId(block.id)}
+                className={cn(
+                  "group flex items-start space-x-2 rounded-lg border bg-card p-3 cursor-pointer",
+                  block.id === selectedId && "ring-2 ring-primary"
+                )}
+                data-testid={`builder-block-${index}`}
+              >
+                <GripVertical className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground cursor-grab" />
+                <Icon className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium">{emailBlockLabels[block.type]}</div>
+                  {summary && <div className="text-xs text-muted-foreground line-clamp-2 whitespace-pre-line">{summary}</div>}
+                </div>
+                <div className="flex shrink-0 opacity-0 group-hover:opacity-100">
+                  <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={index === 0}
+                    onClick={(e) => { e.stopPropagation(); moveBlock(index, index - 1); }} title="Move up">
+                    <ArrowUp className="w-3 h-3" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={index === blocks.length - 1}
+                    onClick={(e) => { e.stopPropagation(); moveBlock(index, index + 2); }} title="Move down">
+                    <ArrowDown className="w-3 h-3" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0"
+                    onClick={(e) => { e.stopPropagation(); duplicateBlock(index); }} title="Duplicate">
+                    <Copy className="w-3 h-3" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0"
+                    onClick={(e) => { e.stopPropagation(); removeBlock(index); }} title="Remove"
+                    data-testid={`builder-remove-${index}`}>
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        {dropIndicator(blocks.length)}
+      </div>
+
+      {/* Inspector */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center justify-between text-sm">
+            <span>{selected ? emailBlockLabels[selected.type] : "Email settings"}</span>
+            {selected && (
+              <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={() => setSelectedId(null)}>
+                <Settings2 className="w-3 h-3 mr-1" />
+                Settings
+              </Button>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {selected ? (
+            <BlockInspector
+              block={selected}
+              onChange={(block) => setBlocks(blocks.map(b => (b.id === block.id ? block : b)))}
+            />
+          ) : (
+            <SettingsInspector settings={value.settings} onChange={(settings) => onChange({ ...value, settings })} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
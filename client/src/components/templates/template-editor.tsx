@@ -10,23 +10,31 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDes
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TemplateHistory } from "@/components/templates/template-history";
+import { EmailBuilder } from "@/components/templates/email-builder";
 import { 
   FileText, 
   Eye, 
   Code, 
   Wand2, 
   Plus, 
-  X,
   Copy,
   Lightbulb,
-  Mail
+  Mail,
+  History,
+  AlertCircle,
+  AlertTriangle,
+  LayoutTemplate
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { insertEmailTemplateSchema } from "@shared/schema";
 import type { EmailTemplate, InsertEmailTemplate } from "@shared/schema";
+import { renderTemplate, formatTemplateDate, formatTemplateTime, type TemplateContext } from "@shared/templateEngine";
+import { lintTemplate, templateVariableCatalog, type TemplateDiagnostic, type TemplateField } from "@shared/templateVariables";
+import { createEmailDocument, renderEmailDocumentHtml, renderEmailDocumentText, type EmailDocument } from "@shared/emailBlocks";
 import { z } from "zod";
-import { useState } from "react";
+import { useState, useMemo } from "react";
 
 const templateFormSchema = insertEmailTemplateSchema.extend({
   variables: z.array(z.string()).optional(),
@@ -37,20 +45,73 @@ interface TemplateEditorProps {
   onSuccess: () => void;
 }
 
-const commonVariables = [
-  "attendeeName",
-  "attendeeEmail", 
-  "attendeeCompany",
-  "eventTitle",
-  "eventDescription", 
-  "eventDate",
-  "eventTime",
-  "eventLocation",
-  "timeUntil",
-  "resourceLinks",
-  "feedbackLink"
+// Inserted from the Variables tab; the syntax is documented in shared/templateEngine.ts
+const blockSnippets = [
+  { label: "If / else", snippet: "{{#if attendeeCompany}}Your team at {{attendeeCompany}}{{else}}You{{/if}}" },
+  { label: "Loop", snippet: "{{#each attendeeInterests}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}" },
+  { label: "Content list", snippet: "{{#each contentPreviews}}\n• {{title}}: {{url}}{{/each}}" },
+  { label: "Agenda", snippet: "{{#each agenda}}\n• {{startTime | time}} {{title}}{{#if speakers}} with {{speakers}}{{/if}}{{#if track}} ({{track}}){{/if}}{{/each}}" },
+  { label: "Speakers", snippet: "{{#each speakers}}\n• {{name}}{{#if title}}, {{title}}{{/if}}{{#if company}} at {{company}}{{/if}}{{/each}}" },
+  { label: "Default value", snippet: "{{attendeeCompany | default: \"your team\"}}" },
+  { label: "Date format", snippet: "{{eventStartDate | date: \"long\"}} at {{eventStartDate | time}}" },
 ];
 
+const sampleStartDate = new Date("2024-12-15T19:00:00Z");
+const sampleTimeZone = "America/New_York";
+
+// Sample values with the same shape the server builds for a real send
+const sampleContext: TemplateContext = {
+  attendeeName: "John Doe",
+  attendeeEmail: "john.doe@example.com",
+  attendeeCompany: "Acme Corp",
+  attendeeJobTitle: "Engineering Manager",
+  attendeeInterests: ["AI", "Cloud", "Security"],
+  eventTitle: "Tech Innovation Summit 2024",
+  eventDescription: "Join us for an exciting day of tech talks and networking",
+  eventDate: formatTemplateDate(sampleStartDate, "short", sampleTimeZone),
+  eventTime: formatTemplateTime(sampleStartDate, "short", sampleTimeZone),
+  eventStartDate: sampleStartDate,
+  eventEndDate: new Date("2024-12-15T23:00:00Z"),
+  eventTimezone: sampleTimeZone,
+  eventLocation: "Virtual Event",
+  timeUntil: "2 hours",
+  contentPreviews: [
+    { title: "Keynote slides", description: "The opening keynote deck", type: "slides", url: "https://example.com/slides", speaker: "Jane Smith" },
+    { title: "Full agenda", description: "Sessions and speakers", type: "agenda", url: "https://example.com/agenda", speaker: "" },
+  ],
+  agenda: [
+    {
+      title: "Opening keynote",
+      abstract: "Where the industry is heading next year",
+      startTime: sampleStartDate,
+      endTime: new Date("2024-12-15T20:00:00Z"),
+      track: "Main stage",
+      location: "Hall A",
+      speakers: "Jane Smith",
+    },
+    {
+      title: "Scaling AI in production",
+      abstract: "Lessons from a year of running models at scale",
+      startTime: new Date("2024-12-15T20:15:00Z"),
+      endTime: new Date("2024-12-15T21:00:00Z"),
+      track: "Engineering",
+      location: "Room 2",
+      speakers: "Sam Lee, Priya Patel",
+    },
+  ],
+  speakers: [
+    { name: "Jane Smith", title: "CTO", company: "Acme Corp", bio: "Jane leads engineering at Acme.", photoUrl: "", sessions: "Opening keynote" },
+    { name: "Sam Lee", title: "ML Engineer", company: "Initech", bio: "", photoUrl: "", sessions: "Scaling AI in production" },
+    { name: "Priya Patel", title: "Staff Engineer", company: "Globex", bio: "", photoUrl: "", sessions: "Scaling AI in production" },
+  ],
+  resourceLinks: "https://example.com/resources",
+  feedbackLink: "https://example.com/feedback",
+  manageRegistrationLink: "https://example.com/manage",
+  checkInQrCode: "https://example.com/check-in/qr.png",
+  checkInCode: "7KQM-4XRT",
+  unsubscribeLink: "https://example.com/unsubscribe",
+};
+
 const templateSuggestions = {
   welcome: {
     subject: "Welcome to {{eventTitle}}!",
@@ -152,14 +213,74 @@ Don't forget:
 
 We can't wait to see you there!
 
+Best regards,
+The EventBoost Team`
+  },
+  "registration-approved": {
+    subject: "You're approved for {{eventTitle}}",
+    content: `Hi {{attendeeName}},
+
+Good news: your registration for {{eventTitle}} has been approved!
+
+Event Details:
+📅 Date: {{eventDate}}
+🕐 Time: {{eventTime}}
+📍 Location: {{eventLocation}}
+
+Need to change your plans? Manage your registration here: {{manageRegistrationLink}}
+
+See you there!
+
+Best regards,
+The EventBoost Team`
+  },
+  "registration-rejected": {
+    subject: "Your registration for {{eventTitle}}",
+    content: `Hi {{attendeeName}},
+
+Thank you for your interest in {{eventTitle}}. Unfortunately we aren't able to confirm your registration this time.
+
+We hope to see you at a future event.
+
 Best regards,
 The EventBoost Team`
   }
 };
 
+function TemplateDiagnostics({ diagnostics, field }: { diagnostics: TemplateDiagnostic[]; field: TemplateField }) {
+  const fieldDiagnostics = diagnostics.filter(d => d.field === field);
+  if (fieldDiagnostics.length === 0) return null;
+
+  return (
+    <ul className="space-y-1" data-testid={`template-diagnostics-${field}`}>
+      {fieldDiagnostics.map((diagnostic, index) => (
+        <li
+          key={index}
+          className={`flex items-start space-x-2 text-sm ${diagnostic.severity === "error" ? "text-destructive" : "text-amber-600 dark:text-amber-400"}`}
+        >
+          {diagnostic.severity === "error"
+            ? <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+            : <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />}
+          <span>
+            {diagnostic.line !== undefined && field === "content" && `Line ${diagnostic.line}: `}
+            {diagnostic.message}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const warningSummary = (diagnostics?: TemplateDiagnostic[]) => {
+  const warnings = diagnostics?.filter(d => d.severity === "warning").length ?? 0;
+  return warnings > 0 ? ` ${warnings} unknown variable${warnings > 1 ? "s" : ""} will render as empty text.` : "";
+};
+
 export function TemplateEditor({ template, onSuccess }: TemplateEditorProps) {
   const [newVariable, setNewVariable] = useState("");
   const [activeTab, setActiveTab] = useState("edit");
+  // Block builder document; null while the content is edited as code
+  const [design, setDesign] = useState<EmailDocument | null>(template?.design ?? null);
   const { toast } = useToast();
 
   const createTemplateMutation = useMutation({
@@ -167,10 +288,10 @@ export function TemplateEditor({ template, onSuccess }: TemplateEditorProps) {
       const response = await apiRequest("POST", "/api/templates", data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { diagnostics?: TemplateDiagnostic[] }) => {
       toast({
         title: "Template created",
-        description: "Your email template has been successfully created.",
+        description: "Your email template has been successfully created." + warningSummary(data.diagnostics),
       });
       onSuccess();
     },
@@ -188,10 +309,10 @@ export function TemplateEditor({ template, onSuccess }: TemplateEditorProps) {
       const response = await apiRequest("PUT", `/api/templates/${template!.id}`, data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { diagnostics?: TemplateDiagnostic[] }) => {
       toast({
         title: "Template updated",
-        description: "Your email template has been successfully updated.",
+        description: "Your email template has been successfully updated." + warningSummary(data.diagnostics),
       });
       onSuccess();
     },
@@ -216,49 +337,58 @@ export function TemplateEditor({ template, onSuccess }: TemplateEditorProps) {
     },
   });
 
+  // Same checks the server runs on save, so problems show up while typing
+  const watchedSubject = form.watch("subject");
+  const watchedContent = form.watch("content");
+  const lint = useMemo(
+    () => lintTemplate({ subject: watchedSubject, content: watchedContent }),
+    [watchedSubject, watchedContent]
+  );
+  const hasErrors = lint.diagnostics.some(d => d.severity === "error");
+  const knownVariableNames = new Set(templateVariableCatalog.map(v => v.name));
+
   const onSubmit = (data: z.infer<typeof templateFormSchema>) => {
+    // The server stores the variables the template actually uses
+    const payload = { ...data, variables: lint.variables, design };
     if (template) {
-      updateTemplateMutation.mutate(data);
+      updateTemplateMutation.mutate(payload);
     } else {
-      createTemplateMutation.mutate(data);
-    }
-  };
-
-  const addVariable = (variable: string) => {
-    const currentVariables = form.getValues("variables") || [];
-    if (!currentVariables.includes(variable)) {
-      form.setValue("variables", [...currentVariables, variable]);
+      createTemplateMutation.mutate(payload);
     }
   };
 
   const addCustomVariable = () => {
     if (newVariable.trim()) {
-      addVariable(newVariable.trim());
+      insertVariable(newVariable.trim());
       setNewVariable("");
     }
   };
 
-  const removeVariable = (variableToRemove: string) => {
-    const currentVariables = form.getValues("variables") || [];
-    form.setValue("variables", currentVariables.filter(variable => variable !== variableToRemove));
+  // The content field always holds the HTML rendered from the design, so
+  // linting and the preview work the same way in both modes
+  const updateDesign = (document: EmailDocument) => {
+    setDesign(document);
+    form.setValue("content", renderEmailDocumentHtml(document));
   };
 
+  const switchToBlocks = () => {
+    if (form.getValues("content").trim() && !window.confirm("Start a block layout? The current content will be replaced.")) {
+      return;
+    }
+    updateDesign(createEmailDocument());
+  };
+
+  // The rendered HTML stays in the content field as a starting point
+  const switchToCode = () => setDesign(null);
+
   const applySuggestion = (type: keyof typeof templateSuggestions) => {
     const suggestion = templateSuggestions[type];
     if (suggestion) {
+      setDesign(null);
       form.setValue("subject", suggestion.subject);
       form.setValue("content", suggestion.content);
       form.setValue("type", type);
-      
-      // Extract and add variables from the suggestion
-      const content = suggestion.subject + " " + suggestion.content;
-      const variableMatches = content.match(/\{\{(\w+)\}\}/g);
-      if (variableMatches) {
-        const extractedVariables = variableMatches.map(match => match.slice(2, -2));
-        const uniqueVariables = [...new Set(extractedVariables)];
-        form.setValue("variables", uniqueVariables);
-      }
-      
+
       toast({
         title: "Template applied",
         description: `${type.charAt(0).toUpperCase() + type.slice(1)} template has been applied.`,
@@ -267,41 +397,48 @@ export function TemplateEditor({ template, onSuccess }: TemplateEditorProps) {
   };
 
   const insertVariable = (variable: string) => {
+    if (design) {
+      copyToClipboard(`{{${variable}}}`);
+      return;
+    }
     const currentContent = form.getValues("content");
     const newContent = currentContent + `{{${variable}}}`;
     form.setValue("content", newContent);
-    addVariable(variable);
   };
 
+  const insertSnippet = (snippet: string) => {
+    if (design) {
+      copyToClipboard(snippet);
+      return;
+    }
+    form.setValue("content", form.getValues("content") + snippet);
+  };
+
+  // Blocks are edited in the builder, so variables are copied for pasting into a block
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text).then(
+      () => toast({ title: "Copied", description: `${text} is on the clipboard. Paste it into a block.` }),
+      () => toast({ title: "Error", description: "Failed to copy to the clipboard", variant: "destructive" })
+    );
+  };
+
+  // Rendered by the same engine the server uses when sending
   const renderPreview = () => {
     const subject = form.watch("subject");
     const content = form.watch("content");
-    
-    // Replace variables with sample data for preview
-    const sampleData = {
-      attendeeName: "John Doe",
-      attendeeEmail: "john.doe@example.com",
-      attendeeCompany: "Acme Corp",
-      eventTitle: "Tech Innovation Summit 2024",
-      eventDescription: "Join us for an exciting day of tech talks and networking",
-      eventDate: "December 15, 2024",
-      eventTime: "2:00 PM EST",
-      eventLocation: "Virtual Event",
-      timeUntil: "2 hours",
-      resourceLinks: "https://example.com/resources",
-      feedbackLink: "https://example.com/feedback"
-    };
-
-    let previewSubject = subject;
-    let previewContent = content;
-
-    Object.entries(sampleData).forEach(([key, value]) => {
-      const regex = new RegExp(`\\{\\{${key}\\}\\}`, 'g');
-      previewSubject = previewSubject.replace(regex, value);
-      previewContent = previewContent.replace(regex, value);
-    });
-
-    return { subject: previewSubject, content: previewContent };
+
+    try {
+      return {
+        subject: renderTemplate(subject, sampleContext, { escapeHtml: false, timeZone: sampleTimeZone }),
+        content: renderTemplate(content, sampleContext, { timeZone: sampleTimeZone }),
+        text: design
+          ? renderTemplate(renderEmailDocumentText(design), sampleContext, { escapeHtml: false, timeZone: sampleTimeZone })
+          : null,
+        error: null,
+      };
+    } catch (error) {
+      return { subject, content: "", text: null, error: error instanceof Error ? error.message : String(error) };
+    }
   };
 
   const preview = renderPreview();
@@ -310,7 +447,7 @@ export function TemplateEditor({ template, onSuccess }: TemplateEditorProps) {
   return (
     <div className="h-[600px] overflow-hidden">
       <Tabs value={activeTab} onValueChange={setActiveTab} className="h-full flex flex-col">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className={`grid w-full ${template ? "grid-cols-4" : "grid-cols-3"}`}>
           <TabsTrigger value="edit" className="flex items-center space-x-2">
             <FileText className="w-4 h-4" />
             <span>Edit</span>
@@ -323,6 +460,12 @@ export function TemplateEditor({ template, onSuccess }: TemplateEditorProps) {
             <Eye className="w-4 h-4" />
             <span>Preview</span>
           </TabsTrigger>
+          {template && (
+            <TabsTrigger value="history" className="flex items-center space-x-2" data-testid="tab-template-history">
+              <History className="w-4 h-4" />
+              <span>History</span>
+            </TabsTrigger>
+          )}
         </TabsList>
 
         <div className="flex-1 overflow-y-auto">
@@ -389,6 +532,8 @@ export function TemplateEditor({ template, onSuccess }: TemplateEditorProps) {
                             <SelectItem value="thank-you">Thank You</SelectItem>
                             <SelectItem value="follow-up">Follow-up</SelectItem>
                             <SelectItem value="content-preview">Content Preview</SelectItem>
+                            <SelectItem value="registration-approved">Registration Approved</SelectItem>
+                            <SelectItem value="registration-rejected">Registration Declined</SelectItem>
                           </SelectContent>
                         </Select>
                         <FormMessage />
@@ -410,31 +555,67 @@ export function TemplateEditor({ template, onSuccess }: TemplateEditorProps) {
                         Use variables like {`{{attendeeName}}`} or {`{{eventTitle}}`} for personalization
                       </FormDescription>
                       <FormMessage />
+                      <TemplateDiagnostics diagnostics={lint.diagnostics} field="subject" />
                     </FormItem>
                   )}
                 />
 
-                <FormField
-                  control={form.control}
-                  name="content"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Email Content *</FormLabel>
-                      <FormControl>
-                        <Textarea 
-                          placeholder="Enter your email template content..." 
-                          className="min-h-[300px] font-mono" 
-                          {...field} 
-                          data-testid="input-template-content"
-                        />
-                      </FormControl>
-                      <FormDescription>
-                        Write your email template using variables for dynamic content
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                <div className="flex items-center justify-between">
+                  <FormLabel>Email Content *</FormLabel>
+                  <div className="flex rounded-lg border p-0.5">
+                    <Button
+                      type="button"
+                      variant={design ? "ghost" : "secondary"}
+                      size="sm"
+                      className="h-7"
+                      onClick={switchToCode}
+                      data-testid="content-mode-code"
+                    >
+                      <Code className="w-3 h-3 mr-1" />
+                      Code
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={design ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-7"
+                      onClick={() => !design && switchToBlocks()}
+                      data-testid="content-mode-blocks"
+                    >
+                      <LayoutTemplate className="w-3 h-3 mr-1" />
+                      Blocks
+                    </Button>
+                  </div>
+                </div>
+
+                {design ? (
+                  <div className="space-y-2">
+                    <EmailBuilder value={design} onChange={updateDesign} />
+                    <TemplateDiagnostics diagnostics={lint.diagnostics} field="content" />
+                  </div>
+                ) : (
+                  <FormField
+                    control={form.control}
+                    name="content"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Textarea 
+                            placeholder="Enter your email template content..." 
+                            className="min-h-[300px] font-mono" 
+                            {...field} 
+                            data-testid="input-template-content"
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Write your email template using variables for dynamic content
+                        </FormDescription>
+                        <FormMessage />
+                        <TemplateDiagnostics diagnostics={lint.diagnostics} field="content" />
+                      </FormItem>
+                    )}
+                  />
+                )}
 
                 <FormField
                   control={form.control}
@@ -470,24 +651,51 @@ export function TemplateEditor({ template, onSuccess }: TemplateEditorProps) {
                   </CardHeader>
                   <CardContent>
                     <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-                      {commonVariables.map((variable) => (
+                      {templateVariableCatalog.map(({ name, description }) => (
                         <Button
-                          key={variable}
+                          key={name}
                           type="button"
                           variant="outline"
                           size="sm"
-                          onClick={() => insertVariable(variable)}
+                          onClick={() => insertVariable(name)}
                           className="justify-start"
-                          data-testid={`add-variable-${variable}`}
+                          title={description}
+                          data-testid={`add-variable-${name}`}
                         >
                           <Plus className="w-3 h-3 mr-1" />
-                          {`{{${variable}}}`}
+                          {`{{${name}}}`}
                         </Button>
                       ))}
                     </div>
                   </CardContent>
                 </Card>
 
+                {/* Blocks and filters */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Blocks &amp; Filters</CardTitle>
+                    <FormDescription>
+                      Show content conditionally, loop over lists and format values
+                    </FormDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {blockSnippets.map(({ label, snippet }) => (
+                      <Button
+                        key={label}
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => insertSnippet(snippet)}
+                        className="w-full justify-start font-mono text-xs"
+                        data-testid={`add-snippet-${label.toLowerCase().replace(/\W+/g, "-")}`}
+                      >
+                        <Plus className="w-3 h-3 mr-1 shrink-0" />
+                        <span className="truncate">{snippet}</span>
+                      </Button>
+                    ))}
+                  </CardContent>
+                </Card>
+
                 {/* Custom Variables */}
                 <Card>
                   <CardHeader>
@@ -508,19 +716,17 @@ export function TemplateEditor({ template, onSuccess }: TemplateEditorProps) {
                     </div>
                     
                     <div className="space-y-2">
-                      <FormLabel>Active Variables in Template</FormLabel>
+                      <FormLabel>Variables Used in Template</FormLabel>
                       <div className="flex flex-wrap gap-2">
-                        {form.watch("variables")?.map((variable, index) => (
-                          <Badge key={index} variant="secondary" className="flex items-center space-x-1">
-                            <span>{`{{${variable}}}`}</span>
-                            <button
-                              type="button"
-                              onClick={() => removeVariable(variable)}
-                              className="ml-1 hover:text-destructive"
-                              data-testid={`remove-variable-${index}`}
-                            >
-                              <X className="w-3 h-3" />
-                            </button>
+                        {lint.variables.map((variable) => (
+                          <Badge
+                            key={variable}
+                            variant={knownVariableNames.has(variable) ? "secondary" : "outline"}
+                            className={knownVariableNames.has(variable) ? "" : "border-amber-500 text-amber-600 dark:text-amber-400"}
+                            title={knownVariableNames.has(variable) ? undefined : "Not a known variable; renders as empty text"}
+                            data-testid={`used-variable-${variable}`}
+                          >
+                            {`{{${variable}}}`}
                           </Badge>
                         ))}
                       </div>
@@ -548,11 +754,33 @@ export function TemplateEditor({ template, onSuccess }: TemplateEditorProps) {
                     
                     <div className="bg-muted p-4 rounded-lg">
                       <div className="text-sm text-muted-foreground mb-2">Content:</div>
-                      <div className="text-foreground whitespace-pre-wrap text-sm">
-                        {preview.content || "No content"}
-                      </div>
+                      {preview.error ? (
+                        <div className="text-destructive text-sm" data-testid="preview-error">
+                          Template error: {preview.error}
+                        </div>
+                      ) : preview.content ? (
+                        // Sandboxed so template markup can't run scripts in the app
+                        <iframe
+                          title="Template preview"
+                          srcDoc={design
+                            ? preview.content
+                            : `<body style="margin:0;font-family:sans-serif;font-size:14px;white-space:pre-wrap">${preview.content}</body>`}
+                          sandbox=""
+                          className="w-full h-80 rounded bg-white"
+                          data-testid="preview-content"
+                        />
+                      ) : (
+                        <div className="text-foreground text-sm">No content</div>
+                      )}
                     </div>
 
+                    {preview.text && (
+                      <div className="bg-muted p-4 rounded-lg">
+                        <div className="text-sm text-muted-foreground mb-2">Plain-text version:</div>
+                        <pre className="text-sm text-foreground whitespace-pre-wrap font-sans" data-testid="preview-text">{preview.text}</pre>
+                      </div>
+                    )}
+
                     {/* Preview Tips */}
                     <div className="bg-accent/10 border border-accent/20 rounded-lg p-4">
                       <div className="flex items-start space-x-2">
@@ -571,6 +799,20 @@ export function TemplateEditor({ template, onSuccess }: TemplateEditorProps) {
                 </Card>
               </TabsContent>
 
+              {template && (
+                <TabsContent value="history" className="mt-6">
+                  <TemplateHistory
+                    template={template}
+                    onRestored={(restored) => {
+                      form.setValue("subject", restored.subject);
+                      form.setValue("content", restored.content);
+                      form.setValue("variables", restored.variables ?? []);
+                      setDesign(restored.design ?? null);
+                    }}
+                  />
+                </TabsContent>
+              )}
+
               {/* Form Actions */}
               <div className="flex justify-end space-x-2 pt-6 border-t bg-background sticky bottom-0">
                 <Button 
@@ -583,7 +825,7 @@ export function TemplateEditor({ template, onSuccess }: TemplateEditorProps) {
                 </Button>
                 <Button 
                   type="submit" 
-                  disabled={isLoading}
+                  disabled={isLoading || hasErrors}
                   data-testid="submit-template"
                 >
                   {isLoading 
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { History, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { cn } from "@/lib/utils";
+import { diffLines, type DiffRow } from "@/lib/diff";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { EmailTemplate, EmailTemplateVersion } from "@shared/schema";
+
+interface TemplateHistoryProps {
+  template: EmailTemplate;
+  onRestored: (template: EmailTemplate) => void;
+}
+
+const rowColors: Record<DiffRow["type"], { left: string; right: string }> = {
+  unchanged: { left: "", right: "" },
+  removed: { left: "bg-destructive/10", right: "bg-muted/40" },
+  added: { left: "bg-muted/40", right: "bg-chart-4/10" },
+  changed: { left: "bg-destructive/10", right: "bg-chart-4/10" },
+};
+
+function SideBySideDiff({ before, after }: { before: string; after: string }) {
+  const rows = diffLines(before, after);
+
+  return (
+    <div className="rounded-lg border overflow-hidden font-mono text-xs">
+      {rows.map((row, index) => (
+        <div key={index} className="grid grid-cols-2 divide-x">
+          {(["left", "right"] as const).map((side) => (
+            <div key={side} className={cn("flex min-h-[1.5rem]", rowColors[row.type][side])}>
+              <span className="w-8 shrink-0 text-right pr-2 py-0.5 text-muted-foreground select-none">
+                {row[side]?.lineNumber}
+              </span>
+              <span className="py-0.5 pr-2 whitespace-pre-wrap break-all">{row[side]?.text}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function TemplateHistory({ template, onRestored }: TemplateHistoryProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const versionsKey = ["/api/templates", template.id, "versions"];
+
+  const { data: versions = [], isLoading } = useQuery<EmailTemplateVersion[]>({
+    queryKey: versionsKey,
+  });
+
+  // Refetched after a restore so the current version marker moves
+  const { data: currentTemplate = template } = useQuery<EmailTemplate>({
+    queryKey: ["/api/templates", template.id],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      const response = await apiRequest("POST", `/api/templates/${template.id}/versions/${versionId}/restore`);
+      return response.json() as Promise<EmailTemplate>;
+    },
+    onSuccess: (restored, versionId) => {
+      const version = versions.find(v => v.id === versionId);
+      queryClient.invalidateQueries({ queryKey: versionsKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      setSelectedId(null);
+      setCompareId(null);
+      toast({
+        title: "Template restored",
+        description: `Version ${version?.version} was saved as version ${restored.currentVersion}.`,
+      });
+      onRestored(restored);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore version",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="w-full h-64" />;
+  }
+
+  // Defaults: the newest version compared with the one before it
+  const selected = versions.find(v => v.id === selectedId) ?? versions[0];
+  const selectedIndex = versions.findIndex(v => v.id === selected?.id);
+  const compare = versions.find(v => v.id === compareId) ?? versions[selectedIndex + 1];
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <History className="w-5 h-5" />
+            <span>Versions</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <ul className="divide-y">
+            {versions.map((version) => (
+              <li key={version.id}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSelectedId(version.id);
+                    setCompareId(null);
+                  }}
+                  className={cn(
+                    "w-full text-left px-6 py-3 hover:bg-muted/50",
+                    selected?.id === version.id && "bg-muted"
+                  )}
+                  data-testid={`template-version-${version.version}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-foreground">Version {version.version}</span>
+                    {version.version === currentTemplate.currentVersion && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(version.createdAt!).toLocaleString()}
+                    {version.restoredFrom !== null && ` · restored from v${version.restoredFrom}`}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      <div className="md:col-span-2 space-y-4">
+        {selected && (
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center space-x-2 text-sm">
+              <span className="text-muted-foreground">Compare</span>
+              <Select
+                value={compare?.id ?? ""}
+                onValueChange={setCompareId}
+              >
+                <SelectTrigger className="w-36" data-testid="select-compare-version">
+                  <SelectValue placeholder="Version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.filter(v => v.id !== selected.id).map((version) => (
+                    <SelectItem key={version.id} value={version.id}>Version {version.version}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-muted-foreground">with version {selected.version}</span>
+            </div>
+            {selected.version !== currentTemplate.currentVersion && (
+              <Button
+                type="button"
+                size="sm"
+                onClick={() => restoreMutation.mutate(selected.id)}
+                disabled={!can("templates:write") || restoreMutation.isPending}
+                data-testid="restore-template-version"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Restore version {selected.version}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {selected && compare ? (
+          <>
+            <div>
+              <div className="text-sm text-muted-foreground mb-2">Subject</div>
+              <SideBySideDiff before={compare.subject} after={selected.subject} />
+            </div>
+            <div>
+              <div className="text-sm text-muted-foreground mb-2">Content</div>
+              <SideBySideDiff before={compare.content} after={selected.content} />
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-12">
+            This template has a single version. Saved changes will appear here.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
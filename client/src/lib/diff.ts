@@ -0,0 +1,61 @@
+// Line diff laid out for a side-by-side view: unchanged lines share a row,
+// removed lines only have a left side and added lines only a right side.
+
+export type DiffSide = {
+  lineNumber: number;
+  text: string;
+};
+
+export type DiffRow = {
+  type: "unchanged" | "removed" | "added" | "changed";
+  left?: DiffSide;
+  right?: DiffSide;
+};
+
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: DiffSide[] = [];
+  let added: DiffSide[] = [];
+
+  // Pair up a run of removals with the additions that replaced them
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({ type: left && right ? "changed" : left ? "removed" : "added", left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ type: "unchanged", left: { lineNumber: i + 1, text: a[i] }, right: { lineNumber: j + 1, text: b[j] } });
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push({ lineNumber: j + 1, text: b[j] });
+      j++;
+    } else {
+      removed.push({ lineNumber: i + 1, text: a[i] });
+      i++;
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -0,0 +1,8 @@
+import type { EmailFrequency } from "@shared/schema";
+
+// Shown wherever attendees pick how often they hear from us
+export const frequencyOptions: { value: EmailFrequency; label: string; description: string }[] = [
+  { value: "daily", label: "Everything", description: "Reminders, follow-ups and event announcements" },
+  { value: "weekly", label: "Weekly", description: "At most one announcement a week, plus reminders" },
+  { value: "minimal", label: "Essentials only", description: "Only reminders for events you registered for" },
+];
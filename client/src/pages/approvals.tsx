@@ -0,0 +1,151 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Check, UserCheck, X } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatRegistrationAnswer } from "@shared/registrationFields";
+import type { Event, PendingRegistration, RegistrationResult } from "@shared/schema";
+
+type Decision = "approve" | "reject";
+
+export default function Approvals() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const { data: pending = [], isLoading } = useQuery<PendingRegistration[]>({
+    queryKey: ["/api/registrations/pending"],
+  });
+
+  // For the labels of each event's registration questions
+  const { data: events = [] } = useQuery<Event[]>({
+    queryKey: ["/api/events"],
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ registration, decision }: { registration: PendingRegistration; decision: Decision }) => {
+      const response = await apiRequest("POST", `/api/registrations/${registration.id}/${decision}`);
+      return response.json() as Promise<RegistrationResult>;
+    },
+    onSuccess: (result, { registration, decision }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/registrations/pending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", registration.eventId, "registrations"] });
+      toast({
+        title: decision === "approve" ? "Registration approved" : "Registration declined",
+        description: decision === "reject"
+          ? `${registration.attendeeName} has been emailed that they weren't approved.`
+          : result.status === "waitlisted"
+            ? `${registration.eventTitle} is full, so ${registration.attendeeName} joined the waitlist at number ${result.waitlistPosition}.`
+            : `${registration.attendeeName} has been registered and emailed a confirmation.`,
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/registrations/pending"] });
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update registration",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="w-48 h-8" />
+        <Skeleton className="w-full h-32" />
+        <Skeleton className="w-full h-32" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-heading font-bold text-foreground">Approvals</h1>
+        <p className="text-muted-foreground">
+          {pending.length} registrations waiting for a decision
+        </p>
+      </div>
+
+      {pending.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="w-24 h-24 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
+            <UserCheck className="w-12 h-12 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-semibold text-foreground mb-2">All caught up</h3>
+          <p className="text-muted-foreground">
+            Registrations for events that require approval will wait here until you approve or decline them.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {pending.map((registration) => {
+            const fields = events.find(e => e.id === registration.eventId)?.registrationFields ?? [];
+            const answered = fields.filter(field => registration.answers?.[field.id] !== undefined);
+            const isDeciding = decideMutation.isPending && decideMutation.variables?.registration.id === registration.id;
+
+            return (
+              <Card key={registration.id} data-testid={`pending-registration-${registration.id}`}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+                  <div className="space-y-1">
+                    <CardTitle className="text-lg">{registration.attendeeName}</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {registration.attendeeEmail}
+                      {registration.attendeeCompany && ` · ${registration.attendeeCompany}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => decideMutation.mutate({ registration, decision: "reject" })}
+                      disabled={!can("registrations:approve") || isDeciding}
+                      data-testid={`reject-registration-${registration.id}`}
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Decline
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => decideMutation.mutate({ registration, decision: "approve" })}
+                      disabled={!can("registrations:approve") || isDeciding}
+                      data-testid={`approve-registration-${registration.id}`}
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Approve
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                    <Badge variant="secondary">{registration.eventTitle}</Badge>
+                    <span>{format(new Date(registration.eventStartDate), "MMM dd, yyyy")}</span>
+                    {registration.registrationDate && (
+                      <span>· requested {format(new Date(registration.registrationDate), "MMM dd, h:mm a")}</span>
+                    )}
+                  </div>
+                  {answered.length > 0 && (
+                    <dl className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                      {answered.map(field => (
+                        <div key={field.id}>
+                          <dt className="text-muted-foreground">{field.label}</dt>
+                          <dd className="font-medium">{formatRegistrationAnswer(field, registration.answers?.[field.id])}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
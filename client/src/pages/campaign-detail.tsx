@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, Filter, Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  emailSendStatuses,
+  type EmailCampaign,
+  type EmailSendStatus,
+  type EmailTemplateVersion,
+  type CampaignDelivery,
+} from "@shared/schema";
+
+const getDeliveryStatusColor = (status: EmailSendStatus) => {
+  switch (status) {
+    case "delivered": return "bg-chart-4 text-white";
+    case "sent": return "bg-accent text-accent-foreground";
+    case "queued": return "bg-muted text-muted-foreground";
+    case "bounced": return "bg-destructive text-destructive-foreground";
+    case "failed": return "bg-destructive text-destructive-foreground";
+  }
+};
+
+const formatTime = (value: Date | string | null) =>
+  value ? new Date(value).toLocaleString() : "—";
+
+export default function CampaignDetail({ params }: { params: { id: string } }) {
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+
+  const { data: campaign, isLoading } = useQuery<EmailCampaign>({
+    queryKey: ["/api/campaigns", params.id],
+  });
+
+  const { data: deliveries = [], isLoading: deliveriesLoading } = useQuery<CampaignDelivery[]>({
+    queryKey: ["/api/campaigns", params.id, "deliveries"],
+    // Keep polling while the queue is still working through recipients
+    refetchInterval: campaign?.status === "sending" ? 5000 : false,
+  });
+
+  const { data: templateVersion } = useQuery<EmailTemplateVersion>({
+    queryKey: ["/api/template-versions", campaign?.templateVersionId],
+    enabled: !!campaign?.templateVersionId,
+  });
+
+  if (isLoading || deliveriesLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="w-64 h-8" />
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <Skeleton key={i} className="w-full h-20" />
+          ))}
+        </div>
+        <Skeleton className="w-full h-64" />
+      </div>
+    );
+  }
+
+  if (!campaign) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-semibold text-foreground mb-2">Campaign not found</h3>
+        <Link href="/campaigns">
+          <Button variant="outline">Back to campaigns</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const counts = emailSendStatuses.map(status => ({
+    status,
+    count: deliveries.filter(delivery => delivery.status === status).length,
+  }));
+
+  const filteredDeliveries = deliveries.filter(
+    delivery => statusFilter === "all" || delivery.status === statusFilter
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <Link href="/campaigns">
+            <Button variant="ghost" size="sm" data-testid="back-to-campaigns">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-heading font-bold text-foreground">{campaign.name}</h1>
+            <p className="text-muted-foreground">{campaign.subject}</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          {templateVersion && (
+            <Badge variant="secondary" data-testid="campaign-template-version">
+              Template v{templateVersion.version}
+            </Badge>
+          )}
+          <Badge variant="outline" className="capitalize">{campaign.status}</Badge>
+        </div>
+      </div>
+
+      {/* Status counts */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {counts.map(({ status, count }) => (
+          <Card key={status} data-testid={`delivery-count-${status}`}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground capitalize">{status}</p>
+              <p className="text-2xl font-bold text-foreground">{count}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Deliveries */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg">Recipients</CardTitle>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-48" data-testid="delivery-status-filter">
+                <Filter className="w-4 h-4 mr-2" />
+                <SelectValue placeholder="Filter by status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Status</SelectItem>
+                {emailSendStatuses.map(status => (
+                  <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredDeliveries.length === 0 ? (
+            <div className="text-center py-12">
+              <Mail className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+              <p className="text-muted-foreground">
+                {deliveries.length === 0 ? "No emails have been queued for this campaign yet" : "No recipients match this status"}
+              </p>
+            </div>
+          ) : (
+            <div className="rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Recipient</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Message ID</TableHead>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>Delivered</TableHead>
+                    <TableHead>Opened</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredDeliveries.map((delivery) => (
+                    <TableRow key={delivery.id} data-testid={`delivery-row-${delivery.id}`}>
+                      <TableCell>
+                        <div className="font-medium text-foreground">{delivery.attendeeName}</div>
+                        <div className="text-sm text-muted-foreground">{delivery.attendeeEmail}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getDeliveryStatusColor(delivery.status)}>
+                          {delivery.status}
+                        </Badge>
+                        {delivery.errorCode && (
+                          <div className="text-xs text-destructive mt-1" title={delivery.errorMessage ?? undefined}>
+                            {delivery.errorCode}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs text-muted-foreground">
+                        {delivery.providerMessageId ?? "—"}
+                      </TableCell>
+                      <TableCell className="text-sm">{formatTime(delivery.sentAt)}</TableCell>
+                      <TableCell className="text-sm">{formatTime(delivery.deliveredAt)}</TableCell>
+                      <TableCell className="text-sm">{formatTime(delivery.openedAt)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Plus, Search, Filter, Send, Calendar, Mail } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,6 +12,7 @@ import { CampaignForm } from "@/components/campaigns/campaign-form";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
 import type { EmailCampaign } from "@shared/schema";
 
 export default function Campaigns() {
@@ -18,6 +20,7 @@ export default function Campaigns() {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const { data: campaigns, isLoading } = useQuery<EmailCampaign[]>({
     queryKey: ["/api/campaigns"],
@@ -31,8 +34,8 @@ export default function Campaigns() {
     onSuccess: (data, campaignId) => {
       queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
       toast({
-        title: "Campaign sent",
-        description: `Successfully sent to ${data.sent} recipients`,
+        title: "Campaign queued",
+        description: `Sending to ${data.queued} recipients`,
       });
     },
     onError: (error: Error) => {
@@ -69,6 +72,11 @@ export default function Campaigns() {
       case "follow-up": return "💌";
       case "content-preview": return "📄";
       case "thank-you": return "💝";
+      case "event-update": return "📢";
+      case "waitlist-promotion": return "🎟️";
+      case "registration-approved": return "✅";
+      case "registration-waitlisted": return "⏳";
+      case "registration-rejected": return "✉️";
       default: return "📧";
     }
   };
@@ -106,7 +114,7 @@ export default function Campaigns() {
         
         <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
           <DialogTrigger asChild>
-            <Button className="flex items-center space-x-2" data-testid="create-campaign-button">
+            <Button className="flex items-center space-x-2" disabled={!can("campaigns:write")} data-testid="create-campaign-button">
               <Plus className="w-4 h-4" />
               <span>New Campaign</span>
             </Button>
@@ -222,7 +230,7 @@ export default function Campaigns() {
                   </div>
                   
                   <div className="flex items-center space-x-2 pt-2">
-                    {campaign.status === "draft" && (
+                    {campaign.status === "draft" && can("campaigns:send") && (
                       <Button 
                         size="sm" 
                         variant="outline"
@@ -242,6 +250,12 @@ export default function Campaigns() {
                       </Button>
                     )}
                     
+                    <Link href={`/campaigns/${campaign.id}`}>
+                      <Button size="sm" variant="ghost" data-testid={`view-campaign-${campaign.id}`}>
+                        Deliveries
+                      </Button>
+                    </Link>
+
                     <Button size="sm" variant="ghost" data-testid={`edit-campaign-${campaign.id}`}>
                       Edit
                     </Button>
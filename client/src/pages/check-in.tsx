@@ -0,0 +1,301 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Camera, CameraOff, CheckCircle2, LogIn, LogOut, ScanLine, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { CheckInCounts, CheckInResult, Event } from "@shared/schema";
+
+type Direction = "check-in" | "check-out";
+
+type ScanOutcome =
+  | { ok: true; direction: Direction; result: CheckInResult }
+  | { ok: false; message: string };
+
+// Not in TypeScript's DOM types yet; Chromium-based browsers and Safari have it
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+};
+
+const BarcodeDetector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+// A second look at the same code within this window is the same scan
+const RESCAN_DELAY_MS = 3000;
+
+// apiRequest errors read "409: {"message":"..."}"
+function errorMessage(error: Error) {
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    return (JSON.parse(body) as { message?: string }).message ?? body;
+  } catch {
+    return body;
+  }
+}
+
+// The event the door is most likely for: the earliest one that hasn't finished
+function defaultEvent(events: Event[]) {
+  const now = Date.now();
+  return events.find(event => new Date(event.endDate ?? event.startDate).getTime() + 12 * 60 * 60 * 1000 > now)
+    ?? events[events.length - 1];
+}
+
+function QrScanner({ onCode }: { onCode: (code: string) => void }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const onCodeRef = useRef(onCode);
+  onCodeRef.current = onCode;
+
+  useEffect(() => {
+    let stream: MediaStream | undefined;
+    let timer: number | undefined;
+    let cancelled = false;
+    let last = { code: "", at: 0 };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (media) => {
+        stream = media;
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = media;
+        await videoRef.current.play();
+
+        const detector = new BarcodeDetector!({ formats: ["qr_code"] });
+        timer = window.setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) return;
+          const [barcode] = await detector.detect(videoRef.current).catch(() => []);
+          if (!barcode) return;
+          if (barcode.rawValue === last.code && Date.now() - last.at < RESCAN_DELAY_MS) return;
+          last = { code: barcode.rawValue, at: Date.now() };
+          onCodeRef.current(barcode.rawValue);
+        }, 300);
+      })
+      .catch(() => setCameraError("The camera isn't available. Allow camera access or type the code instead."));
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  if (cameraError) {
+    return <p className="text-sm text-destructive" data-testid="camera-error">{cameraError}</p>;
+  }
+
+  return (
+    <div className="relative overflow-hidden rounded-lg bg-black aspect-square max-h-80 mx-auto">
+      <video ref={videoRef} className="w-full h-full object-cover" muted playsInline data-testid="check-in-camera" />
+      <ScanLine className="absolute inset-0 m-auto w-2/3 h-2/3 text-white/60" />
+    </div>
+  );
+}
+
+export default function CheckIn() {
+  const { can } = useAuth();
+  const [selectedEventId, setSelectedEventId] = useState<string>();
+  const [direction, setDirection] = useState<Direction>("check-in");
+  const [code, setCode] = useState("");
+  const [scanning, setScanning] = useState(false);
+  const [outcome, setOutcome] = useState<ScanOutcome | null>(null);
+  const codeInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: events = [] } = useQuery<Event[]>({
+    queryKey: ["/api/events"],
+  });
+
+  const doorEvents = events
+    .filter(event => event.status === "published" || event.status === "live")
+    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+  const eventId = selectedEventId ?? defaultEvent(doorEvents)?.id;
+
+  // Other kiosks at the same door check people in too
+  const { data: counts } = useQuery<CheckInCounts>({
+    queryKey: ["/api/events", eventId, "check-in"],
+    enabled: !!eventId,
+    refetchInterval: 5000,
+  });
+
+  const scanMutation = useMutation({
+    mutationFn: async ({ code, direction }: { code: string; direction: Direction }) => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/${direction}`, { code });
+      return response.json() as Promise<CheckInResult>;
+    },
+    onSuccess: (result, { direction }) => {
+      setOutcome({ ok: true, direction, result });
+      setCode("");
+      queryClient.setQueryData(["/api/events", eventId, "check-in"], result.counts);
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "registrations"] });
+    },
+    onError: (error: Error) => {
+      setOutcome({ ok: false, message: errorMessage(error) || `Failed to ${direction.replace("-", " ")}` });
+    },
+    onSettled: () => codeInputRef.current?.focus(),
+  });
+
+  const submit = (value: string) => {
+    if (!eventId || !value.trim() || scanMutation.isPending) return;
+    scanMutation.mutate({ code: value.trim(), direction });
+  };
+
+  const selectEvent = (id: string) => {
+    setSelectedEventId(id);
+    setOutcome(null);
+  };
+
+  if (!can("attendees:checkin")) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-semibold text-foreground mb-2">Check-in isn't available</h3>
+        <p className="text-muted-foreground">Ask an administrator for permission to check attendees in.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-xl mx-auto space-y-4" data-testid="check-in-kiosk">
+      <Select value={eventId} onValueChange={selectEvent}>
+        <SelectTrigger className="h-12 text-base" data-testid="select-check-in-event">
+          <SelectValue placeholder="Choose an event" />
+        </SelectTrigger>
+        <SelectContent>
+          {doorEvents.map(event => (
+            <SelectItem key={event.id} value={event.id}>
+              {event.title} · {format(new Date(event.startDate), "MMM d, h:mm a")}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {eventId && (
+        <>
+          <div className="grid grid-cols-3 gap-2 text-center" data-testid="check-in-counts">
+            <Card>
+              <CardContent className="p-3">
+                <p className="text-3xl font-bold text-foreground" data-testid="count-checked-in">{counts?.checkedIn ?? "–"}</p>
+                <p className="text-xs text-muted-foreground">Here now</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-3">
+                <p className="text-3xl font-bold text-foreground" data-testid="count-attended">{counts?.attended ?? "–"}</p>
+                <p className="text-xs text-muted-foreground">Arrived</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-3">
+                <p className="text-3xl font-bold text-foreground" data-testid="count-registered">{counts?.registered ?? "–"}</p>
+                <p className="text-xs text-muted-foreground">Registered</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              size="lg"
+              variant={direction === "check-in" ? "default" : "outline"}
+              onClick={() => { setDirection("check-in"); setOutcome(null); }}
+              data-testid="mode-check-in"
+            >
+              <LogIn className="w-5 h-5 mr-2" />
+              Arrivals
+            </Button>
+            <Button
+              size="lg"
+              variant={direction === "check-out" ? "default" : "outline"}
+              onClick={() => { setDirection("check-out"); setOutcome(null); }}
+              data-testid="mode-check-out"
+            >
+              <LogOut className="w-5 h-5 mr-2" />
+              Departures
+            </Button>
+          </div>
+
+          {BarcodeDetector && (
+            scanning ? (
+              <div className="space-y-2">
+                <QrScanner onCode={submit} />
+                <Button variant="outline" className="w-full" onClick={() => setScanning(false)} data-testid="stop-scanning">
+                  <CameraOff className="w-4 h-4 mr-2" />
+                  Stop camera
+                </Button>
+              </div>
+            ) : (
+              <Button variant="outline" size="lg" className="w-full" onClick={() => setScanning(true)} data-testid="start-scanning">
+                <Camera className="w-5 h-5 mr-2" />
+                Scan QR code
+              </Button>
+            )
+          )}
+
+          <form
+            className="flex space-x-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submit(code);
+            }}
+          >
+            <Input
+              ref={codeInputRef}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Check-in code, e.g. 7KQM-4XRT"
+              className="h-12 text-lg font-mono uppercase"
+              autoCapitalize="characters"
+              autoComplete="off"
+              autoFocus
+              data-testid="input-check-in-code"
+            />
+            <Button type="submit" size="lg" className="h-12" disabled={!code.trim() || scanMutation.isPending} data-testid="submit-check-in-code">
+              {direction === "check-in" ? "Check in" : "Check out"}
+            </Button>
+          </form>
+
+          {outcome && (
+            <div
+              className={cn(
+                "rounded-lg border p-4 flex items-start space-x-3",
+                !outcome.ok
+                  ? "border-destructive bg-destructive/10"
+                  : outcome.result.unchanged
+                    ? "border-amber-500 bg-amber-500/10"
+                    : "border-green-600 bg-green-600/10"
+              )}
+              data-testid="check-in-outcome"
+            >
+              {outcome.ok
+                ? <CheckCircle2 className="w-6 h-6 shrink-0 text-green-600" />
+                : <XCircle className="w-6 h-6 shrink-0 text-destructive" />}
+              {outcome.ok ? (
+                <div>
+                  <p className="text-lg font-semibold text-foreground">{outcome.result.attendeeName}</p>
+                  <p className="text-sm text-muted-foreground">{outcome.result.attendeeEmail}</p>
+                  <p className="text-sm mt-1">
+                    {outcome.direction === "check-in"
+                      ? outcome.result.unchanged
+                        ? `Already checked in at ${format(new Date(outcome.result.registration.checkedInAt!), "h:mm a")}`
+                        : "Checked in"
+                      : outcome.result.unchanged
+                        ? `Already checked out at ${format(new Date(outcome.result.registration.checkedOutAt!), "h:mm a")}`
+                        : `Checked out after ${outcome.result.registration.attendanceTime ?? 0} minutes in total`}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-foreground">{outcome.message}</p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      {doorEvents.length === 0 && (
+        <p className="text-center text-muted-foreground py-12">
+          There are no published events to check attendees in to.
+        </p>
+      )}
+    </div>
+  );
+}
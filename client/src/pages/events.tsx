@@ -10,6 +10,7 @@ import { EventForm } from "@/components/events/event-form";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
 import type { Event } from "@shared/schema";
 
 export default function Events() {
@@ -17,6 +18,7 @@ export default function Events() {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const { data: events, isLoading } = useQuery<Event[]>({
     queryKey: ["/api/events"],
@@ -28,9 +30,10 @@ export default function Events() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/series"] });
       toast({
         title: "Event deleted",
-        description: "The event has been successfully deleted.",
+        description: "The event has been deleted. Its registrations and email history are kept.",
       });
     },
     onError: (error: Error) => {
@@ -82,7 +85,7 @@ export default function Events() {
         
         <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
           <DialogTrigger asChild>
-            <Button className="flex items-center space-x-2" data-testid="create-event-button">
+            <Button className="flex items-center space-x-2" disabled={!can("events:write")} data-testid="create-event-button">
               <Plus className="w-4 h-4" />
               <span>New Event</span>
             </Button>
@@ -145,7 +148,7 @@ export default function Events() {
               : "Get started by creating your first event"
             }
           </p>
-          {!searchTerm && statusFilter === "all" && (
+          {!searchTerm && statusFilter === "all" && can("events:write") && (
             <Button onClick={() => setIsCreateOpen(true)} data-testid="create-first-event">
               <Plus className="w-4 h-4 mr-2" />
               Create Your First Event
@@ -0,0 +1,419 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { z } from "zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Calendar, CalendarPlus, Clock, MapPin, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { frequencyOptions } from "@/lib/emailPreferences";
+import { insertAttendeeSchema } from "@shared/schema";
+import type { AgendaSession, EmailFrequency, EventAgenda, RegistrationStatus } from "@shared/schema";
+import { AgendaView } from "@/components/events/agenda-view";
+
+type ManagedRegistration = {
+  status: RegistrationStatus;
+  waitlistPosition: number | null;
+  event: {
+    title: string;
+    description: string | null;
+    startDate: string;
+    endDate: string | null;
+    timezone: string | null;
+    location: string | null;
+    status: string | null;
+  };
+  attendee: {
+    name: string;
+    email: string;
+    company: string | null;
+    jobTitle: string | null;
+    interests: string[];
+  };
+  emailFrequency: EmailFrequency;
+};
+
+const profileSchema = insertAttendeeSchema.pick({
+  name: true,
+  company: true,
+  jobTitle: true,
+  interests: true,
+});
+
+type ProfileValues = z.infer<typeof profileSchema>;
+
+export default function ManageRegistration({ params }: { params: { token: string } }) {
+  const { toast } = useToast();
+  const manageUrl = `/api/manage/${params.token}`;
+
+  const { data: managed, isLoading, error } = useQuery<ManagedRegistration>({
+    queryKey: [manageUrl],
+  });
+
+  const { data: agenda } = useQuery<EventAgenda & { bookmarkedSessionIds: string[] }>({
+    queryKey: [`${manageUrl}/agenda`],
+    enabled: !!managed,
+  });
+
+  const form = useForm<ProfileValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: { name: "", company: "", jobTitle: "", interests: [] },
+  });
+
+  // Fill the form once the registration has loaded
+  useEffect(() => {
+    if (managed) {
+      form.reset({
+        name: managed.attendee.name,
+        company: managed.attendee.company ?? "",
+        jobTitle: managed.attendee.jobTitle ?? "",
+        interests: managed.attendee.interests,
+      });
+    }
+  }, [managed, form]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Something went wrong",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `${manageUrl}/cancel`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [manageUrl] });
+      toast({
+        title: "Registration cancelled",
+        description: "Thanks for letting us know. Your spot has been released.",
+      });
+    },
+    onError,
+  });
+
+  const profileMutation = useMutation({
+    mutationFn: async (data: ProfileValues) => {
+      const res = await apiRequest("PUT", `${manageUrl}/profile`, data);
+      return await res.json();
+    },
+    onSuccess: (attendee: ManagedRegistration["attendee"]) => {
+      queryClient.setQueryData<ManagedRegistration>([manageUrl], (current) =>
+        current ? { ...current, attendee } : current
+      );
+      toast({
+        title: "Profile saved",
+        description: "Your details have been updated",
+      });
+    },
+    onError,
+  });
+
+  const frequencyMutation = useMutation({
+    mutationFn: async (emailFrequency: EmailFrequency) => {
+      const res = await apiRequest("PUT", `${manageUrl}/preferences`, { emailFrequency });
+      return await res.json();
+    },
+    onSuccess: ({ emailFrequency }: { emailFrequency: EmailFrequency }) => {
+      queryClient.setQueryData<ManagedRegistration>([manageUrl], (current) =>
+        current ? { ...current, emailFrequency } : current
+      );
+      toast({
+        title: "Preferences saved",
+        description: "We'll use your new email frequency from now on",
+      });
+    },
+    onError,
+  });
+
+  const bookmarkMutation = useMutation({
+    mutationFn: async ({ session, bookmarked }: { session: AgendaSession; bookmarked: boolean }) => {
+      const res = await apiRequest(bookmarked ? "PUT" : "DELETE", `${manageUrl}/bookmarks/${session.id}`);
+      return await res.json() as { sessionId: string; bookmarked: boolean };
+    },
+    onSuccess: ({ sessionId, bookmarked }) => {
+      queryClient.setQueryData<EventAgenda & { bookmarkedSessionIds: string[] }>([`${manageUrl}/agenda`], (current) =>
+        current
+          ? {
+              ...current,
+              bookmarkedSessionIds: bookmarked
+                ? [...current.bookmarkedSessionIds, sessionId]
+                : current.bookmarkedSessionIds.filter(id => id !== sessionId),
+            }
+          : current
+      );
+    },
+    onError,
+  });
+
+  const getStatusSummary = (registration: ManagedRegistration) => {
+    if (registration.event.status === "cancelled") {
+      return { label: "Event cancelled", variant: "destructive" as const, text: "This event has been cancelled by the organizer." };
+    }
+    switch (registration.status) {
+      case "registered":
+        return { label: "Registered", variant: "default" as const, text: "You're registered. We look forward to seeing you there." };
+      case "waitlisted":
+        return {
+          label: "Waitlisted",
+          variant: "secondary" as const,
+          text: `You're number ${registration.waitlistPosition} on the waitlist. We'll email you as soon as a spot opens up.`,
+        };
+      case "pending":
+        return { label: "Awaiting approval", variant: "secondary" as const, text: "The organizer is reviewing your registration. We'll email you once they've decided." };
+      case "rejected":
+        return { label: "Declined", variant: "outline" as const, text: "The organizer wasn't able to confirm your registration for this event." };
+      case "cancelled":
+        return { label: "Cancelled", variant: "outline" as const, text: "You cancelled this registration." };
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-muted dark:from-background dark:via-background dark:to-card px-4 py-8">
+      <Card className="w-full max-w-2xl" data-testid="card-manage-registration">
+        {isLoading ? (
+          <CardContent className="py-16 flex justify-center">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          </CardContent>
+        ) : error || !managed ? (
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl font-heading">Link not valid</CardTitle>
+            <CardDescription>
+              This link is invalid or the registration no longer exists. Use the link from your most recent registration email.
+            </CardDescription>
+          </CardHeader>
+        ) : (
+          <>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <CardTitle className="text-2xl font-heading">{managed.event.title}</CardTitle>
+                <Badge variant={getStatusSummary(managed).variant} data-testid="badge-registration-status">
+                  {getStatusSummary(managed).label}
+                </Badge>
+              </div>
+              <CardDescription data-testid="text-registration-summary">
+                {getStatusSummary(managed).text}
+              </CardDescription>
+              <div className="space-y-2 pt-2">
+                <div className="flex items-center text-sm text-muted-foreground">
+                  <Calendar className="w-4 h-4 mr-2" />
+                  {format(new Date(managed.event.startDate), "EEEE, MMM dd, yyyy")}
+                </div>
+                <div className="flex items-center text-sm text-muted-foreground">
+                  <Clock className="w-4 h-4 mr-2" />
+                  {format(new Date(managed.event.startDate), "h:mm a")}
+                  {managed.event.endDate && ` – ${format(new Date(managed.event.endDate), "h:mm a")}`}
+                </div>
+                <div className="flex items-center text-sm text-muted-foreground">
+                  <MapPin className="w-4 h-4 mr-2" />
+                  {managed.event.location || "Virtual"}
+                </div>
+              </div>
+            </CardHeader>
+
+            <CardContent className="space-y-6">
+              {managed.status !== "cancelled" && managed.status !== "rejected" && managed.event.status !== "cancelled" && (
+                <div className="flex flex-col sm:flex-row gap-3">
+                  {managed.status === "registered" && (
+                    <Button asChild variant="outline" className="flex-1" data-testid="button-download-invite">
+                      <a href={`${manageUrl}/invite.ics`} download="invite.ics">
+                        <CalendarPlus className="w-4 h-4 mr-2" />
+                        Add to calendar
+                      </a>
+                    </Button>
+                  )}
+
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="destructive"
+                        className="flex-1"
+                        disabled={cancelMutation.isPending}
+                        data-testid="button-cancel-registration"
+                      >
+                        <XCircle className="w-4 h-4 mr-2" />
+                        {managed.status === "waitlisted" ? "Leave waitlist" : managed.status === "pending" ? "Withdraw request" : "Cancel registration"}
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Cancel your registration?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          {managed.status === "waitlisted"
+                            ? "You'll lose your place on the waitlist."
+                            : managed.status === "pending"
+                              ? "The organizer won't review your request."
+                              : "Your spot will be given to the next person on the waitlist."}
+                          {" "}You can register again later if there's still room.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Keep registration</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => cancelMutation.mutate()}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          Cancel registration
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              )}
+
+              {agenda && agenda.sessions.length > 0 && (
+                <>
+                  <Separator />
+                  <div className="space-y-4" data-testid="section-agenda">
+                    <div>
+                      <h3 className="font-semibold text-foreground">Agenda</h3>
+                      <p className="text-sm text-muted-foreground">Bookmark the sessions you plan to attend.</p>
+                    </div>
+                    <AgendaView
+                      agenda={agenda}
+                      bookmarkedSessionIds={agenda.bookmarkedSessionIds}
+                      onToggleBookmark={managed.status !== "cancelled" && managed.status !== "rejected"
+                        ? (session, bookmarked) => bookmarkMutation.mutate({ session, bookmarked })
+                        : undefined}
+                    />
+                  </div>
+                </>
+              )}
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div>
+                  <h3 className="font-semibold text-foreground">Your details</h3>
+                  <p className="text-sm text-muted-foreground">Registered as {managed.attendee.email}</p>
+                </div>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit((data) => profileMutation.mutate(data))} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Full Name *</FormLabel>
+                          <FormControl>
+                            <Input data-testid="input-name" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="company"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Company</FormLabel>
+                            <FormControl>
+                              <Input data-testid="input-company" {...field} value={field.value || ""} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="jobTitle"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Job Title</FormLabel>
+                            <FormControl>
+                              <Input data-testid="input-jobtitle" {...field} value={field.value || ""} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <FormField
+                      control={form.control}
+                      name="interests"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Interests (comma-separated)</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              placeholder="Technology, Marketing, AI"
+                              data-testid="input-interests"
+                              value={field.value?.join(", ") || ""}
+                              onChange={(e) => {
+                                const interests = e.target.value.split(",").map(i => i.trim()).filter(Boolean);
+                                field.onChange(interests);
+                              }}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="submit" disabled={profileMutation.isPending} data-testid="button-save-profile">
+                      {profileMutation.isPending ? "Saving..." : "Save details"}
+                    </Button>
+                  </form>
+                </Form>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div>
+                  <h3 className="font-semibold text-foreground">Email frequency</h3>
+                  <p className="text-sm text-muted-foreground">Choose how often we email you about events.</p>
+                </div>
+                <RadioGroup
+                  value={managed.emailFrequency}
+                  onValueChange={(value) => frequencyMutation.mutate(value as EmailFrequency)}
+                  disabled={frequencyMutation.isPending}
+                  className="space-y-3"
+                >
+                  {frequencyOptions.map((option) => (
+                    <div key={option.value} className="flex items-start space-x-3 rounded-lg border p-4">
+                      <RadioGroupItem
+                        value={option.value}
+                        id={`frequency-${option.value}`}
+                        data-testid={`radio-frequency-${option.value}`}
+                      />
+                      <Label htmlFor={`frequency-${option.value}`} className="space-y-1 cursor-pointer">
+                        <span className="block font-medium">{option.label}</span>
+                        <span className="block text-sm text-muted-foreground font-normal">{option.description}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
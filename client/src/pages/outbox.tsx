@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Inbox, Search, Trash2, Paperclip } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { cn } from "@/lib/utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CapturedEmail } from "@shared/schema";
+
+export default function Outbox() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const { data: messages = [], isLoading, error } = useQuery<CapturedEmail[]>({
+    queryKey: ["/api/dev/outbox"],
+    refetchInterval: 5000,
+    retry: false,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/dev/outbox");
+    },
+    onSuccess: () => {
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/dev/outbox"] });
+      toast({ title: "Outbox cleared" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to clear outbox",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const filteredMessages = messages.filter((message) =>
+    message.to.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    message.subject.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+  const selected = messages.find((message) => message.id === selectedId) ?? filteredMessages[0];
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="w-48 h-8" />
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Skeleton className="w-full h-96" />
+          <Skeleton className="w-full h-96 lg:col-span-2" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <div className="w-24 h-24 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
+          <Inbox className="w-12 h-12 text-muted-foreground" />
+        </div>
+        <h3 className="text-lg font-semibold text-foreground mb-2">Email capture is off</h3>
+        <p className="text-muted-foreground">
+          Set <code>EMAIL_PROVIDER=capture</code> on the server to collect outgoing emails here instead of delivering them.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-heading font-bold text-foreground">Outbox</h1>
+          <p className="text-muted-foreground">
+            {messages.length} captured emails, not delivered to anyone
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => clearMutation.mutate()}
+          disabled={!can("campaigns:send") || messages.length === 0 || clearMutation.isPending}
+          data-testid="clear-outbox"
+        >
+          <Trash2 className="w-4 h-4 mr-2" />
+          Clear
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Message list */}
+        <Card>
+          <CardHeader>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search recipient or subject..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+                data-testid="search-outbox"
+              />
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {filteredMessages.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-12">No captured emails</p>
+            ) : (
+              <ul className="divide-y max-h-[70vh] overflow-y-auto">
+                {filteredMessages.map((message) => (
+                  <li key={message.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(message.id)}
+                      className={cn(
+                        "w-full text-left px-6 py-3 hover:bg-muted/50",
+                        selected?.id === message.id && "bg-muted"
+                      )}
+                      data-testid={`outbox-message-${message.id}`}
+                    >
+                      <div className="text-sm font-medium text-foreground truncate">{message.subject}</div>
+                      <div className="text-xs text-muted-foreground truncate">{message.to}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(message.capturedAt).toLocaleString()}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Selected message */}
+        <Card className="lg:col-span-2">
+          {selected ? (
+            <>
+              <CardHeader>
+                <CardTitle className="text-lg">{selected.subject}</CardTitle>
+                <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+                  <dt className="text-muted-foreground">From</dt>
+                  <dd>{selected.from}</dd>
+                  <dt className="text-muted-foreground">To</dt>
+                  <dd>{selected.to}</dd>
+                  {Object.entries(selected.headers).map(([name, value]) => (
+                    <div key={name} className="contents">
+                      <dt className="text-muted-foreground">{name}</dt>
+                      <dd className="break-all font-mono text-xs">{value}</dd>
+                    </div>
+                  ))}
+                  {selected.attachments && selected.attachments.length > 0 && (
+                    <>
+                      <dt className="text-muted-foreground">Attachments</dt>
+                      <dd className="flex flex-wrap gap-3">
+                        {selected.attachments.map((attachment) => (
+                          <a
+                            key={attachment.filename}
+                            href={`data:${attachment.contentType.split(";")[0]};base64,${attachment.content}`}
+                            download={attachment.filename}
+                            className="inline-flex items-center text-primary hover:underline"
+                            data-testid={`outbox-attachment-${attachment.filename}`}
+                          >
+                            <Paperclip className="w-3 h-3 mr-1" />
+                            {attachment.filename}
+                          </a>
+                        ))}
+                      </dd>
+                    </>
+                  )}
+                </dl>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="html">
+                  <TabsList>
+                    <TabsTrigger value="html">HTML</TabsTrigger>
+                    <TabsTrigger value="text" disabled={!selected.text} data-testid="outbox-tab-text">Plain text</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="html">
+                    {/* Sandboxed so captured content can't run scripts in the app */}
+                    <iframe
+                      title="Email preview"
+                      srcDoc={selected.html}
+                      sandbox=""
+                      className="w-full h-[60vh] rounded-lg border bg-white"
+                      data-testid="outbox-preview"
+                    />
+                  </TabsContent>
+                  <TabsContent value="text">
+                    <pre
+                      className="h-[60vh] overflow-y-auto rounded-lg border bg-muted/30 p-4 text-sm whitespace-pre-wrap"
+                      data-testid="outbox-text"
+                    >
+                      {selected.text}
+                    </pre>
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </>
+          ) : (
+            <CardContent className="py-24 text-center text-muted-foreground">
+              Select an email to preview it
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
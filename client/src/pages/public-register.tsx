@@ -5,7 +5,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Calendar, Clock, MapPin, Users, Sparkles, CheckCircle2 } from "lucide-react";
+import { Calendar, Clock, Hourglass, MapPin, Users, Sparkles, CheckCircle2, Repeat, ListTree } from "lucide-react";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -13,19 +13,44 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import type { Event, InsertAttendee } from "@shared/schema";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import type { Event, EventAgenda, EventCapacity, InsertAttendee, RegistrationResult } from "@shared/schema";
 import { insertAttendeeSchema } from "@shared/schema";
+import type { RegistrationAnswers } from "@shared/registrationFields";
+import { RegistrationQuestions, validateRegistrationAnswers } from "@/components/events/registration-questions";
+import { AgendaView } from "@/components/events/agenda-view";
+
+// Public pages are opened per workspace via /register?workspace=<slug>, and
+// invite links add &invite=<token> for events that aren't listed publicly
+const searchParams = new URLSearchParams(window.location.search);
+const workspaceSlug = searchParams.get("workspace");
+const inviteToken = searchParams.get("invite");
+const workspaceQuery = workspaceSlug ? `?workspace=${encodeURIComponent(workspaceSlug)}` : "";
+
+// Operators previewing this page see the same events as visitors
+const eventsParams = new URLSearchParams({ audience: "public" });
+if (workspaceSlug) eventsParams.set("workspace", workspaceSlug);
+if (inviteToken) eventsParams.set("invite", inviteToken);
+const eventsQueryKey = `/api/events?${eventsParams.toString()}`;
+const agendaQueryKey = (eventId: string) => `/api/events/${eventId}/agenda?${eventsParams.toString()}`;
 
 export default function PublicRegister() {
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
+  const [agendaEvent, setAgendaEvent] = useState<Event | null>(null);
   const [registrationComplete, setRegistrationComplete] = useState(false);
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
+  const [awaitingApproval, setAwaitingApproval] = useState(false);
+  const [seriesRegistrationCount, setSeriesRegistrationCount] = useState<number | null>(null);
   const { toast } = useToast();
 
   const { data: events = [], isLoading } = useQuery<Event[]>({
-    queryKey: ["/api/events"],
+    queryKey: [eventsQueryKey],
   });
 
   const publishedEvents = events.filter(e => e.status === "published" || e.status === "live");
+  const countSeriesEvents = (event: Event | null) =>
+    event?.seriesId ? publishedEvents.filter(e => e.seriesId === event.seriesId).length : 0;
 
   const handleRegister = (event: Event) => {
     setSelectedEvent(event);
@@ -85,9 +110,17 @@ export default function PublicRegister() {
                     <Badge className={getStatusColor(event.status || "draft")}>
                       {event.status || "draft"}
                     </Badge>
-                    {event.tags && event.tags.length > 0 && (
-                      <Badge variant="outline">{event.tags[0]}</Badge>
-                    )}
+                    <div className="flex gap-2">
+                      {event.seriesId && countSeriesEvents(event) > 1 && (
+                        <Badge variant="outline" className="flex items-center space-x-1" data-testid={`badge-series-${event.id}`}>
+                          <Repeat className="w-3 h-3" />
+                          <span>Series</span>
+                        </Badge>
+                      )}
+                      {event.tags && event.tags.length > 0 && (
+                        <Badge variant="outline">{event.tags[0]}</Badge>
+                      )}
+                    </div>
                   </div>
                   <CardTitle className="text-xl">{event.title}</CardTitle>
                   <CardDescription className="line-clamp-2">{event.description || "No description available"}</CardDescription>
@@ -112,20 +145,18 @@ export default function PublicRegister() {
                         {event.location}
                       </div>
                     )}
-                    {event.maxAttendees && (
-                      <div className="flex items-center text-sm text-muted-foreground">
-                        <Users className="w-4 h-4 mr-2" />
-                        Capacity: {event.maxAttendees}
-                      </div>
-                    )}
                   </div>
-                  <Button 
-                    className="w-full gradient-primary" 
-                    onClick={() => handleRegister(event)}
-                    data-testid={`button-register-${event.id}`}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full mb-2"
+                    onClick={() => setAgendaEvent(event)}
+                    data-testid={`button-agenda-${event.id}`}
                   >
-                    Register Now
+                    <ListTree className="w-4 h-4 mr-2" />
+                    View agenda
                   </Button>
+                  <EventAvailability event={event} onRegister={() => handleRegister(event)} />
                 </CardContent>
               </Card>
             ))}
@@ -135,23 +166,37 @@ export default function PublicRegister() {
 
       <RegistrationDialog 
         event={selectedEvent}
+        seriesEventCount={countSeriesEvents(selectedEvent)}
         open={!!selectedEvent}
         onClose={() => setSelectedEvent(null)}
-        onSuccess={() => {
+        onSuccess={(registration, seriesCount) => {
           setSelectedEvent(null);
+          setWaitlistPosition(registration.waitlistPosition);
+          setAwaitingApproval(registration.status === "pending");
+          setSeriesRegistrationCount(seriesCount);
           setRegistrationComplete(true);
         }}
       />
 
+      <AgendaDialog event={agendaEvent} onClose={() => setAgendaEvent(null)} />
+
       <Dialog open={registrationComplete} onOpenChange={setRegistrationComplete}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
             <div className="mx-auto mb-4 w-12 h-12 rounded-full bg-green-100 dark:bg-green-900/20 flex items-center justify-center">
               <CheckCircle2 className="w-6 h-6 text-green-600 dark:text-green-400" />
             </div>
-            <DialogTitle className="text-center">Registration Successful!</DialogTitle>
-            <DialogDescription className="text-center">
-              You've been registered for the event. Check your email for confirmation and event details.
+            <DialogTitle className="text-center">
+              {awaitingApproval ? "Request Received" : waitlistPosition ? "You're on the Waitlist" : "Registration Successful!"}
+            </DialogTitle>
+            <DialogDescription className="text-center" data-testid="text-registration-result">
+              {awaitingApproval
+                ? "The organizer reviews registrations for this event. We'll email you as soon as they've decided."
+                : waitlistPosition
+                  ? `This event is full. You're number ${waitlistPosition} on the waitlist, and we'll email you as soon as a spot opens up.`
+                  : "You've been registered for the event. Check your email for confirmation and event details."}
+              {seriesRegistrationCount !== null &&
+                ` You're signed up for ${seriesRegistrationCount} event${seriesRegistrationCount === 1 ? "" : "s"} in this series, each with its own reminders.`}
             </DialogDescription>
           </DialogHeader>
           <Button onClick={() => setRegistrationComplete(false)} className="w-full">
@@ -163,18 +208,82 @@ export default function PublicRegister() {
   );
 }
 
+function AgendaDialog({ event, onClose }: { event: Event | null; onClose: () => void }) {
+  const { data: agenda, isLoading } = useQuery<EventAgenda>({
+    queryKey: [agendaQueryKey(event?.id ?? "")],
+    enabled: !!event,
+  });
+
+  return (
+    <Dialog open={!!event} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{event?.title} agenda</DialogTitle>
+          <DialogDescription>Sessions, tracks and speakers</DialogDescription>
+        </DialogHeader>
+        {isLoading || !agenda ? (
+          <div className="skeleton h-32" />
+        ) : (
+          <AgendaView agenda={agenda} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Seats left and the waitlist, read from the public capacity endpoint
+function EventAvailability({ event, onRegister }: { event: Event; onRegister: () => void }) {
+  const { data: capacity } = useQuery<EventCapacity>({
+    queryKey: [`/api/events/${event.id}/capacity${workspaceQuery}`],
+  });
+
+  const isFull = capacity?.spotsLeft === 0;
+
+  return (
+    <>
+      {capacity && capacity.capacity !== null && (
+        <div className="space-y-2 mb-4">
+          <div className="flex items-center text-sm text-muted-foreground" data-testid={`text-spots-left-${event.id}`}>
+            <Users className="w-4 h-4 mr-2" />
+            {isFull ? `Full (${capacity.capacity} spots)` : `${capacity.spotsLeft} of ${capacity.capacity} spots left`}
+          </div>
+          {capacity.waitlisted > 0 && (
+            <div className="flex items-center text-sm text-muted-foreground" data-testid={`text-waitlist-${event.id}`}>
+              <Hourglass className="w-4 h-4 mr-2" />
+              {capacity.waitlisted} on the waitlist
+            </div>
+          )}
+        </div>
+      )}
+      <Button 
+        className="w-full gradient-primary" 
+        onClick={onRegister}
+        data-testid={`button-register-${event.id}`}
+      >
+        {isFull ? "Join Waitlist" : event.registrationMode === "approval" ? "Request to Register" : "Register Now"}
+      </Button>
+    </>
+  );
+}
+
 function RegistrationDialog({ 
   event, 
+  seriesEventCount,
   open, 
   onClose,
   onSuccess 
 }: { 
   event: Event | null; 
+  seriesEventCount: number;
   open: boolean; 
   onClose: () => void;
-  onSuccess: () => void;
+  // Registering for a whole series also reports how many events it covered
+  onSuccess: (registration: RegistrationResult, seriesCount: number | null) => void;
 }) {
   const { toast } = useToast();
+  const [answers, setAnswers] = useState<RegistrationAnswers>({});
+  const [wholeSeries, setWholeSeries] = useState(false);
+  const [answerErrors, setAnswerErrors] = useState<Record<string, string>>({});
   
   const form = useForm<InsertAttendee>({
     resolver: zodResolver(insertAttendeeSchema),
@@ -188,15 +297,16 @@ function RegistrationDialog({
   });
 
   const createAttendeeMutation = useMutation({
-    mutationFn: async (data: InsertAttendee) => {
-      const res = await apiRequest("POST", "/api/attendees", data);
+    mutationFn: async ({ data }: { data: InsertAttendee; answers: RegistrationAnswers }) => {
+      const res = await apiRequest("POST", `/api/attendees${workspaceQuery}`, data);
       return await res.json();
     },
-    onSuccess: async (attendee) => {
+    onSuccess: async (attendee, { answers }) => {
       if (event) {
         await registerForEventMutation.mutateAsync({
-          eventId: event.id,
+          event,
           attendeeId: attendee.id,
+          answers,
         });
       }
     },
@@ -210,18 +320,31 @@ function RegistrationDialog({
   });
 
   const registerForEventMutation = useMutation({
-    mutationFn: async ({ eventId, attendeeId }: { eventId: string; attendeeId: string }) => {
-      const res = await apiRequest("POST", `/api/events/${eventId}/register`, { attendeeId });
-      return await res.json();
+    mutationFn: async ({ event, attendeeId, answers }: { event: Event; attendeeId: string; answers: RegistrationAnswers }) => {
+      const path = wholeSeries && event.seriesId ? `/api/series/${event.seriesId}/register` : `/api/events/${event.id}/register`;
+      const res = await apiRequest("POST", `${path}${workspaceQuery}`, { attendeeId, answers, inviteToken });
+      return await res.json() as RegistrationResult | RegistrationResult[];
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+    onSuccess: (result, { event }) => {
+      // Registering for a series returns one registration per event
+      const registrations = Array.isArray(result) ? result : [result];
+      const registration = registrations.find(r => r.eventId === event.id) ?? registrations[0];
+      queryClient.invalidateQueries({ queryKey: [eventsQueryKey] });
+      for (const { eventId } of registrations) {
+        queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/capacity${workspaceQuery}`] });
+      }
       toast({
         title: "Success!",
-        description: "You've been registered for the event",
+        description: registration.status === "pending"
+          ? "Your registration is awaiting approval"
+          : registration.waitlistPosition
+            ? "You've been added to the waitlist"
+            : "You've been registered for the event",
       });
       form.reset();
-      onSuccess();
+      setAnswers({});
+      setWholeSeries(false);
+      onSuccess(registration, Array.isArray(result) ? result.length : null);
     },
     onError: (error: Error) => {
       toast({
@@ -233,14 +356,18 @@ function RegistrationDialog({
   });
 
   const handleSubmit = (data: InsertAttendee) => {
-    createAttendeeMutation.mutate(data);
+    const { answers: validAnswers, errors } = validateRegistrationAnswers(event?.registrationFields ?? [], answers);
+    setAnswerErrors(errors);
+    if (validAnswers) {
+      createAttendeeMutation.mutate({ data, answers: validAnswers });
+    }
   };
 
   const isPending = createAttendeeMutation.isPending || registerForEventMutation.isPending;
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-lg">
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Register for {event?.title}</DialogTitle>
           <DialogDescription>
@@ -322,6 +449,27 @@ function RegistrationDialog({
                 </FormItem>
               )}
             />
+            {event && event.registrationFields.length > 0 && (
+              <RegistrationQuestions
+                fields={event.registrationFields}
+                answers={answers}
+                onChange={setAnswers}
+                errors={answerErrors}
+              />
+            )}
+            {event?.seriesId && seriesEventCount > 1 && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="register-whole-series"
+                  checked={wholeSeries}
+                  onCheckedChange={(checked) => setWholeSeries(checked === true)}
+                  data-testid="checkbox-whole-series"
+                />
+                <Label htmlFor="register-whole-series" className="font-normal">
+                  Register for every upcoming event in this series
+                </Label>
+              </div>
+            )}
             <div className="flex gap-3 pt-4">
               <Button type="button" variant="outline" onClick={onClose} className="flex-1">
                 Cancel
@@ -97,6 +97,8 @@ export default function Templates() {
       case "thank-you": return "bg-secondary text-secondary-foreground";
       case "follow-up": return "bg-accent text-accent-foreground";
       case "content-preview": return "bg-chart-5 text-white";
+      case "registration-approved": return "bg-chart-4 text-white";
+      case "registration-rejected": return "bg-muted text-muted-foreground";
       default: return "bg-muted text-muted-foreground";
     }
   };
@@ -108,6 +110,8 @@ export default function Templates() {
       case "thank-you": return "💝";
       case "follow-up": return "💌";
       case "content-preview": return "📄";
+      case "registration-approved": return "✅";
+      case "registration-rejected": return "✉️";
       default: return "📧";
     }
   };
@@ -189,6 +193,8 @@ export default function Templates() {
             <SelectItem value="thank-you">Thank You</SelectItem>
             <SelectItem value="follow-up">Follow-up</SelectItem>
             <SelectItem value="content-preview">Content Preview</SelectItem>
+            <SelectItem value="registration-approved">Registration Approved</SelectItem>
+            <SelectItem value="registration-rejected">Registration Declined</SelectItem>
           </SelectContent>
         </Select>
       </div>
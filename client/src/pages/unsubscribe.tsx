@@ -0,0 +1,135 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { MailX, MailCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { frequencyOptions } from "@/lib/emailPreferences";
+import type { EmailFrequency } from "@shared/schema";
+
+type EmailPreferences = {
+  email: string;
+  name: string;
+  unsubscribed: boolean;
+  emailFrequency: EmailFrequency;
+};
+
+export default function Unsubscribe({ params }: { params: { token: string } }) {
+  const { toast } = useToast();
+  const preferencesUrl = `/api/unsubscribe/${params.token}`;
+
+  const { data: preferences, isLoading, error } = useQuery<EmailPreferences>({
+    queryKey: [preferencesUrl],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Something went wrong",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const subscriptionMutation = useMutation({
+    mutationFn: async (unsubscribe: boolean) => {
+      const res = await apiRequest(unsubscribe ? "POST" : "DELETE", preferencesUrl);
+      return await res.json();
+    },
+    onSuccess: ({ unsubscribed }: { unsubscribed: boolean }) => {
+      queryClient.setQueryData<EmailPreferences>([preferencesUrl], (current) =>
+        current ? { ...current, unsubscribed } : current
+      );
+    },
+    onError,
+  });
+
+  const frequencyMutation = useMutation({
+    mutationFn: async (emailFrequency: EmailFrequency) => {
+      const res = await apiRequest("PUT", `${preferencesUrl}/preferences`, { emailFrequency });
+      return await res.json();
+    },
+    onSuccess: ({ emailFrequency }: { emailFrequency: EmailFrequency }) => {
+      queryClient.setQueryData<EmailPreferences>([preferencesUrl], (current) =>
+        current ? { ...current, emailFrequency } : current
+      );
+      toast({
+        title: "Preferences saved",
+        description: "We'll use your new email frequency from now on",
+      });
+    },
+    onError,
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-muted dark:from-background dark:via-background dark:to-card px-4">
+      <Card className="w-full max-w-lg" data-testid="card-unsubscribe">
+        {isLoading ? (
+          <CardContent className="py-16 flex justify-center">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          </CardContent>
+        ) : error || !preferences ? (
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl font-heading">Link not valid</CardTitle>
+            <CardDescription>
+              This unsubscribe link is invalid or has expired. Use the link from a more recent email.
+            </CardDescription>
+          </CardHeader>
+        ) : (
+          <>
+            <CardHeader className="text-center">
+              <div className="mx-auto mb-4 w-12 h-12 rounded-lg gradient-primary flex items-center justify-center">
+                {preferences.unsubscribed
+                  ? <MailX className="w-7 h-7 text-white" />
+                  : <MailCheck className="w-7 h-7 text-white" />}
+              </div>
+              <CardTitle className="text-2xl font-heading">
+                {preferences.unsubscribed ? "You're unsubscribed" : "Email preferences"}
+              </CardTitle>
+              <CardDescription>
+                {preferences.unsubscribed
+                  ? `${preferences.email} will no longer receive emails from EventBoost events.`
+                  : `Choose which emails ${preferences.email} receives.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {!preferences.unsubscribed && (
+                <RadioGroup
+                  value={preferences.emailFrequency}
+                  onValueChange={(value) => frequencyMutation.mutate(value as EmailFrequency)}
+                  disabled={frequencyMutation.isPending}
+                  className="space-y-3"
+                >
+                  {frequencyOptions.map((option) => (
+                    <div key={option.value} className="flex items-start space-x-3 rounded-lg border p-4">
+                      <RadioGroupItem
+                        value={option.value}
+                        id={`frequency-${option.value}`}
+                        data-testid={`radio-frequency-${option.value}`}
+                      />
+                      <Label htmlFor={`frequency-${option.value}`} className="space-y-1 cursor-pointer">
+                        <span className="block font-medium">{option.label}</span>
+                        <span className="block text-sm text-muted-foreground font-normal">{option.description}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              )}
+
+              <Button
+                className="w-full"
+                variant={preferences.unsubscribed ? "default" : "destructive"}
+                onClick={() => subscriptionMutation.mutate(!preferences.unsubscribed)}
+                disabled={subscriptionMutation.isPending}
+                data-testid={preferences.unsubscribed ? "button-resubscribe" : "button-unsubscribe"}
+              >
+                {preferences.unsubscribed ? "Resubscribe" : "Unsubscribe from all emails"}
+              </Button>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import type { User as SelectUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Strip the password hash before a user object leaves the server
+export function toPublicUser(user: SelectUser): Omit<SelectUser, "password"> {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+// Routes reachable without an operator session: the public registration flow,
+// the tracking, unsubscribe and manage-registration links and check-in QR codes
+// that attendees hit from their inbox, and email provider webhooks (which verify their own signatures).
+const publicRoutes: { method: string; path: RegExp }[] = [
+  { method: "GET", path: /^\/events$/ },
+  { method: "GET", path: /^\/events\/[^/]+$/ },
+  { method: "GET", path: /^\/events\/[^/]+\/(capacity|agenda)$/ },
+  { method: "POST", path: /^\/attendees$/ },
+  { method: "POST", path: /^\/events\/[^/]+\/register$/ },
+  { method: "POST", path: /^\/series\/[^/]+\/register$/ },
+  { method: "GET", path: /^\/track\/(open|click)\/[^/]+$/ },
+  { method: "GET", path: /^\/unsubscribe\/[^/]+$/ },
+  { method: "POST", path: /^\/unsubscribe\/[^/]+$/ },
+  { method: "DELETE", path: /^\/unsubscribe\/[^/]+$/ },
+  { method: "PUT", path: /^\/unsubscribe\/[^/]+\/preferences$/ },
+  { method: "GET", path: /^\/manage\/[^/]+(\/invite\.ics|\/agenda)?$/ },
+  { method: "POST", path: /^\/manage\/[^/]+\/cancel$/ },
+  { method: "PUT", path: /^\/manage\/[^/]+\/(profile|preferences)$/ },
+  { method: "PUT", path: /^\/manage\/[^/]+\/bookmarks\/[^/]+$/ },
+  { method: "DELETE", path: /^\/manage\/[^/]+\/bookmarks\/[^/]+$/ },
+  { method: "GET", path: /^\/check-in\/[^/]+\/qr\.png$/ },
+  { method: "POST", path: /^\/webhooks\/(resend|sendgrid)$/ },
+];
+
+function isPublicRoute(req: Request): boolean {
+  return publicRoutes.some(route => route.method === req.method && route.path.test(req.path));
+}
+
+// Mounted on /api, so req.path is relative to the /api prefix
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (isPublicRoute(req) || req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Authentication required" });
+}
+
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ message: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+async function ensureInitialOperator(): Promise<void> {
+  const existingUsers = await storage.getUsers();
+  if (existingUsers.length > 0) return;
+
+  const username = process.env.ADMIN_USERNAME || "admin";
+  let password = process.env.ADMIN_PASSWORD;
+  if (!password) {
+    password = randomBytes(9).toString("base64url");
+    console.log(`Created initial operator "${username}" with generated password: ${password}`);
+  }
+
+  await storage.createUser({
+    username,
+    password: await hashPassword(password),
+    role: "admin",
+  });
+}
+
+export async function setupAuth(app: Express): Promise<void> {
+  if (!process.env.SESSION_SECRET && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET environment variable is not set");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: process.env.SESSION_SECRET || "eventboost-dev-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 1 week
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  await ensureInitialOperator();
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.status(204).send();
+      });
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  app.use("/api", requireAuth);
+}
@@ -0,0 +1,84 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import type { UserRole } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { DEFAULT_WORKSPACE_SLUG } from "./workspaces";
+import { schedulerService } from "./services/schedulerService";
+
+let server: Server;
+let baseUrl: string;
+let eventId: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+  const workspace = (await storage.getWorkspaceBySlug(DEFAULT_WORKSPACE_SLUG))!;
+  const event = await storage.createEvent({
+    workspaceId: workspace.id,
+    title: "Approval only",
+    startDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    status: "published",
+    registrationMode: "approval",
+  });
+  eventId = event.id;
+
+  for (const role of ["organizer", "marketer", "viewer"] as const) {
+    const user = await storage.createUser({ username: role, password: await hashPassword("secret"), role });
+    await storage.addWorkspaceMember(workspace.id, user.id);
+  }
+});
+
+after(() => {
+  schedulerService.shutdown();
+  server.close();
+});
+
+async function login(role: UserRole): Promise<string> {
+  const response = await fetch(`${baseUrl}/api/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username: role, password: "secret" }),
+  });
+  assert.equal(response.status, 200);
+  return response.headers.get("set-cookie")!.split(";")[0];
+}
+
+async function pendingRegistration(name: string): Promise<string> {
+  const event = (await storage.getEvent(eventId))!;
+  const attendee = await storage.createAttendee({ workspaceId: event.workspaceId, name, email: `${name}@example.com` });
+  const registration = await storage.createEventRegistration({ eventId, attendeeId: attendee.id, status: "pending" });
+  return registration.id;
+}
+
+async function decide(role: UserRole, registrationId: string, decision: "approve" | "reject") {
+  return fetch(`${baseUrl}/api/registrations/${registrationId}/${decision}`, {
+    method: "POST",
+    headers: { Cookie: await login(role) },
+  });
+}
+
+test("organizers can approve and decline pending registrations", async () => {
+  const approved = await decide("organizer", await pendingRegistration("ann"), "approve");
+  assert.equal(approved.status, 200);
+  assert.equal((await approved.json()).status, "registered");
+
+  const rejected = await decide("organizer", await pendingRegistration("bob"), "reject");
+  assert.equal(rejected.status, 200);
+  assert.equal((await rejected.json()).status, "rejected");
+});
+
+test("marketers and viewers can't decide on pending registrations", async () => {
+  const registrationId = await pendingRegistration("cat");
+  assert.equal((await decide("marketer", registrationId, "approve")).status, 403);
+  assert.equal((await decide("viewer", registrationId, "reject")).status, 403);
+  assert.equal((await storage.getEventRegistration(registrationId))?.status, "pending");
+});
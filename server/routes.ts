@@ -1,25 +1,92 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
+import { z } from "zod";
 import { storage } from "./storage";
+import { setupAuth, requirePermission, hashPassword, toPublicUser } from "./auth";
+import { setupWorkspaces } from "./workspaces";
 import { emailService } from "./services/emailService";
+import { emailOutbox } from "./services/emailOutbox";
 import { aiPersonalizationService } from "./services/aiPersonalization";
 import { schedulerService } from "./services/schedulerService";
+import { emailWebhookService, WebhookVerificationError } from "./services/emailWebhooks";
+import { eventNotificationService } from "./services/eventNotifications";
+import { eventCapacityService } from "./services/eventCapacity";
+import { eventAccessService } from "./services/eventAccess";
+import { eventSeriesService, type EditScope } from "./services/eventSeries";
+import { eventAgendaService, SessionValidationError } from "./services/eventAgenda";
+import { checkInService, CheckInError } from "./services/checkIn";
+import { attendanceImportService, AttendanceImportError } from "./services/attendanceImport";
+import { eventInviteAttachment } from "./services/calendarInvite";
+import { lintTemplate } from "@shared/templateVariables";
+import { emailDocumentSchema, renderEmailDocumentHtml, renderEmailDocumentText, type EmailDocument } from "@shared/emailBlocks";
+import { buildRegistrationAnswersSchema, formatRegistrationAnswer } from "@shared/registrationFields";
 import { 
   insertEventSchema,
+  createEventSeriesSchema,
   insertAttendeeSchema, 
   insertEventRegistrationSchema,
   insertEmailCampaignSchema,
   insertEmailTemplateSchema,
   insertContentPreviewSchema,
-  insertAnalyticsEventSchema
+  insertSpeakerSchema,
+  insertEventSessionSchema,
+  insertAnalyticsEventSchema,
+  insertSuppressionSchema,
+  insertUserSchema,
+  type Attendee,
+  type Event,
+  type EventRegistration,
+  type EmailFrequency,
+  type CampaignDelivery,
+  type PendingRegistration,
+  type RegistrationResult,
+  type EventSeriesWithOccurrences
 } from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions, login/logout and the /api auth guard must be registered first,
+  // followed by active workspace resolution which every route below relies on
+  await setupAuth(app);
+  await setupWorkspaces(app);
+
+  // Operator management
+  app.get("/api/users", requirePermission("users:manage"), async (_req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const validatedData = insertUserSchema.parse(req.body);
+
+      const existing = await storage.getUserByUsername(validatedData.username);
+      if (existing) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        ...validatedData,
+        password: await hashPassword(validatedData.password),
+      });
+      await storage.addWorkspaceMember(req.workspaceId!, user.id);
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid user data", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
   // Events routes
-  app.get("/api/events", async (_req, res) => {
+  app.get("/api/events", async (req, res) => {
     try {
-      const events = await storage.getEvents();
-      res.json(events);
+      const events = await storage.getEvents(req.workspaceId);
+      // Visitors, and operators previewing the public page with ?audience=public,
+      // only see listed events and the one an ?invite= token is for
+      const visitorView = !req.isAuthenticated() || req.query.audience === "public";
+      res.json(visitorView ? eventAccessService.getVisitorEvents(events, req.query.invite) : events);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch events" });
     }
@@ -27,8 +94,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/events/:id", async (req, res) => {
     try {
-      const event = await storage.getEvent(req.params.id);
-      if (!event) {
+      const event = await storage.getEvent(req.params.id, req.workspaceId);
+      const visible = event && (req.isAuthenticated() || eventAccessService.getVisitorEvents([event], req.query.invite).length > 0);
+      if (!event || !visible) {
         return res.status(404).json({ message: "Event not found" });
       }
       res.json(event);
@@ -37,19 +105,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/events", async (req, res) => {
+  app.post("/api/events", requirePermission("events:write"), async (req, res) => {
     try {
       const validatedData = insertEventSchema.parse(req.body);
-      const event = await storage.createEvent(validatedData);
+      const event = await storage.createEvent({ ...validatedData, workspaceId: req.workspaceId! });
       res.status(201).json(event);
     } catch (error) {
       res.status(400).json({ message: "Invalid event data", error: error instanceof Error ? error.message : String(error) });
     }
   });
 
-  app.put("/api/events/:id", async (req, res) => {
+  app.put("/api/events/:id", requirePermission("events:write"), async (req, res) => {
     try {
-      const updatedEvent = await storage.updateEvent(req.params.id, req.body);
+      const existing = await storage.getEvent(req.params.id, req.workspaceId);
+      if (!existing || existing.deletedAt) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const validation = insertEventSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid event data", error: validation.error.message });
+      }
+
+      // Occurrences of a series can be edited alone or together with every later one
+      const scope: EditScope = req.query.scope === "following" ? "following" : "occurrence";
+      const updatedEvents = await eventSeriesService.updateEvents(existing, validation.data as Partial<Event>, scope);
+      const updatedEvent = updatedEvents.find(event => event.id === existing.id);
       if (!updatedEvent) {
         return res.status(404).json({ message: "Event not found" });
       }
@@ -59,22 +140,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/events/:id", async (req, res) => {
+  app.delete("/api/events/:id", requirePermission("events:delete"), async (req, res) => {
     try {
-      const deleted = await storage.deleteEvent(req.params.id);
-      if (!deleted) {
+      const event = await storage.getEvent(req.params.id, req.workspaceId);
+      if (!event || event.deletedAt) {
         return res.status(404).json({ message: "Event not found" });
       }
+
+      // Deleting an upcoming event cancels it first so registrants are told
+      if (event.status !== "cancelled" && event.status !== "completed") {
+        const cancelledEvent = await storage.updateEvent(event.id, { status: "cancelled" }, req.workspaceId);
+        if (cancelledEvent) {
+          await eventNotificationService.notifyEventChange(event, cancelledEvent);
+        }
+      }
+
+      await storage.deleteEvent(event.id, req.workspaceId);
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete event" });
     }
   });
 
+  // Event series routes
+  app.post("/api/series", requirePermission("events:write"), async (req, res) => {
+    try {
+      const { event, recurrence } = createEventSeriesSchema.parse(req.body);
+      const created = await eventSeriesService.createSeries(req.workspaceId!, event, recurrence);
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid series data", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.get("/api/series/:id", async (req, res) => {
+    try {
+      const series = await storage.getEventSeries(req.params.id, req.workspaceId);
+      if (!series) {
+        return res.status(404).json({ message: "Series not found" });
+      }
+      const details: EventSeriesWithOccurrences = { ...series, occurrences: await eventSeriesService.getOccurrences(series) };
+      res.json(details);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch series" });
+    }
+  });
+
   // Attendees routes
-  app.get("/api/attendees", async (_req, res) => {
+  app.get("/api/attendees", async (req, res) => {
     try {
-      const attendees = await storage.getAttendees();
+      const attendees = await storage.getAttendees(req.workspaceId);
       res.json(attendees);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch attendees" });
@@ -83,7 +198,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/attendees/:id", async (req, res) => {
     try {
-      const attendee = await storage.getAttendee(req.params.id);
+      const attendee = await storage.getAttendee(req.params.id, req.workspaceId);
       if (!attendee) {
         return res.status(404).json({ message: "Attendee not found" });
       }
@@ -98,21 +213,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validatedData = insertAttendeeSchema.parse(req.body);
       
       // Check if attendee already exists
-      const existing = await storage.getAttendeeByEmail(validatedData.email);
+      const existing = await storage.getAttendeeByEmail(validatedData.email, req.workspaceId!);
       if (existing) {
         return res.status(409).json({ message: "Attendee with this email already exists" });
       }
       
-      const attendee = await storage.createAttendee(validatedData);
+      const attendee = await storage.createAttendee({ ...validatedData, workspaceId: req.workspaceId! });
       res.status(201).json(attendee);
     } catch (error) {
       res.status(400).json({ message: "Invalid attendee data", error: error instanceof Error ? error.message : String(error) });
     }
   });
 
-  app.put("/api/attendees/:id", async (req, res) => {
+  app.put("/api/attendees/:id", requirePermission("attendees:write"), async (req, res) => {
     try {
-      const updatedAttendee = await storage.updateAttendee(req.params.id, req.body);
+      const updatedAttendee = await storage.updateAttendee(req.params.id, req.body, req.workspaceId);
       if (!updatedAttendee) {
         return res.status(404).json({ message: "Attendee not found" });
       }
@@ -125,6 +240,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Event registrations routes
   app.get("/api/events/:eventId/registrations", async (req, res) => {
     try {
+      const event = await storage.getEvent(req.params.eventId, req.workspaceId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
       const registrations = await storage.getEventRegistrations(req.params.eventId);
       res.json(registrations);
     } catch (error) {
@@ -132,6 +252,182 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Invite links open the public registration page on this event. An invite
+  // sent to one person only registers that email address.
+  const inviteRequestSchema = z.object({ email: z.string().trim().email().optional() });
+
+  app.post("/api/events/:eventId/invites", requirePermission("events:write"), async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.eventId, req.workspaceId);
+      if (!event || event.deletedAt) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const { email } = inviteRequestSchema.parse(req.body ?? {});
+      const url = await eventAccessService.createInviteUrl(event, email);
+      res.status(201).json({ url, email: email ?? null });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid invite data", error });
+    }
+  });
+
+  // RFC 4180 quoting; cells that start like a formula are prefixed so spreadsheets show them as text
+  const toCsv = (rows: string[][]) => rows
+    .map(row => row.map(cell => {
+      const value = /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+      return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }).join(","))
+    .join("\r\n") + "\r\n";
+
+  app.get("/api/events/:eventId/registrations/export", async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.eventId, req.workspaceId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const registrations = await storage.getEventRegistrations(event.id);
+      const attendees = new Map((await storage.getAttendees(event.workspaceId)).map(a => [a.id, a]));
+      const fields = event.registrationFields;
+
+      const rows = [
+        ["Name", "Email", "Company", "Job Title", "Status", "Registered At", "Attended", "Checked In At", "Checked Out At", "Minutes Attended", ...fields.map(f => f.label)],
+        ...registrations.map(registration => {
+          const attendee = attendees.get(registration.attendeeId);
+          return [
+            attendee?.name ?? "",
+            attendee?.email ?? "",
+            attendee?.company ?? "",
+            attendee?.jobTitle ?? "",
+            registration.status,
+            registration.registrationDate ? new Date(registration.registrationDate).toISOString() : "",
+            registration.attended ? "Yes" : "No",
+            registration.checkedInAt ? new Date(registration.checkedInAt).toISOString() : "",
+            registration.checkedOutAt ? new Date(registration.checkedOutAt).toISOString() : "",
+            registration.attendanceTime?.toString() ?? "",
+            ...fields.map(field => formatRegistrationAnswer(field, registration.answers?.[field.id])),
+          ];
+        }),
+      ];
+
+      const filename = `${event.title.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase() || "event"}-registrations.csv`;
+      res.attachment(filename).type("text/csv; charset=utf-8").send(toCsv(rows));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export registrations" });
+    }
+  });
+
+  // Attendance report exported from Zoom, Teams or Webex, uploaded as the raw
+  // file (Teams reports are UTF-16, so the body isn't decoded here)
+  app.post(
+    "/api/events/:eventId/attendance-import",
+    requirePermission("attendees:write"),
+    express.raw({ type: ["text/csv", "text/plain", "application/octet-stream"], limit: "10mb" }),
+    async (req, res) => {
+      try {
+        const event = await storage.getEvent(req.params.eventId, req.workspaceId);
+        if (!event || event.deletedAt) {
+          return res.status(404).json({ message: "Event not found" });
+        }
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Upload the attendance report as a CSV file" });
+        }
+
+        res.json(await attendanceImportService.importReport(event, req.body));
+      } catch (error) {
+        if (error instanceof AttendanceImportError) {
+          return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: "Failed to import attendance" });
+      }
+    },
+  );
+
+  app.get("/api/events/:eventId/capacity", async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.eventId, req.workspaceId);
+      if (!event || event.deletedAt) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      res.json(await eventCapacityService.getCapacity(event));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch event capacity" });
+    }
+  });
+
+  type RegistrationOutcome =
+    | { ok: true; registration: RegistrationResult }
+    | { ok: false; status: number; message: string; error?: string; alreadyRegistered?: boolean };
+
+  // Registers an attendee for one event, or explains why they can't be
+  const registerAttendee = async (req: Request, event: Event, attendee: Attendee): Promise<RegistrationOutcome> => {
+    if (event.status === "cancelled") {
+      return { ok: false, status: 409, message: "Event has been cancelled" };
+    }
+
+    // Operators registering someone from the app skip invite and approval checks;
+    // invited visitors skip approval too, since an organizer asked them to come
+    let invited = false;
+    if (!req.isAuthenticated()) {
+      const access = eventAccessService.checkVisitorAccess(event, req.body.inviteToken, attendee.email);
+      if (!access.allowed) {
+        return { ok: false, status: 403, message: access.message };
+      }
+      invited = access.invited;
+    }
+    const needsApproval = event.registrationMode === "approval" && !req.isAuthenticated() && !invited;
+
+    // Answers to the event's custom questions
+    const answersValidation = buildRegistrationAnswersSchema(event.registrationFields).safeParse(req.body.answers ?? {});
+    if (!answersValidation.success) {
+      return { ok: false, status: 400, message: "Invalid registration answers", error: answersValidation.error.message };
+    }
+
+    // Check if already registered, waitlisted or awaiting approval; cancelled registrants may sign up again
+    const existingRegistrations = await storage.getEventRegistrations(event.id);
+    const existing = existingRegistrations.find(r => r.attendeeId === attendee.id && r.status !== "cancelled");
+
+    if (existing?.status === "rejected") {
+      return { ok: false, status: 409, message: "Your registration for this event was declined" };
+    }
+    if (existing) {
+      return { ok: false, status: 409, message: "Already registered for this event", alreadyRegistered: true };
+    }
+
+    // Over capacity the registrant joins the waitlist instead
+    const registration = needsApproval
+      ? await eventCapacityService.requestApproval(event.id, attendee.id, answersValidation.data)
+      : await eventCapacityService.register(event.id, attendee.id, answersValidation.data);
+    return { ok: true, registration };
+  };
+
+  // Waitlisted registrants get theirs as a promotion email later
+  const sendWelcomeEmail = async (event: Event, attendee: Attendee) => {
+    const templates = await storage.getEmailTemplates(event.workspaceId);
+    const welcomeTemplate = templates.find(t => t.type === "welcome");
+    if (!welcomeTemplate || await emailService.isSuppressed(event.workspaceId, attendee.email)) return;
+
+    // Recorded as already sent so the scheduler never picks it up as a bulk campaign
+    const campaign = await storage.createEmailCampaign({
+      workspaceId: event.workspaceId,
+      name: `Welcome - ${event.title}`,
+      type: "welcome",
+      eventId: event.id,
+      templateId: welcomeTemplate.id,
+      subject: welcomeTemplate.subject,
+      content: welcomeTemplate.content,
+      status: "sent",
+    });
+
+    // Send welcome email immediately; there is no retry for it
+    const result = await emailService.sendCampaignEmail(campaign, attendee);
+    if (!result.accepted) {
+      await emailService.markSendFailed(campaign.id, attendee.id, result.errorCode ?? "send_failed", result.errorMessage ?? "Welcome email was not accepted");
+    }
+    await storage.updateEmailCampaign(campaign.id, { sentAt: new Date() });
+  };
+
   app.post("/api/events/:eventId/register", async (req, res) => {
     try {
       const { attendeeId } = req.body;
@@ -140,50 +436,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Attendee ID is required" });
       }
 
-      // Check if already registered
-      const existingRegistrations = await storage.getEventRegistrations(req.params.eventId);
-      const alreadyRegistered = existingRegistrations.some(r => r.attendeeId === attendeeId);
-      
-      if (alreadyRegistered) {
-        return res.status(409).json({ message: "Already registered for this event" });
+      const event = await storage.getEvent(req.params.eventId, req.workspaceId);
+      const attendee = await storage.getAttendee(attendeeId, req.workspaceId);
+      if (!event || event.deletedAt || !attendee) {
+        return res.status(404).json({ message: "Event or attendee not found" });
       }
 
-      const registration = await storage.createEventRegistration({
-        eventId: req.params.eventId,
-        attendeeId,
-      });
+      const outcome = await registerAttendee(req, event, attendee);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message, error: outcome.error });
+      }
 
-      // Send welcome email
-      const attendee = await storage.getAttendee(attendeeId);
-      const event = await storage.getEvent(req.params.eventId);
-      const templates = await storage.getEmailTemplates();
-      const welcomeTemplate = templates.find(t => t.type === "welcome");
-
-      if (attendee && event && welcomeTemplate) {
-        const campaign = await storage.createEmailCampaign({
-          name: `Welcome - ${event.title}`,
-          type: "welcome",
-          eventId: req.params.eventId,
-          templateId: welcomeTemplate.id,
-          subject: welcomeTemplate.subject,
-          content: welcomeTemplate.content,
-          status: "scheduled",
-          scheduledAt: new Date(),
-        });
+      if (outcome.registration.status === "registered") {
+        await sendWelcomeEmail(event, attendee);
+      }
+      res.status(201).json(outcome.registration);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to register for event", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
 
-        // Send welcome email immediately
-        await emailService.sendCampaignEmail(campaign, attendee);
+  // Registers for every upcoming occurrence of a series. Occurrences the
+  // attendee is already registered for are skipped.
+  app.post("/api/series/:id/register", async (req, res) => {
+    try {
+      const { attendeeId } = req.body;
+
+      if (!attendeeId) {
+        return res.status(400).json({ message: "Attendee ID is required" });
+      }
+
+      const series = await storage.getEventSeries(req.params.id, req.workspaceId);
+      const attendee = await storage.getAttendee(attendeeId, req.workspaceId);
+      if (!series || !attendee) {
+        return res.status(404).json({ message: "Series or attendee not found" });
+      }
+
+      const now = new Date();
+      const upcoming = (await eventSeriesService.getOccurrences(series))
+        .filter(event => new Date(event.startDate) > now && event.status !== "cancelled" && event.status !== "completed");
+      if (upcoming.length === 0) {
+        return res.status(409).json({ message: "This series has no upcoming events" });
+      }
+
+      const registrations: RegistrationResult[] = [];
+      let failure: Extract<RegistrationOutcome, { ok: false }> | undefined;
+      for (const event of upcoming) {
+        const outcome = await registerAttendee(req, event, attendee);
+        if (outcome.ok) {
+          registrations.push(outcome.registration);
+        } else if (!outcome.alreadyRegistered) {
+          failure ??= outcome;
+        }
       }
 
-      res.status(201).json(registration);
+      if (registrations.length === 0) {
+        return failure
+          ? res.status(failure.status).json({ message: failure.message, error: failure.error })
+          : res.status(409).json({ message: "Already registered for every upcoming event in this series" });
+      }
+
+      // One welcome email for the series, about the first event with a seat
+      const firstSeated = registrations.find(r => r.status === "registered");
+      const firstSeatedEvent = firstSeated && upcoming.find(event => event.id === firstSeated.eventId);
+      if (firstSeatedEvent) {
+        await sendWelcomeEmail(firstSeatedEvent, attendee);
+      }
+      res.status(201).json(registrations);
     } catch (error) {
-      res.status(400).json({ message: "Failed to register for event", error: error instanceof Error ? error.message : String(error) });
+      res.status(400).json({ message: "Failed to register for series", error: error instanceof Error ? error.message : String(error) });
     }
   });
 
-  app.put("/api/registrations/:id", async (req, res) => {
+  app.put("/api/registrations/:id", requirePermission("attendees:write"), async (req, res) => {
     try {
-      const updatedRegistration = await storage.updateEventRegistration(req.params.id, req.body);
+      const registration = await storage.getEventRegistration(req.params.id);
+      const event = registration && await storage.getEvent(registration.eventId, req.workspaceId);
+      if (!event) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+
+      // Status changes go through the cancel route so seats and the waitlist stay in step
+      const { status: _status, ...changes } = req.body;
+      const updatedRegistration = await storage.updateEventRegistration(req.params.id, changes);
       if (!updatedRegistration) {
         return res.status(404).json({ message: "Registration not found" });
       }
@@ -193,10 +528,144 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/registrations/:id/cancel", requirePermission("attendees:write"), async (req, res) => {
+    try {
+      const registration = await storage.getEventRegistration(req.params.id);
+      const event = registration && await storage.getEvent(registration.eventId, req.workspaceId);
+      if (!registration || !event) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      if (registration.status === "cancelled" || registration.status === "rejected") {
+        return res.status(409).json({ message: `Registration is already ${registration.status}` });
+      }
+
+      const cancelled = await eventCapacityService.cancel(registration);
+      if (!cancelled) {
+        return res.status(409).json({ message: "Registration changed while cancelling, please try again" });
+      }
+      res.json(cancelled);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel registration" });
+    }
+  });
+
+  // Approval queue: registrations waiting on an organizer, oldest first
+  app.get("/api/registrations/pending", async (req, res) => {
+    try {
+      const events = new Map((await storage.getEvents(req.workspaceId)).map(e => [e.id, e]));
+      const attendees = new Map((await storage.getAttendees(req.workspaceId)).map(a => [a.id, a]));
+      const pending: PendingRegistration[] = (await storage.getEventRegistrations())
+        .filter(r => r.status === "pending" && events.has(r.eventId))
+        .reverse()
+        .map(registration => {
+          const event = events.get(registration.eventId)!;
+          const attendee = attendees.get(registration.attendeeId);
+          return {
+            ...registration,
+            attendeeName: attendee?.name ?? "Deleted attendee",
+            attendeeEmail: attendee?.email ?? "",
+            attendeeCompany: attendee?.company ?? null,
+            eventTitle: event.title,
+            eventStartDate: event.startDate,
+          };
+        });
+      res.json(pending);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pending registrations" });
+    }
+  });
+
+  // Approving gives the registrant a seat (or a waitlist place once the event is
+  // full) and rejecting declines them; either way they're emailed the decision
+  app.post("/api/registrations/:id/:decision(approve|reject)", requirePermission("registrations:approve"), async (req, res) => {
+    try {
+      const registration = await storage.getEventRegistration(req.params.id);
+      const event = registration && await storage.getEvent(registration.eventId, req.workspaceId);
+      if (!registration || !event) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      if (registration.status !== "pending") {
+        return res.status(409).json({ message: "Registration is not awaiting approval" });
+      }
+
+      const decided = req.params.decision === "approve"
+        ? await eventCapacityService.approve(registration)
+        : await eventCapacityService.reject(registration);
+      if (!decided) {
+        return res.status(409).json({ message: "Registration was decided by someone else, please refresh" });
+      }
+      res.json(decided);
+    } catch (error) {
+      res.status(500).json({ message: `Failed to ${req.params.decision} registration` });
+    }
+  });
+
+  // The QR code in a registrant's confirmation email; the token in the URL is
+  // what the check-in kiosk reads back
+  app.get("/api/check-in/:token/qr.png", async (req, res) => {
+    try {
+      const payload = checkInService.verifyCheckInToken(req.params.token);
+      const registration = payload && await storage.getEventRegistration(payload.registrationId);
+      if (!registration) {
+        return res.status(404).json({ message: "This check-in code is invalid" });
+      }
+
+      const png = await checkInService.renderQrCode(req.params.token);
+      res.set("Cache-Control", "public, max-age=86400").type("png").send(png);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to render check-in code" });
+    }
+  });
+
+  app.get("/api/events/:eventId/check-in", async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.eventId, req.workspaceId);
+      if (!event || event.deletedAt) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      res.json(await checkInService.getCounts(event.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch check-in counts" });
+    }
+  });
+
+  // Kiosk scans: the body's code is a scanned QR token or a typed short code
+  const checkInRequestSchema = z.object({ code: z.string().trim().min(1) });
+
+  app.post("/api/events/:eventId/:direction(check-in|check-out)", requirePermission("attendees:checkin"), async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.eventId, req.workspaceId);
+      if (!event || event.deletedAt) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const parsed = checkInRequestSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid check-in data", error: parsed.error });
+      }
+
+      const registration = await checkInService.resolveCode(event, parsed.data.code);
+      const attendee = registration && await storage.getAttendee(registration.attendeeId);
+      if (!registration || !attendee) {
+        return res.status(404).json({ message: "No registration for this event matches that code" });
+      }
+
+      res.json(req.params.direction === "check-in"
+        ? await checkInService.checkIn(registration, attendee)
+        : await checkInService.checkOut(registration, attendee));
+    } catch (error) {
+      if (error instanceof CheckInError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Failed to ${req.params.direction.replace("-", " ")}` });
+    }
+  });
+
   // Email campaigns routes
-  app.get("/api/campaigns", async (_req, res) => {
+  app.get("/api/campaigns", async (req, res) => {
     try {
-      const campaigns = await storage.getEmailCampaigns();
+      const campaigns = await storage.getEmailCampaigns(req.workspaceId);
       res.json(campaigns);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch campaigns" });
@@ -205,7 +674,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/campaigns/:id", async (req, res) => {
     try {
-      const campaign = await storage.getEmailCampaign(req.params.id);
+      const campaign = await storage.getEmailCampaign(req.params.id, req.workspaceId);
       if (!campaign) {
         return res.status(404).json({ message: "Campaign not found" });
       }
@@ -215,25 +684,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/campaigns", async (req, res) => {
+  app.post("/api/campaigns", requirePermission("campaigns:write"), async (req, res) => {
     try {
       const validatedData = insertEmailCampaignSchema.parse(req.body);
-      const campaign = await storage.createEmailCampaign(validatedData);
-      
-      // Schedule the campaign if scheduledAt is provided
-      if (campaign.scheduledAt && campaign.status === "scheduled") {
-        await schedulerService.scheduleCustomCampaign(campaign.id, new Date(campaign.scheduledAt));
-      }
-      
+      // Scheduled campaigns are picked up by the scheduler once scheduledAt has passed
+      const campaign = await storage.createEmailCampaign({ ...validatedData, workspaceId: req.workspaceId! });
       res.status(201).json(campaign);
     } catch (error) {
       res.status(400).json({ message: "Invalid campaign data", error: error instanceof Error ? error.message : String(error) });
     }
   });
 
-  app.put("/api/campaigns/:id", async (req, res) => {
+  app.put("/api/campaigns/:id", requirePermission("campaigns:write"), async (req, res) => {
     try {
-      const updatedCampaign = await storage.updateEmailCampaign(req.params.id, req.body);
+      const updatedCampaign = await storage.updateEmailCampaign(req.params.id, req.body, req.workspaceId);
       if (!updatedCampaign) {
         return res.status(404).json({ message: "Campaign not found" });
       }
@@ -243,22 +707,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/campaigns/:id/send", async (req, res) => {
+  app.post("/api/campaigns/:id/send", requirePermission("campaigns:send"), async (req, res) => {
     try {
-      const campaign = await storage.getEmailCampaign(req.params.id);
+      const campaign = await storage.getEmailCampaign(req.params.id, req.workspaceId);
       if (!campaign) {
         return res.status(404).json({ message: "Campaign not found" });
       }
 
-      const result = await emailService.sendBulkCampaign(req.params.id);
-      res.json(result);
+      if (campaign.status === "sending" || campaign.status === "sent") {
+        return res.status(409).json({ message: "Campaign has already been sent" });
+      }
+
+      const result = await emailService.queueCampaign(req.params.id);
+      res.status(202).json(result);
     } catch (error) {
       res.status(500).json({ message: "Failed to send campaign" });
     }
   });
 
+  app.get("/api/campaigns/:id/progress", async (req, res) => {
+    try {
+      const campaign = await storage.getEmailCampaign(req.params.id, req.workspaceId);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const progress = await storage.getCampaignSendProgress(req.params.id);
+      res.json(progress);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch campaign progress" });
+    }
+  });
+
+  // Per-recipient delivery status for the campaign detail view
+  app.get("/api/campaigns/:id/deliveries", async (req, res) => {
+    try {
+      const campaign = await storage.getEmailCampaign(req.params.id, req.workspaceId);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const sends = await storage.getCampaignEmailSends(campaign.id);
+      const attendees = new Map((await storage.getAttendees(campaign.workspaceId)).map(a => [a.id, a]));
+      const deliveries: CampaignDelivery[] = sends.map(send => ({
+        ...send,
+        attendeeName: attendees.get(send.attendeeId)?.name ?? "Deleted attendee",
+        attendeeEmail: attendees.get(send.attendeeId)?.email ?? "",
+      }));
+      res.json(deliveries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch campaign deliveries" });
+    }
+  });
+
   app.get("/api/campaigns/:id/stats", async (req, res) => {
     try {
+      const campaign = await storage.getEmailCampaign(req.params.id, req.workspaceId);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
       const stats = await storage.getEmailSendStats(req.params.id);
       res.json(stats);
     } catch (error) {
@@ -267,9 +775,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Email templates routes
-  app.get("/api/templates", async (_req, res) => {
+  app.get("/api/templates", async (req, res) => {
     try {
-      const templates = await storage.getEmailTemplates();
+      const templates = await storage.getEmailTemplates(req.workspaceId);
       res.json(templates);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch templates" });
@@ -278,7 +786,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/templates/:id", async (req, res) => {
     try {
-      const template = await storage.getEmailTemplate(req.params.id);
+      const template = await storage.getEmailTemplate(req.params.id, req.workspaceId);
       if (!template) {
         return res.status(404).json({ message: "Template not found" });
       }
@@ -288,31 +796,139 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/templates", async (req, res) => {
+  // Malformed templates are rejected; unknown variables come back as warnings and
+  // the stored variables list is replaced by what the subject and content use
+  // Block-built templates store the HTML and plain text rendered from their
+  // design; saving hand-written content detaches a template from its design
+  const withRenderedDesign = <T extends { design?: EmailDocument | null; content?: string }>(data: T) => {
+    if (data.design) {
+      return { ...data, content: renderEmailDocumentHtml(data.design), textContent: renderEmailDocumentText(data.design) };
+    }
+    if (data.content !== undefined) {
+      return { ...data, design: null, textContent: null };
+    }
+    return data;
+  };
+
+  app.post("/api/templates", requirePermission("templates:write"), async (req, res) => {
     try {
-      const validatedData = insertEmailTemplateSchema.parse(req.body);
-      const template = await storage.createEmailTemplate(validatedData);
-      res.status(201).json(template);
+      const validatedData = withRenderedDesign(insertEmailTemplateSchema.parse(req.body));
+      const lint = lintTemplate(validatedData);
+      const errors = lint.diagnostics.filter(d => d.severity === "error");
+      if (errors.length > 0) {
+        return res.status(400).json({ message: "Invalid template", error: errors[0].message, diagnostics: lint.diagnostics });
+      }
+
+      const template = await storage.createEmailTemplate({
+        ...validatedData,
+        variables: lint.variables,
+        workspaceId: req.workspaceId!,
+      }, { createdBy: req.user?.id });
+      res.status(201).json({ ...template, diagnostics: lint.diagnostics });
     } catch (error) {
       res.status(400).json({ message: "Invalid template data", error: error instanceof Error ? error.message : String(error) });
     }
   });
 
-  app.put("/api/templates/:id", async (req, res) => {
+  app.put("/api/templates/:id", requirePermission("templates:write"), async (req, res) => {
     try {
-      const updatedTemplate = await storage.updateEmailTemplate(req.params.id, req.body);
+      const existing = await storage.getEmailTemplate(req.params.id, req.workspaceId);
+      if (!existing) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const design = emailDocumentSchema.nullable().optional().safeParse(req.body.design);
+      if (!design.success) {
+        return res.status(400).json({ message: "Invalid template design", error: design.error.message });
+      }
+
+      const update = withRenderedDesign(design.data === undefined ? req.body : { ...req.body, design: design.data });
+      const lint = lintTemplate({
+        subject: update.subject ?? existing.subject,
+        content: update.content ?? existing.content,
+      });
+      const errors = lint.diagnostics.filter(d => d.severity === "error");
+      if (errors.length > 0) {
+        return res.status(400).json({ message: "Invalid template", error: errors[0].message, diagnostics: lint.diagnostics });
+      }
+
+      const updatedTemplate = await storage.updateEmailTemplate(
+        req.params.id,
+        { ...update, variables: lint.variables },
+        req.workspaceId,
+        { createdBy: req.user?.id }
+      );
       if (!updatedTemplate) {
         return res.status(404).json({ message: "Template not found" });
       }
-      res.json(updatedTemplate);
+      res.json({ ...updatedTemplate, diagnostics: lint.diagnostics });
     } catch (error) {
       res.status(500).json({ message: "Failed to update template" });
     }
   });
 
+  app.get("/api/templates/:id/versions", async (req, res) => {
+    try {
+      const template = await storage.getEmailTemplate(req.params.id, req.workspaceId);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const versions = await storage.getEmailTemplateVersions(template.id);
+      res.json(versions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch template versions" });
+    }
+  });
+
+  app.get("/api/template-versions/:id", async (req, res) => {
+    try {
+      const version = await storage.getEmailTemplateVersion(req.params.id);
+      const template = version && await storage.getEmailTemplate(version.templateId, req.workspaceId);
+      if (!template) {
+        return res.status(404).json({ message: "Template version not found" });
+      }
+      res.json(version);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch template version" });
+    }
+  });
+
+  // Rollback saves the old subject and content as a new version, so history stays append-only
+  app.post("/api/templates/:id/versions/:versionId/restore", requirePermission("templates:write"), async (req, res) => {
+    try {
+      const template = await storage.getEmailTemplate(req.params.id, req.workspaceId);
+      const version = await storage.getEmailTemplateVersion(req.params.versionId);
+      if (!template || !version || version.templateId !== template.id) {
+        return res.status(404).json({ message: "Template version not found" });
+      }
+
+      const restoredTemplate = await storage.updateEmailTemplate(
+        template.id,
+        {
+          subject: version.subject,
+          content: version.content,
+          variables: version.variables,
+          design: version.design,
+          textContent: version.textContent,
+        },
+        req.workspaceId,
+        { createdBy: req.user?.id, restoredFrom: version.version }
+      );
+      res.json(restoredTemplate);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore template version" });
+    }
+  });
+
   // Content previews routes
   app.get("/api/events/:eventId/content-previews", async (req, res) => {
     try {
+      const event = await storage.getEvent(req.params.eventId, req.workspaceId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
       const previews = await storage.getContentPreviews(req.params.eventId);
       res.json(previews);
     } catch (error) {
@@ -320,12 +936,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/events/:eventId/content-previews", async (req, res) => {
+  app.post("/api/events/:eventId/content-previews", requirePermission("events:write"), async (req, res) => {
     try {
+      const event = await storage.getEvent(req.params.eventId, req.workspaceId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
       const validatedData = insertContentPreviewSchema.parse({
         ...req.body,
         eventId: req.params.eventId,
       });
+      if (validatedData.speakerId && !(await storage.getSpeaker(validatedData.speakerId, req.workspaceId))) {
+        return res.status(400).json({ message: "Speaker not found" });
+      }
       const preview = await storage.createContentPreview(validatedData);
       res.status(201).json(preview);
     } catch (error) {
@@ -333,11 +957,145 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Speakers routes
+  app.get("/api/speakers", async (req, res) => {
+    try {
+      const speakers = await storage.getSpeakers(req.workspaceId!);
+      res.json(speakers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch speakers" });
+    }
+  });
+
+  app.post("/api/speakers", requirePermission("events:write"), async (req, res) => {
+    try {
+      const validatedData = insertSpeakerSchema.parse(req.body);
+      const speaker = await storage.createSpeaker({ ...validatedData, workspaceId: req.workspaceId! });
+      res.status(201).json(speaker);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid speaker data", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.put("/api/speakers/:id", requirePermission("events:write"), async (req, res) => {
+    try {
+      const validation = insertSpeakerSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid speaker data", error: validation.error.message });
+      }
+
+      const speaker = await storage.updateSpeaker(req.params.id, validation.data, req.workspaceId);
+      if (!speaker) {
+        return res.status(404).json({ message: "Speaker not found" });
+      }
+      res.json(speaker);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update speaker" });
+    }
+  });
+
+  // Removes the speaker from every session they were on
+  app.delete("/api/speakers/:id", requirePermission("events:write"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteSpeaker(req.params.id, req.workspaceId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Speaker not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete speaker" });
+    }
+  });
+
+  // Agenda routes. The agenda is public for events visitors can see; operators
+  // also get bookmark counts per session.
+  app.get("/api/events/:eventId/agenda", async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.eventId, req.workspaceId);
+      const visitorView = !req.isAuthenticated() || req.query.audience === "public";
+      const visible = event && (!visitorView || eventAccessService.getVisitorEvents([event], req.query.invite).length > 0);
+      if (!event || !visible) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const agenda = await eventAgendaService.getAgenda(event, { withBookmarkCounts: !visitorView });
+      res.json(agenda);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch agenda" });
+    }
+  });
+
+  app.post("/api/events/:eventId/sessions", requirePermission("events:write"), async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.eventId, req.workspaceId);
+      if (!event || event.deletedAt) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const validation = insertEventSessionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid session data", error: validation.error.message });
+      }
+
+      const data = { ...validation.data, speakerIds: validation.data.speakerIds ?? [] };
+      await eventAgendaService.checkSession(event, data);
+      const session = await storage.createEventSession({ ...data, eventId: event.id });
+      res.status(201).json(session);
+    } catch (error) {
+      if (error instanceof SessionValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create session" });
+    }
+  });
+
+  app.put("/api/sessions/:id", requirePermission("events:write"), async (req, res) => {
+    try {
+      const session = await storage.getEventSession(req.params.id);
+      const event = session && await storage.getEvent(session.eventId, req.workspaceId);
+      if (!session || !event || event.deletedAt) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const validation = insertEventSessionSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid session data", error: validation.error.message });
+      }
+
+      await eventAgendaService.checkSession(event, { ...session, ...validation.data });
+      const updatedSession = await storage.updateEventSession(session.id, validation.data);
+      if (!updatedSession) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      res.json(updatedSession);
+    } catch (error) {
+      if (error instanceof SessionValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update session" });
+    }
+  });
+
+  app.delete("/api/sessions/:id", requirePermission("events:write"), async (req, res) => {
+    try {
+      const session = await storage.getEventSession(req.params.id);
+      const event = session && await storage.getEvent(session.eventId, req.workspaceId);
+      if (!session || !event) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await storage.deleteEventSession(session.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete session" });
+    }
+  });
+
   // Analytics routes
   app.get("/api/analytics/metrics", async (req, res) => {
     try {
       const days = parseInt(req.query.days as string) || 7;
-      const metrics = await storage.getEngagementMetrics(days);
+      const metrics = await storage.getEngagementMetrics(days, req.workspaceId);
       res.json(metrics);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch analytics metrics" });
@@ -347,6 +1105,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/analytics/events", async (req, res) => {
     try {
       const filters = {
+        workspaceId: req.workspaceId,
         eventType: req.query.eventType as string,
         eventId: req.query.eventId as string,
         attendeeId: req.query.attendeeId as string,
@@ -364,7 +1123,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/analytics/events", async (req, res) => {
     try {
       const validatedData = insertAnalyticsEventSchema.parse(req.body);
-      const analyticsEvent = await storage.createAnalyticsEvent(validatedData);
+      const analyticsEvent = await storage.createAnalyticsEvent({ ...validatedData, workspaceId: req.workspaceId! });
       res.status(201).json(analyticsEvent);
     } catch (error) {
       res.status(400).json({ message: "Invalid analytics event data", error: error instanceof Error ? error.message : String(error) });
@@ -372,12 +1131,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dashboard stats route
-  app.get("/api/dashboard/stats", async (_req, res) => {
+  app.get("/api/dashboard/stats", async (req, res) => {
     try {
-      const events = await storage.getEvents();
-      const attendees = await storage.getAttendees();
-      const campaigns = await storage.getEmailCampaigns();
-      const registrations = await storage.getEventRegistrations();
+      const events = await storage.getEvents(req.workspaceId);
+      const campaigns = await storage.getEmailCampaigns(req.workspaceId);
+      const eventIds = new Set(events.map(e => e.id));
+      const registrations = (await storage.getEventRegistrations())
+        .filter(r => eventIds.has(r.eventId) && r.status === "registered");
 
       // Calculate active events (published or live)
       const activeEvents = events.filter(e => e.status === "published" || e.status === "live");
@@ -420,13 +1180,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI personalization routes
-  app.post("/api/ai/personalize-content", async (req, res) => {
+  app.post("/api/ai/personalize-content", requirePermission("campaigns:write"), async (req, res) => {
     try {
       const { attendeeId, eventId, templateId } = req.body;
       
-      const attendee = await storage.getAttendee(attendeeId);
-      const event = eventId ? await storage.getEvent(eventId) : undefined;
-      const template = await storage.getEmailTemplate(templateId);
+      const attendee = await storage.getAttendee(attendeeId, req.workspaceId);
+      const event = eventId ? await storage.getEvent(eventId, req.workspaceId) : undefined;
+      const template = await storage.getEmailTemplate(templateId, req.workspaceId);
       
       if (!attendee || !template) {
         return res.status(404).json({ message: "Attendee or template not found" });
@@ -444,11 +1204,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/content-suggestions", async (req, res) => {
+  app.post("/api/ai/content-suggestions", requirePermission("campaigns:write"), async (req, res) => {
     try {
       const { eventId, attendeeInterests } = req.body;
       
-      const event = await storage.getEvent(eventId);
+      const event = await storage.getEvent(eventId, req.workspaceId);
       if (!event) {
         return res.status(404).json({ message: "Event not found" });
       }
@@ -464,6 +1224,382 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Suppression list routes
+  app.get("/api/suppressions", async (req, res) => {
+    try {
+      const suppressions = await storage.getSuppressions(req.workspaceId!);
+      res.json(suppressions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch suppressions" });
+    }
+  });
+
+  app.post("/api/suppressions", requirePermission("attendees:write"), async (req, res) => {
+    try {
+      const validatedData = insertSuppressionSchema.parse({ reason: "blocked", ...req.body });
+      const suppression = await storage.createSuppression({ ...validatedData, workspaceId: req.workspaceId! });
+      res.status(201).json(suppression);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid suppression data", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.delete("/api/suppressions/:id", requirePermission("attendees:write"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteSuppression(req.params.id, req.workspaceId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Suppression not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete suppression" });
+    }
+  });
+
+  const isEmailFrequency = (value: unknown): value is EmailFrequency =>
+    value === "daily" || value === "weekly" || value === "minimal";
+
+  const saveEmailFrequency = async (attendee: Attendee, emailFrequency: EmailFrequency) => {
+    await storage.updateAttendee(attendee.id, {
+      preferences: {
+        contentTypes: attendee.preferences?.contentTypes ?? [],
+        timezone: attendee.preferences?.timezone ?? "UTC",
+        emailFrequency,
+      },
+    });
+  };
+
+  // Unsubscribe and email preference routes (public, authorized by the signed token)
+  const resolveUnsubscribeToken = async (token: string) => {
+    const payload = emailService.verifyUnsubscribeToken(token);
+    if (!payload) return undefined;
+
+    const attendee = await storage.getAttendee(payload.attendeeId);
+    return attendee ? { attendee, campaignId: payload.campaignId } : undefined;
+  };
+
+  app.get("/api/unsubscribe/:token", async (req, res) => {
+    try {
+      const recipient = await resolveUnsubscribeToken(req.params.token);
+      if (!recipient) {
+        return res.status(404).json({ message: "This link is invalid or has expired" });
+      }
+
+      const { attendee } = recipient;
+      const suppression = await storage.getSuppression(attendee.workspaceId, attendee.email);
+      res.json({
+        email: attendee.email,
+        name: attendee.name,
+        unsubscribed: !!suppression,
+        emailFrequency: attendee.preferences?.emailFrequency ?? "weekly",
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch email preferences" });
+    }
+  });
+
+  // Also the target of the one-click List-Unsubscribe-Post header
+  app.post("/api/unsubscribe/:token", async (req, res) => {
+    try {
+      const recipient = await resolveUnsubscribeToken(req.params.token);
+      if (!recipient) {
+        return res.status(404).json({ message: "This link is invalid or has expired" });
+      }
+
+      const { attendee, campaignId } = recipient;
+      const campaign = await storage.getEmailCampaign(campaignId, attendee.workspaceId);
+      await storage.createSuppression({
+        workspaceId: attendee.workspaceId,
+        email: attendee.email,
+        reason: "unsubscribed",
+        campaignId: campaign?.id ?? null,
+      });
+
+      const send = campaign && await storage.getEmailSendByRecipient(campaign.id, attendee.id);
+      if (send) {
+        await storage.updateEmailSend(send.id, { unsubscribed: true });
+      }
+
+      res.json({ unsubscribed: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to unsubscribe" });
+    }
+  });
+
+  // Resubscribe; only lifts suppressions the attendee created themselves
+  app.delete("/api/unsubscribe/:token", async (req, res) => {
+    try {
+      const recipient = await resolveUnsubscribeToken(req.params.token);
+      if (!recipient) {
+        return res.status(404).json({ message: "This link is invalid or has expired" });
+      }
+
+      const { attendee } = recipient;
+      const suppression = await storage.getSuppression(attendee.workspaceId, attendee.email);
+      if (suppression && suppression.reason !== "unsubscribed") {
+        return res.status(409).json({ message: "This address cannot be resubscribed. Please contact the event organizer." });
+      }
+      if (suppression) {
+        await storage.deleteSuppression(suppression.id);
+      }
+
+      res.json({ unsubscribed: false });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to resubscribe" });
+    }
+  });
+
+  app.put("/api/unsubscribe/:token/preferences", async (req, res) => {
+    try {
+      const recipient = await resolveUnsubscribeToken(req.params.token);
+      if (!recipient) {
+        return res.status(404).json({ message: "This link is invalid or has expired" });
+      }
+
+      const { emailFrequency } = req.body;
+      if (!isEmailFrequency(emailFrequency)) {
+        return res.status(400).json({ message: "Invalid email frequency" });
+      }
+
+      await saveEmailFrequency(recipient.attendee, emailFrequency);
+      res.json({ emailFrequency });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update email preferences" });
+    }
+  });
+
+  // Manage-registration routes (public, authorized by the signed link in registration emails)
+  const resolveManageToken = async (token: string) => {
+    const payload = emailService.verifyManageRegistrationToken(token);
+    if (!payload) return undefined;
+
+    const registration = await storage.getEventRegistration(payload.registrationId);
+    if (!registration) return undefined;
+    const event = await storage.getEvent(registration.eventId);
+    const attendee = await storage.getAttendee(registration.attendeeId);
+    return event && !event.deletedAt && attendee ? { registration, event, attendee } : undefined;
+  };
+
+  // Every change an attendee makes to their own registration shows up in analytics
+  const recordRegistrationUpdate = async (
+    { registration, event }: { registration: EventRegistration; event: Event },
+    action: "cancelled" | "profile_updated" | "preferences_updated" | "invite_downloaded",
+    details: Record<string, unknown> = {},
+  ) => {
+    await storage.createAnalyticsEvent({
+      workspaceId: event.workspaceId,
+      eventType: "registration_update",
+      attendeeId: registration.attendeeId,
+      eventId: event.id,
+      metadata: { registrationId: registration.id, action, ...details },
+    });
+  };
+
+  app.get("/api/manage/:token", async (req, res) => {
+    try {
+      const managed = await resolveManageToken(req.params.token);
+      if (!managed) {
+        return res.status(404).json({ message: "This link is invalid or the registration no longer exists" });
+      }
+
+      const { registration, event, attendee } = managed;
+      res.json({
+        status: registration.status,
+        waitlistPosition: await eventCapacityService.getWaitlistPosition(registration),
+        event: {
+          title: event.title,
+          description: event.description,
+          startDate: event.startDate,
+          endDate: event.endDate,
+          timezone: event.timezone,
+          location: event.location,
+          status: event.status,
+        },
+        attendee: {
+          name: attendee.name,
+          email: attendee.email,
+          company: attendee.company,
+          jobTitle: attendee.jobTitle,
+          interests: attendee.interests ?? [],
+        },
+        emailFrequency: attendee.preferences?.emailFrequency ?? "weekly",
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch registration" });
+    }
+  });
+
+  app.post("/api/manage/:token/cancel", async (req, res) => {
+    try {
+      const managed = await resolveManageToken(req.params.token);
+      if (!managed) {
+        return res.status(404).json({ message: "This link is invalid or the registration no longer exists" });
+      }
+      if (managed.registration.status === "cancelled" || managed.registration.status === "rejected") {
+        return res.status(409).json({ message: `This registration is already ${managed.registration.status}` });
+      }
+
+      // A seat given up here goes to the next person on the waitlist
+      const cancelled = await eventCapacityService.cancel(managed.registration);
+      if (!cancelled) {
+        return res.status(409).json({ message: "Your registration changed while cancelling, please try again" });
+      }
+
+      await recordRegistrationUpdate(managed, "cancelled", { previousStatus: managed.registration.status });
+      res.json({ status: cancelled.status });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel registration" });
+    }
+  });
+
+  // Attendees can't change their email here; it identifies them across events
+  const manageProfileSchema = insertAttendeeSchema.pick({
+    name: true,
+    company: true,
+    jobTitle: true,
+    interests: true,
+  });
+
+  app.put("/api/manage/:token/profile", async (req, res) => {
+    try {
+      const managed = await resolveManageToken(req.params.token);
+      if (!managed) {
+        return res.status(404).json({ message: "This link is invalid or the registration no longer exists" });
+      }
+
+      const validation = manageProfileSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid profile data", error: validation.error.message });
+      }
+
+      const attendee = await storage.updateAttendee(managed.attendee.id, validation.data);
+      await recordRegistrationUpdate(managed, "profile_updated", { fields: Object.keys(validation.data) });
+      res.json({
+        name: attendee?.name,
+        email: attendee?.email,
+        company: attendee?.company,
+        jobTitle: attendee?.jobTitle,
+        interests: attendee?.interests ?? [],
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update profile" });
+    }
+  });
+
+  app.put("/api/manage/:token/preferences", async (req, res) => {
+    try {
+      const managed = await resolveManageToken(req.params.token);
+      if (!managed) {
+        return res.status(404).json({ message: "This link is invalid or the registration no longer exists" });
+      }
+
+      const { emailFrequency } = req.body;
+      if (!isEmailFrequency(emailFrequency)) {
+        return res.status(400).json({ message: "Invalid email frequency" });
+      }
+
+      await saveEmailFrequency(managed.attendee, emailFrequency);
+      await recordRegistrationUpdate(managed, "preferences_updated", { emailFrequency });
+      res.json({ emailFrequency });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update email preferences" });
+    }
+  });
+
+  app.get("/api/manage/:token/invite.ics", async (req, res) => {
+    try {
+      const managed = await resolveManageToken(req.params.token);
+      if (!managed) {
+        return res.status(404).json({ message: "This link is invalid or the registration no longer exists" });
+      }
+      if (managed.registration.status !== "registered") {
+        return res.status(409).json({ message: "Calendar invites are available once your registration is confirmed" });
+      }
+
+      const invite = eventInviteAttachment(managed.event, managed.attendee);
+      await recordRegistrationUpdate(managed, "invite_downloaded");
+      res.attachment(invite.filename).type(invite.contentType).send(invite.content);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create calendar invite" });
+    }
+  });
+
+  // The event's agenda with the sessions this attendee bookmarked
+  app.get("/api/manage/:token/agenda", async (req, res) => {
+    try {
+      const managed = await resolveManageToken(req.params.token);
+      if (!managed) {
+        return res.status(404).json({ message: "This link is invalid or the registration no longer exists" });
+      }
+
+      const agenda = await eventAgendaService.getAgenda(managed.event);
+      const bookmarks = await storage.getSessionBookmarks(agenda.sessions.map(s => s.id));
+      res.json({
+        ...agenda,
+        bookmarkedSessionIds: bookmarks.filter(b => b.attendeeId === managed.attendee.id).map(b => b.sessionId),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch agenda" });
+    }
+  });
+
+  // Bookmarks are kept for PUT and removed for DELETE
+  const updateSessionBookmark = async (req: Request, res: Response, bookmarked: boolean) => {
+    try {
+      const managed = await resolveManageToken(req.params.token);
+      if (!managed) {
+        return res.status(404).json({ message: "This link is invalid or the registration no longer exists" });
+      }
+      if (managed.registration.status === "cancelled" || managed.registration.status === "rejected") {
+        return res.status(409).json({ message: `This registration is ${managed.registration.status}` });
+      }
+
+      const session = await storage.getEventSession(req.params.sessionId);
+      if (!session || session.eventId !== managed.event.id) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      if (bookmarked) {
+        await storage.addSessionBookmark(session.id, managed.attendee.id);
+      } else {
+        await storage.removeSessionBookmark(session.id, managed.attendee.id);
+      }
+      res.json({ sessionId: session.id, bookmarked });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update bookmark" });
+    }
+  };
+
+  app.put("/api/manage/:token/bookmarks/:sessionId", (req, res) => updateSessionBookmark(req, res, true));
+  app.delete("/api/manage/:token/bookmarks/:sessionId", (req, res) => updateSessionBookmark(req, res, false));
+
+  // Email provider webhooks (public, verified by the provider's signature)
+  app.post("/api/webhooks/resend", async (req, res) => {
+    try {
+      emailWebhookService.verifyResend(req.rawBody as Buffer ?? Buffer.alloc(0), req.headers);
+      const matched = await emailWebhookService.processEvents(emailWebhookService.parseResendEvent(req.body));
+      res.json({ received: true, matched });
+    } catch (error) {
+      if (error instanceof WebhookVerificationError) {
+        return res.status(401).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to process Resend webhook" });
+    }
+  });
+
+  app.post("/api/webhooks/sendgrid", async (req, res) => {
+    try {
+      emailWebhookService.verifySendGrid(req.rawBody as Buffer ?? Buffer.alloc(0), req.headers);
+      const matched = await emailWebhookService.processEvents(emailWebhookService.parseSendGridEvents(req.body));
+      res.json({ received: true, matched });
+    } catch (error) {
+      if (error instanceof WebhookVerificationError) {
+        return res.status(401).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to process SendGrid webhook" });
+    }
+  });
+
   // Email tracking routes
   app.get("/api/track/open/:emailSendId", async (req, res) => {
     try {
@@ -496,6 +1632,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Development outbox: messages kept by the capture provider instead of being delivered
+  const requireEmailCapture = (_req: Request, res: Response, next: NextFunction) => {
+    if (!emailService.isCapturingEmail()) {
+      return res.status(404).json({ message: "Email capture is not enabled" });
+    }
+    next();
+  };
+
+  app.get("/api/dev/outbox", requireEmailCapture, async (req, res) => {
+    try {
+      const { to } = req.query;
+      let messages = await emailOutbox.list();
+      if (typeof to === "string" && to) {
+        messages = messages.filter(m => m.to.toLowerCase().includes(to.toLowerCase()));
+      }
+      res.json(messages);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch outbox" });
+    }
+  });
+
+  app.get("/api/dev/outbox/:id", requireEmailCapture, async (req, res) => {
+    try {
+      const message = await emailOutbox.get(req.params.id);
+      if (!message) {
+        return res.status(404).json({ message: "Captured email not found" });
+      }
+      res.json(message);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch captured email" });
+    }
+  });
+
+  app.delete("/api/dev/outbox", requireEmailCapture, requirePermission("campaigns:send"), async (req, res) => {
+    try {
+      await emailOutbox.clear();
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to clear outbox" });
+    }
+  });
+
+  // Resume sends and schedules that the previous process left unfinished
+  await schedulerService.rehydrate();
+
   const httpServer = createServer(app);
   return httpServer;
 }
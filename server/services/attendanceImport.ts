@@ -0,0 +1,258 @@
+import type { AttendanceImportResult, AttendancePlatform, Event, UnmatchedAttendanceRow } from "@shared/schema";
+import { storage } from "../storage";
+
+export class AttendanceImportError extends Error {}
+
+// Lowercased header names the webinar tools use for each column, in order of preference
+const columnNames = {
+  email: ["email", "user email", "attendee email", "email address", "participant id (upn)"],
+  name: ["user name (original name)", "name (original name)", "name", "full name", "attendee name", "display name"],
+  firstName: ["first name"],
+  lastName: ["last name"],
+  minutes: ["time in session (minutes)", "duration (minutes)", "in-meeting duration", "attendance duration", "duration"],
+  join: ["join time", "first join", "start time"],
+  leave: ["leave time", "last leave", "end time"],
+  attended: ["attended"],
+  role: ["role"],
+};
+
+// Headers only one tool's export has
+const platformSignatures: [Exclude<AttendancePlatform, "csv">, string[]][] = [
+  ["zoom", ["time in session (minutes)", "user name (original name)", "name (original name)", "duration (minutes)"]],
+  ["teams", ["in-meeting duration", "participant id (upn)", "first join"]],
+  ["webex", ["attendance duration", "attendee email"]],
+];
+
+// Zoom lists hosts and panelists, and Teams organizers and presenters, alongside attendees
+const STAFF_PATTERN = /host|panelist|organi[sz]er|presenter/i;
+
+type ReportTable = {
+  title: string;
+  header: string[];
+  // 1-based line in the file for each row
+  rows: { line: number; cells: string[] }[];
+};
+
+type ReportAttendee = {
+  line: number;
+  name: string;
+  email: string;
+  minutes: number | null;
+  attended: boolean;
+};
+
+// Teams saves reports as UTF-16 with a byte order mark; the others as UTF-8
+function decodeReport(report: Buffer): string {
+  if (report[0] === 0xff && report[1] === 0xfe) {
+    return report.subarray(2).toString("utf16le");
+  }
+  return report.toString("utf8").replace(/^\uFEFF/, "");
+}
+
+// RFC 4180 rows, with the delimiter (comma, or tab for Teams) given
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      quoted = true;
+      cell = "";
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Reports are made of titled sections ("Attendee Details", "2. Participants"),
+// each a header row followed by data rows up to the next blank line. Sections
+// without an email column (meeting summaries, activity logs) are left out.
+function findTables(rows: string[][]): ReportTable[] {
+  const tables: ReportTable[] = [];
+  let title = "";
+  let table: ReportTable | undefined;
+
+  rows.forEach((cells, index) => {
+    const filled = cells.filter(Boolean);
+    const normalized = cells.map(cell => cell.toLowerCase());
+
+    if (filled.length === 0) {
+      table = undefined;
+    } else if (normalized.some(cell => columnNames.email.includes(cell))) {
+      table = { title, header: normalized, rows: [] };
+      tables.push(table);
+    } else if (filled.length === 1 && !filled[0].includes("@")) {
+      title = filled[0];
+      table = undefined;
+    } else if (table) {
+      table.rows.push({ line: index + 1, cells });
+    }
+  });
+  return tables;
+}
+
+function detectPlatform(tables: ReportTable[]): AttendancePlatform {
+  const headers = new Set(tables.flatMap(table => table.header));
+  return platformSignatures.find(([, signature]) => signature.some(name => headers.has(name)))?.[0] ?? "csv";
+}
+
+// Minutes from "42", "42.5", "1h 2m 3s", "45 mins" or "01:02:03"
+function parseDuration(value: string): number | null {
+  const text = value.trim().toLowerCase();
+  if (!text) return null;
+  if (/^\d+(\.\d+)?$/.test(text)) return Number(text);
+
+  const clock = text.match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  if (clock) {
+    return Number(clock[1]) * 60 + Number(clock[2]) + Number(clock[3] ?? 0) / 60;
+  }
+
+  const unitMinutes: Record<string, number> = { h: 60, m: 1, s: 1 / 60 };
+  const parts = Array.from(text.matchAll(/(\d+(?:\.\d+)?)\s*(h|hrs?|hours?|m|mins?|minutes?|s|secs?|seconds?)\b/g));
+  if (parts.length === 0) return null;
+  return parts.reduce((total, [, amount, unit]) => total + Number(amount) * unitMinutes[unit[0]], 0);
+}
+
+function minutesBetween(join: string, leave: string): number | null {
+  const start = Date.parse(join);
+  const end = Date.parse(leave);
+  return isNaN(start) || isNaN(end) || end < start ? null : (end - start) / 60000;
+}
+
+// One entry per email: people who left and rejoined have a row per visit, and
+// their minutes add up. Someone listed again in a later section (Teams repeats
+// participants under "In-Meeting Activities") keeps the first section's figures.
+function readAttendees(tables: ReportTable[]): { attendees: ReportAttendee[]; missingEmail: UnmatchedAttendanceRow[] } {
+  const attendees = new Map<string, ReportAttendee>();
+  const missingEmail: UnmatchedAttendanceRow[] = [];
+
+  const attendeeTables = tables.filter(table => !STAFF_PATTERN.test(table.title));
+  for (const table of attendeeTables.length > 0 ? attendeeTables : tables) {
+    const earlierEmails = new Set(attendees.keys());
+    const columnIndex = (names: string[]) =>
+      names.map(name => table.header.indexOf(name)).find(index => index !== -1) ?? -1;
+    const read = (cells: string[], names: string[]) => {
+      const index = columnIndex(names);
+      return index === -1 ? "" : cells[index] ?? "";
+    };
+
+    for (const { line, cells } of table.rows) {
+      if (STAFF_PATTERN.test(read(cells, columnNames.role))) continue;
+
+      const name = read(cells, columnNames.name)
+        || [read(cells, columnNames.firstName), read(cells, columnNames.lastName)].filter(Boolean).join(" ");
+      const email = columnNames.email.map(column => read(cells, [column])).find(value => value.includes("@"))?.toLowerCase() ?? "";
+      if (!email) {
+        missingEmail.push({ line, name, email: "", reason: "No email address" });
+        continue;
+      }
+
+      const minutes = parseDuration(read(cells, columnNames.minutes))
+        ?? minutesBetween(read(cells, columnNames.join), read(cells, columnNames.leave));
+      const attended = read(cells, columnNames.attended).toLowerCase() !== "no";
+
+      if (earlierEmails.has(email)) continue;
+      const existing = attendees.get(email);
+      if (existing) {
+        existing.attended ||= attended;
+        if (minutes !== null) existing.minutes = (existing.minutes ?? 0) + minutes;
+      } else {
+        attendees.set(email, { line, name, email, minutes, attended });
+      }
+    }
+  }
+  return { attendees: Array.from(attendees.values()), missingEmail };
+}
+
+// Imports the attendance report a webinar tool exports after the event: each
+// attendee's registration is marked attended with the minutes they watched
+export class AttendanceImportService {
+  async importReport(event: Event, report: Buffer): Promise<AttendanceImportResult> {
+    const text = decodeReport(report);
+    const firstLines = text.split(/\r?\n/, 20).join("\n");
+    const delimiter = (firstLines.match(/\t/g)?.length ?? 0) > (firstLines.match(/,/g)?.length ?? 0) ? "\t" : ",";
+
+    const tables = findTables(parseDelimited(text, delimiter));
+    if (tables.length === 0) {
+      throw new AttendanceImportError("The report has no email column. Export the attendee or participant report with emails included.");
+    }
+
+    const { attendees, missingEmail } = readAttendees(tables);
+    const workspaceAttendees = new Map(
+      (await storage.getAttendees(event.workspaceId)).map(attendee => [attendee.email.toLowerCase(), attendee])
+    );
+    const registrations = await storage.getEventRegistrations(event.id);
+
+    const result: AttendanceImportResult = {
+      platform: detectPlatform(tables),
+      rows: attendees.length + missingEmail.length,
+      matched: 0,
+      absent: 0,
+      unmatched: [...missingEmail],
+    };
+
+    for (const row of attendees) {
+      const attendee = workspaceAttendees.get(row.email);
+      if (!attendee) {
+        result.unmatched.push({ line: row.line, name: row.name, email: row.email, reason: "No attendee with this email" });
+        continue;
+      }
+      // Someone who cancelled and signed up again has both registrations; only
+      // a confirmed one can be marked attended
+      const attendeeRegistrations = registrations.filter(r => r.attendeeId === attendee.id);
+      const registration = attendeeRegistrations.find(r => r.status === "registered");
+      if (!registration) {
+        // Registrations come newest first
+        const reason = attendeeRegistrations.length > 0
+          ? `Registration is ${attendeeRegistrations[0].status}, not confirmed`
+          : "Not registered for this event";
+        result.unmatched.push({ line: row.line, name: row.name, email: row.email, reason });
+        continue;
+      }
+      if (!row.attended) {
+        result.absent++;
+        continue;
+      }
+
+      // Importing the same report again replaces the minutes; only the first
+      // import marks the registration attended, which records the "attendance"
+      // analytics event
+      await storage.updateEventRegistration(registration.id, {
+        ...(!registration.attended && { attended: true }),
+        attendanceTime: row.minutes === null ? registration.attendanceTime : Math.round(row.minutes),
+      });
+      result.matched++;
+    }
+
+    result.unmatched.sort((a, b) => a.line - b.line);
+    return result;
+  }
+}
+
+export const attendanceImportService = new AttendanceImportService();
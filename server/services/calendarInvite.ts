@@ -0,0 +1,180 @@
+import type { Attendee, Event } from "@shared/schema";
+import { timeZoneOffset } from "@shared/recurrence";
+import { appUrl } from "../signedLinks";
+import type { EmailAttachment } from "./emailService";
+
+// iCalendar (RFC 5545) invites attached to registration and reminder emails.
+//
+// Every invite for an event shares one UID, so calendar clients treat later
+// invites as updates to the same entry and a CANCEL removes it. SEQUENCE is
+// taken from the event's updatedAt, which only grows, so a newer invite always
+// wins over one the attendee already imported.
+//
+// Start and end are written in the event's timezone (DTSTART;TZID=...) with a
+// VTIMEZONE describing that zone's offsets around the event, so calendars keep
+// the local time the organizer chose. Events in UTC are written in UTC.
+
+const ORGANIZER_EMAIL = "events@eventboost.com";
+const DEFAULT_DURATION_MS = 60 * 60 * 1000;
+
+export type InviteMethod = "REQUEST" | "CANCEL";
+
+export function eventInviteUid(event: Event): string {
+  return `event-${event.id}@${new URL(appUrl("/")).hostname}`;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Wall-clock time in the zone, as a floating DATE-TIME (no trailing Z)
+function formatLocal(date: Date, timeZone: string): string {
+  return formatUtc(new Date(date.getTime() + timeZoneOffset(date, timeZone))).slice(0, -1);
+}
+
+function formatOffset(offsetMs: number): string {
+  const minutes = Math.round(Math.abs(offsetMs) / 60000);
+  const hhmm = `${String(Math.floor(minutes / 60)).padStart(2, "0")}${String(minutes % 60).padStart(2, "0")}`;
+  return `${offsetMs < 0 ? "-" : "+"}${hhmm}`;
+}
+
+const MINUTE_MS = 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * MINUTE_MS;
+
+// The zone's offset changes between from and to, found week by week and then
+// narrowed to the minute
+function offsetTransitions(from: Date, to: Date, timeZone: string): { at: Date; offsetFrom: number; offsetTo: number }[] {
+  const transitions: { at: Date; offsetFrom: number; offsetTo: number }[] = [];
+  let previous = from.getTime();
+  let previousOffset = timeZoneOffset(from, timeZone);
+
+  for (let time = previous + WEEK_MS; previous < to.getTime(); time += WEEK_MS) {
+    const offset = timeZoneOffset(new Date(time), timeZone);
+    if (offset !== previousOffset) {
+      let low = previous;
+      let high = time;
+      while (high - low > MINUTE_MS) {
+        const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+        if (timeZoneOffset(new Date(middle), timeZone) === previousOffset) low = middle;
+        else high = middle;
+      }
+      transitions.push({ at: new Date(high), offsetFrom: previousOffset, offsetTo: offset });
+    }
+    previous = time;
+    previousOffset = offset;
+  }
+  return transitions;
+}
+
+// Observances from the start of the event's year to the end of the year it
+// ends in: the offset in force on January 1st, then each change
+function buildTimeZone(timeZone: string, start: Date, end: Date): string[] {
+  const from = new Date(Date.UTC(start.getUTCFullYear(), 0, 1));
+  const to = new Date(Date.UTC(end.getUTCFullYear() + 1, 0, 1));
+  const initial = timeZoneOffset(from, timeZone);
+  const transitions = offsetTransitions(from, to, timeZone);
+  const standard = Math.min(initial, ...transitions.map(t => t.offsetTo));
+
+  const observance = (at: Date, offsetFrom: number, offsetTo: number) => {
+    const kind = offsetTo > standard ? "DAYLIGHT" : "STANDARD";
+    return [
+      `BEGIN:${kind}`,
+      // Observance starts are local times in the offset being left
+      `DTSTART:${formatUtc(new Date(at.getTime() + offsetFrom)).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`,
+    ];
+  };
+
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timeZone}`,
+    ...observance(from, initial, initial),
+    ...transitions.flatMap(t => observance(t.at, t.offsetFrom, t.offsetTo)),
+    "END:VTIMEZONE",
+  ];
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Parameter values can't be backslash-escaped; ones with separators are quoted instead
+function quoteParam(value: string): string {
+  return `"${value.replace(/["\r\n]/g, "")}"`;
+}
+
+// Content lines are limited to 75 octets; longer ones continue on lines
+// starting with a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of Array.from(line)) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, "utf8") > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+// A cancelled event only ever produces cancellations
+function effectiveMethod(event: Event, method: InviteMethod): InviteMethod {
+  return event.status === "cancelled" ? "CANCEL" : method;
+}
+
+export function buildEventInvite(event: Event, attendee: Attendee, method: InviteMethod = "REQUEST"): string {
+  const start = new Date(event.startDate);
+  const end = event.endDate ? new Date(event.endDate) : new Date(start.getTime() + DEFAULT_DURATION_MS);
+  const sequence = Math.floor(new Date(event.updatedAt ?? event.createdAt ?? start).getTime() / 1000);
+  const cancelled = effectiveMethod(event, method) === "CANCEL";
+  const timeZone = event.timezone && event.timezone !== "UTC" ? event.timezone : null;
+  const formatTime = (name: string, date: Date) => timeZone
+    ? `${name};TZID=${timeZone}:${formatLocal(date, timeZone)}`
+    : `${name}:${formatUtc(date)}`;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//EventBoost//Event Invites//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${cancelled ? "CANCEL" : "REQUEST"}`,
+    ...(timeZone ? buildTimeZone(timeZone, start, end) : []),
+    "BEGIN:VEVENT",
+    `UID:${eventInviteUid(event)}`,
+    `SEQUENCE:${sequence}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    formatTime("DTSTART", start),
+    formatTime("DTEND", end),
+    `SUMMARY:${escapeText(event.title)}`,
+    event.description ? `DESCRIPTION:${escapeText(event.description)}` : "",
+    event.location ? `LOCATION:${escapeText(event.location)}` : "",
+    `ORGANIZER;CN=EventBoost:mailto:${ORGANIZER_EMAIL}`,
+    `ATTENDEE;CN=${quoteParam(attendee.name)};ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE:mailto:${attendee.email}`,
+    `STATUS:${cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    "TRANSP:OPAQUE",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return lines.filter(Boolean).map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function eventInviteAttachment(event: Event, attendee: Attendee, method: InviteMethod = "REQUEST"): EmailAttachment {
+  return {
+    filename: "invite.ics",
+    content: buildEventInvite(event, attendee, method),
+    contentType: `text/calendar; charset=utf-8; method=${effectiveMethod(event, method)}`,
+  };
+}
@@ -0,0 +1,116 @@
+import QRCode from "qrcode";
+import type { Attendee, CheckInCounts, CheckInResult, Event, EventRegistration } from "@shared/schema";
+import { storage } from "../storage";
+import { shortCode, signToken, verifyToken } from "../signedLinks";
+
+const CHECK_IN_TOKEN_PURPOSE = "registration-check-in";
+
+export type CheckInToken = {
+  registrationId: string;
+};
+
+export class CheckInError extends Error {}
+
+// Registrants check in at the door with the QR code from their confirmation
+// email, or by reading out the short code printed under it
+export class CheckInService {
+  createCheckInToken(registration: EventRegistration): string {
+    return signToken(CHECK_IN_TOKEN_PURPOSE, { registrationId: registration.id });
+  }
+
+  verifyCheckInToken(token: string): CheckInToken | undefined {
+    return verifyToken<CheckInToken>(CHECK_IN_TOKEN_PURPOSE, token);
+  }
+
+  getCheckInCode(registration: EventRegistration): string {
+    return shortCode(CHECK_IN_TOKEN_PURPOSE, registration.id);
+  }
+
+  // PNG of the QR code, which holds the signed token itself
+  renderQrCode(token: string): Promise<Buffer> {
+    return QRCode.toBuffer(token, { width: 240, margin: 2 });
+  }
+
+  // The event's registration for a scanned token or a typed short code. Case,
+  // spaces and dashes in typed codes don't matter.
+  async resolveCode(event: Event, code: string): Promise<EventRegistration | undefined> {
+    const registrations = await storage.getEventRegistrations(event.id);
+
+    if (code.includes(".")) {
+      const payload = this.verifyCheckInToken(code.trim());
+      return payload ? registrations.find(r => r.id === payload.registrationId) : undefined;
+    }
+
+    const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+    if (!normalized) return undefined;
+    return registrations.find(r => this.getCheckInCode(r).replace("-", "") === normalized);
+  }
+
+  // Records an arrival. Checking in again after leaving starts a new visit;
+  // scanning while already inside changes nothing.
+  async checkIn(registration: EventRegistration, attendee: Attendee): Promise<CheckInResult> {
+    if (registration.status !== "registered") {
+      throw new CheckInError(`${attendee.name}'s registration is ${registration.status}, not confirmed`);
+    }
+
+    if (registration.checkedInAt && !registration.checkedOutAt) {
+      return this.result(registration, attendee, true);
+    }
+
+    // Marking the registration attended records the "attendance" analytics event
+    const updated = await storage.updateEventRegistration(registration.id, {
+      attended: true,
+      checkedInAt: new Date(),
+      checkedOutAt: null,
+    });
+    return this.result(updated!, attendee, false);
+  }
+
+  // Records a departure and adds the visit to the registration's attendance time
+  async checkOut(registration: EventRegistration, attendee: Attendee): Promise<CheckInResult> {
+    if (!registration.checkedInAt) {
+      throw new CheckInError(`${attendee.name} hasn't checked in`);
+    }
+
+    if (registration.checkedOutAt) {
+      return this.result(registration, attendee, true);
+    }
+
+    const checkedOutAt = new Date();
+    const visitMinutes = Math.round((checkedOutAt.getTime() - new Date(registration.checkedInAt).getTime()) / 60000);
+    const attendanceTime = (registration.attendanceTime ?? 0) + visitMinutes;
+    const updated = await storage.updateEventRegistration(registration.id, { checkedOutAt, attendanceTime });
+
+    const event = await storage.getEvent(registration.eventId);
+    await storage.createAnalyticsEvent({
+      workspaceId: event!.workspaceId,
+      eventType: "attendance",
+      attendeeId: registration.attendeeId,
+      eventId: registration.eventId,
+      metadata: { registrationId: registration.id, action: "check_out", checkedOutAt, attendanceTime },
+    });
+
+    return this.result(updated!, attendee, false);
+  }
+
+  async getCounts(eventId: string): Promise<CheckInCounts> {
+    const registrations = await storage.getEventRegistrations(eventId);
+    return {
+      registered: registrations.filter(r => r.status === "registered").length,
+      checkedIn: registrations.filter(r => r.checkedInAt && !r.checkedOutAt).length,
+      attended: registrations.filter(r => r.attended).length,
+    };
+  }
+
+  private async result(registration: EventRegistration, attendee: Attendee, unchanged: boolean): Promise<CheckInResult> {
+    return {
+      registration,
+      attendeeName: attendee.name,
+      attendeeEmail: attendee.email,
+      unchanged,
+      counts: await this.getCounts(registration.eventId),
+    };
+  }
+}
+
+export const checkInService = new CheckInService();
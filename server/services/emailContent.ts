@@ -0,0 +1,98 @@
+import juice from "juice";
+import sanitizeHtml from "sanitize-html";
+import { convert } from "html-to-text";
+
+export type EmailBody = {
+  html: string;
+  text: string;
+};
+
+// Outlook-only markup such as the fixed-width ghost tables the block builder
+// emits. Kept through sanitizing as long as it only contains layout tags.
+const CONDITIONAL_COMMENT = /<!--\[if [^\]]+\]>([\s\S]*?)<!\[endif\]-->/gi;
+const SAFE_CONDITIONAL_BODY = /^(?:[^<]*<\/?(?:table|tr|td|style)\b[^<>]*>)*[^<]*$/i;
+const DANGEROUS_CSS = /expression\s*\(|javascript:|behavior\s*:|-moz-binding/i;
+
+const sanitizeOptions: sanitizeHtml.IOptions = {
+  allowedTags: [
+    "html", "head", "meta", "title", "style", "body",
+    "div", "span", "p", "br", "hr", "center", "font",
+    "h1", "h2", "h3", "h4", "h5", "h6",
+    "a", "img",
+    "table", "thead", "tbody", "tfoot", "tr", "td", "th", "caption", "colgroup", "col",
+    "strong", "b", "em", "i", "u", "s", "small", "sup", "sub",
+    "blockquote", "pre", "code", "ul", "ol", "li", "dl", "dt", "dd",
+  ],
+  allowedAttributes: {
+    "*": [
+      "style", "class", "id", "align", "valign", "width", "height", "bgcolor", "border",
+      "cellpadding", "cellspacing", "role", "dir", "lang", "title", "colspan", "rowspan",
+      "color", "face", "size",
+    ],
+    html: ["xmlns"],
+    meta: ["charset", "name", "content"],
+    a: ["href", "target", "rel", "name"],
+    img: ["src", "alt"],
+  },
+  allowedSchemes: ["http", "https", "mailto", "tel"],
+  allowedSchemesByTag: { img: ["http", "https", "cid", "data"] },
+  // <style> only survives for the media queries the inliner leaves behind
+  allowVulnerableTags: true,
+  exclusiveFilter: (frame) => frame.tag === "style" && DANGEROUS_CSS.test(frame.text),
+  transformTags: {
+    "*": (tagName, attribs) => {
+      if (attribs.style && DANGEROUS_CSS.test(attribs.style)) {
+        const { style: _style, ...rest } = attribs;
+        return { tagName, attribs: rest };
+      }
+      return { tagName, attribs };
+    },
+  },
+};
+
+export function sanitizeEmailHtml(html: string): string {
+  const comments: string[] = [];
+  const protectedHtml = html.replace(CONDITIONAL_COMMENT, (comment, body: string) => {
+    if (!SAFE_CONDITIONAL_BODY.test(body) || /\bon\w+\s*=|javascript:/i.test(body)) return "";
+    comments.push(comment);
+    return `%%conditional-comment-${comments.length - 1}%%`;
+  });
+
+  // The doctype keeps clients out of quirks mode but isn't a tag the sanitizer passes through
+  const doctype = /^\s*<!DOCTYPE html>/i.test(html) ? "<!DOCTYPE html>" : "";
+  return doctype + sanitizeHtml(protectedHtml, sanitizeOptions)
+    .replace(/%%conditional-comment-(\d+)%%/g, (_match, index: string) => comments[Number(index)] ?? "");
+}
+
+// Gmail and Outlook drop or ignore most <style> rules, so they are copied onto
+// each element; media queries can't be inlined and stay in the head
+export function inlineEmailCss(html: string): string {
+  return juice(html, {
+    preserveMediaQueries: true,
+    preserveImportant: true,
+    applyWidthAttributes: true,
+    applyAttributesTableElements: true,
+  });
+}
+
+export function htmlToPlainText(html: string): string {
+  return convert(html, {
+    wordwrap: 78,
+    selectors: [
+      { selector: "img", format: "skip" },
+      { selector: "a", options: { hideLinkHrefIfSameAsText: true } },
+      // Layout tables flow as text; tables of data keep their rows and columns
+      { selector: "table.data-table", format: "dataTable" },
+    ],
+  }).trim();
+}
+
+// Final HTML and plain-text parts for a rendered message. A text part written
+// alongside the design is used as is; otherwise it is derived from the HTML.
+export function prepareEmailBody(html: string, text?: string | null): EmailBody {
+  const safeHtml = inlineEmailCss(sanitizeEmailHtml(html));
+  return {
+    html: safeHtml,
+    text: text?.trim() || htmlToPlainText(safeHtml),
+  };
+}
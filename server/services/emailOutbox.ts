@@ -0,0 +1,76 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { CapturedEmail } from "@shared/schema";
+
+// Oldest captured messages are dropped beyond this so a long-running dev server
+// doesn't grow without bound
+const MAX_CAPTURED_EMAILS = 500;
+
+// Holds the messages the capture provider "sent". With EMAIL_CAPTURE_DIR set each
+// message is also written there as JSON, so the outbox survives restarts and can
+// be shared between QA machines; otherwise it lives only in memory.
+export class EmailOutbox {
+  private messages: CapturedEmail[] = [];
+  private loaded: Promise<void>;
+
+  constructor(private directory = process.env.EMAIL_CAPTURE_DIR) {
+    this.loaded = this.loadFromDisk();
+  }
+
+  async add(message: CapturedEmail): Promise<void> {
+    await this.loaded;
+    this.messages.unshift(message);
+
+    const dropped = this.messages.splice(MAX_CAPTURED_EMAILS);
+    if (this.directory) {
+      await fs.writeFile(this.filePath(message.id), JSON.stringify(message, null, 2));
+      await Promise.all(dropped.map(m => fs.rm(this.filePath(m.id), { force: true })));
+    }
+  }
+
+  // Newest first
+  async list(): Promise<CapturedEmail[]> {
+    await this.loaded;
+    return this.messages;
+  }
+
+  async get(id: string): Promise<CapturedEmail | undefined> {
+    await this.loaded;
+    return this.messages.find(m => m.id === id);
+  }
+
+  async clear(): Promise<void> {
+    await this.loaded;
+    const cleared = this.messages;
+    this.messages = [];
+    if (this.directory) {
+      await Promise.all(cleared.map(m => fs.rm(this.filePath(m.id), { force: true })));
+    }
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory!, `${id}.json`);
+  }
+
+  private async loadFromDisk(): Promise<void> {
+    if (!this.directory) return;
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      const files = (await fs.readdir(this.directory)).filter(file => file.endsWith(".json"));
+      for (const file of files) {
+        try {
+          const content = await fs.readFile(path.join(this.directory, file), "utf8");
+          this.messages.push(JSON.parse(content) as CapturedEmail);
+        } catch (error) {
+          console.error(`Skipping unreadable captured email ${file}:`, error);
+        }
+      }
+      this.messages.sort((a, b) => b.capturedAt.localeCompare(a.capturedAt));
+    } catch (error) {
+      console.error("Failed to load captured emails:", error);
+    }
+  }
+}
+
+export const emailOutbox = new EmailOutbox();
@@ -1,12 +1,138 @@
-import type { EmailCampaign, EmailTemplate, Attendee, Event } from "@shared/schema";
+import { randomUUID } from "crypto";
+import nodemailer, { type Transporter } from "nodemailer";
+import type { EmailCampaign, EmailTemplate, EmailSend, Attendee, Event, EventRegistration, ContentPreview } from "@shared/schema";
+import {
+  renderTemplate,
+  formatTemplateDate,
+  formatTemplateTime,
+  TemplateSyntaxError,
+  type TemplateContext,
+} from "@shared/templateEngine";
 import { storage } from "../storage";
 import { aiPersonalizationService } from "./aiPersonalization";
+import { signToken, verifyToken, appUrl } from "../signedLinks";
+import { emailOutbox } from "./emailOutbox";
+import { prepareEmailBody } from "./emailContent";
+import { eventInviteAttachment } from "./calendarInvite";
+import { eventAgendaService } from "./eventAgenda";
+import { checkInService } from "./checkIn";
+import { registrationAnswerMatches } from "@shared/registrationFields";
+
+// messageId is the provider's ID for the message, used to match delivery webhooks.
+// Rejected sends carry the provider's error; retryable is false when sending the
+// same message again cannot succeed (invalid recipient, bad request).
+export type SendResult = {
+  accepted: boolean;
+  messageId?: string;
+  errorCode?: string;
+  errorMessage?: string;
+  retryable?: boolean;
+};
+
+// Rate limits and provider outages are worth retrying, other rejections are not
+async function rejectedResult(response: Response): Promise<SendResult> {
+  let errorCode = `http_${response.status}`;
+  let errorMessage = response.statusText;
+  try {
+    const body = await response.json() as any;
+    const error = Array.isArray(body?.errors) ? body.errors[0] : body;
+    errorCode = error?.name || error?.field || errorCode;
+    errorMessage = error?.message || errorMessage;
+  } catch {
+    // Non-JSON error body; keep the HTTP status
+  }
+
+  return {
+    accepted: false,
+    errorCode,
+    errorMessage,
+    retryable: response.status === 429 || response.status >= 500,
+  };
+}
+
+function networkErrorResult(error: unknown): SendResult {
+  return {
+    accepted: false,
+    errorCode: "network_error",
+    errorMessage: error instanceof Error ? error.message : String(error),
+    retryable: true,
+  };
+}
+
+export type EmailAttachment = {
+  filename: string;
+  content: string | Buffer;
+  contentType: string;
+};
+
+// A fully rendered message; html is already sanitized and text is its plain-text alternative
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+  attachments?: EmailAttachment[];
+};
+
+// The HTTP APIs take attachment bodies base64-encoded
+const toBase64 = (content: string | Buffer) => Buffer.from(content).toString("base64");
 
 // Email service interface for different providers
 interface EmailProvider {
-  sendEmail(to: string, subject: string, content: string): Promise<boolean>;
+  sendEmail(message: EmailMessage): Promise<SendResult>;
 }
 
+const UNSUBSCRIBE_TOKEN_PURPOSE = "unsubscribe";
+const MANAGE_REGISTRATION_TOKEN_PURPOSE = "manage-registration";
+
+export type UnsubscribeToken = {
+  attendeeId: string;
+  campaignId: string;
+};
+
+export type ManageRegistrationToken = {
+  registrationId: string;
+};
+
+// Appended to registration confirmations that don't place {{manageRegistrationLink}} themselves
+const MANAGE_REGISTRATION_FOOTER = `
+<p style="font-size: 14px; margin-top: 24px;">
+  Can't make it, or need to update your details?
+  <a href="{{manageRegistrationLink}}">Manage your registration</a>
+</p>`;
+
+const MANAGE_REGISTRATION_FOOTER_TEXT = `
+
+Can't make it, or need to update your details? Manage your registration: {{manageRegistrationLink}}`;
+
+// Appended to registration confirmations that don't place {{checkInQrCode}} themselves;
+// empty until the registration holds a seat
+const CHECK_IN_BLOCK = `
+{{#if checkInQrCode}}
+<div style="text-align: center; margin-top: 24px;">
+  <p style="font-size: 14px; margin: 0 0 8px;">Show this code at the door to check in:</p>
+  <img src="{{checkInQrCode}}" alt="Check-in QR code" width="200" height="200">
+  <p style="font-size: 16px; font-family: monospace; letter-spacing: 2px; margin: 8px 0 0;">{{checkInCode}}</p>
+</div>
+{{/if}}`;
+
+const CHECK_IN_BLOCK_TEXT = `{{#if checkInCode}}
+
+Your check-in code: {{checkInCode}}{{/if}}`;
+
+// Appended to campaign content that doesn't place {{unsubscribeLink}} itself
+const UNSUBSCRIBE_FOOTER = `
+<p style="font-size: 12px; color: #6b7280; margin-top: 32px;">
+  You are receiving this email because you registered for an EventBoost event.
+  <a href="{{unsubscribeLink}}" style="color: #6b7280;">Unsubscribe or manage email preferences</a>
+</p>`;
+
+const UNSUBSCRIBE_FOOTER_TEXT = `
+
+You are receiving this email because you registered for an EventBoost event.
+Unsubscribe or manage email preferences: {{unsubscribeLink}}`;
+
 // Resend implementation
 class ResendProvider implements EmailProvider {
   private apiKey: string;
@@ -15,7 +141,7 @@ class ResendProvider implements EmailProvider {
     this.apiKey = process.env.RESEND_API_KEY || process.env.RESEND_API_KEY_ENV_VAR || "";
   }
 
-  async sendEmail(to: string, subject: string, content: string): Promise<boolean> {
+  async sendEmail({ to, subject, html, text, headers, attachments }: EmailMessage): Promise<SendResult> {
     try {
       const response = await fetch("https://api.resend.com/emails", {
         method: "POST",
@@ -27,14 +153,25 @@ class ResendProvider implements EmailProvider {
           from: "EventBoost <events@eventboost.com>",
           to: [to],
           subject,
-          html: content,
+          html,
+          text,
+          headers,
+          attachments: attachments?.map(attachment => ({
+            filename: attachment.filename,
+            content: toBase64(attachment.content),
+            content_type: attachment.contentType,
+          })),
         }),
       });
 
-      return response.ok;
+      if (!response.ok) {
+        return await rejectedResult(response);
+      }
+      const { id } = await response.json() as { id?: string };
+      return { accepted: true, messageId: id };
     } catch (error) {
       console.error("Resend email failed:", error);
-      return false;
+      return networkErrorResult(error);
     }
   }
 }
@@ -47,7 +184,7 @@ class SendGridProvider implements EmailProvider {
     this.apiKey = process.env.SENDGRID_API_KEY || process.env.SENDGRID_API_KEY_ENV_VAR || "";
   }
 
-  async sendEmail(to: string, subject: string, content: string): Promise<boolean> {
+  async sendEmail({ to, subject, html, text, headers, attachments }: EmailMessage): Promise<SendResult> {
     try {
       const response = await fetch("https://api.sendgrid.com/v3/mail/send", {
         method: "POST",
@@ -61,28 +198,123 @@ class SendGridProvider implements EmailProvider {
             subject,
           }],
           from: { email: "events@eventboost.com", name: "EventBoost" },
-          content: [{
-            type: "text/html",
-            value: content,
-          }],
+          // SendGrid requires the plain-text part first
+          content: [
+            { type: "text/plain", value: text },
+            { type: "text/html", value: html },
+          ],
+          headers,
+          attachments: attachments?.map(attachment => ({
+            filename: attachment.filename,
+            content: toBase64(attachment.content),
+            type: attachment.contentType,
+            disposition: "attachment",
+          })),
         }),
       });
 
-      return response.ok;
+      if (!response.ok) {
+        return await rejectedResult(response);
+      }
+      return {
+        accepted: true,
+        messageId: response.headers.get("x-message-id") ?? undefined,
+      };
     } catch (error) {
       console.error("SendGrid email failed:", error);
-      return false;
+      return networkErrorResult(error);
     }
   }
 }
 
+// SMTP implementation for relays and environments that can't reach the HTTP APIs
+class SmtpProvider implements EmailProvider {
+  private transporter: Transporter;
+  private from: string;
+
+  constructor() {
+    const port = Number(process.env.SMTP_PORT) || 587;
+    this.from = process.env.SMTP_FROM || "EventBoost <events@eventboost.com>";
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      // Implicit TLS on 465; other ports upgrade with STARTTLS when the server offers it
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+      tls: process.env.SMTP_TLS_REJECT_UNAUTHORIZED === "false"
+        ? { rejectUnauthorized: false }
+        : undefined,
+    });
+  }
+
+  async sendEmail({ to, subject, html, text, headers, attachments }: EmailMessage): Promise<SendResult> {
+    try {
+      const info = await this.transporter.sendMail({
+        from: this.from,
+        to,
+        subject,
+        html,
+        text,
+        headers,
+        attachments,
+      });
+      return { accepted: true, messageId: info.messageId };
+    } catch (error: any) {
+      console.error("SMTP email failed:", error);
+      // 4xx replies and dropped connections are temporary; 5xx replies, bad
+      // credentials and rejected envelopes will fail the same way again
+      const responseCode: number | undefined = error?.responseCode;
+      const permanent = (responseCode !== undefined && responseCode >= 500)
+        || error?.code === "EAUTH"
+        || error?.code === "EENVELOPE";
+      return {
+        accepted: false,
+        errorCode: responseCode ? `smtp_${responseCode}` : error?.code || "smtp_error",
+        errorMessage: error instanceof Error ? error.message : String(error),
+        retryable: !permanent,
+      };
+    }
+  }
+}
+
+// Development provider that keeps the fully rendered message for the outbox viewer
+class CaptureProvider implements EmailProvider {
+  async sendEmail({ to, subject, html, text, headers, attachments }: EmailMessage): Promise<SendResult> {
+    const id = `capture-${randomUUID()}`;
+    await emailOutbox.add({
+      id,
+      to,
+      from: "EventBoost <events@eventboost.com>",
+      subject,
+      html,
+      text,
+      headers: headers ?? {},
+      attachments: attachments?.map(attachment => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        content: toBase64(attachment.content),
+      })),
+      capturedAt: new Date().toISOString(),
+    });
+    return { accepted: true, messageId: id };
+  }
+}
+
 // Mock provider for development
 class MockProvider implements EmailProvider {
-  async sendEmail(to: string, subject: string, content: string): Promise<boolean> {
+  async sendEmail({ to, subject, html, text, headers, attachments }: EmailMessage): Promise<SendResult> {
     console.log(`Mock email sent to ${to}:`);
     console.log(`Subject: ${subject}`);
-    console.log(`Content: ${content.substring(0, 100)}...`);
-    return true;
+    if (headers) {
+      console.log(`Headers: ${JSON.stringify(headers)}`);
+    }
+    if (attachments?.length) {
+      console.log(`Attachments: ${attachments.map(attachment => attachment.filename).join(", ")}`);
+    }
+    console.log(`Content: ${text.substring(0, 100)}...`);
+    return { accepted: true, messageId: `mock-${randomUUID()}` };
   }
 }
 
@@ -90,33 +322,61 @@ export class EmailService {
   private provider: EmailProvider;
 
   constructor() {
-    // Choose provider based on available API keys
+    this.provider = this.createProvider();
+  }
+
+  // EMAIL_PROVIDER forces a provider; otherwise choose based on available credentials
+  private createProvider(): EmailProvider {
+    switch (process.env.EMAIL_PROVIDER) {
+      case "resend": return new ResendProvider();
+      case "sendgrid": return new SendGridProvider();
+      case "smtp": return new SmtpProvider();
+      case "capture": return new CaptureProvider();
+      case "mock": return new MockProvider();
+    }
+
     if (process.env.RESEND_API_KEY || process.env.RESEND_API_KEY_ENV_VAR) {
-      this.provider = new ResendProvider();
+      return new ResendProvider();
     } else if (process.env.SENDGRID_API_KEY || process.env.SENDGRID_API_KEY_ENV_VAR) {
-      this.provider = new SendGridProvider();
-    } else {
-      this.provider = new MockProvider();
+      return new SendGridProvider();
+    } else if (process.env.SMTP_HOST) {
+      return new SmtpProvider();
+    } else if (process.env.NODE_ENV === "development") {
+      return new CaptureProvider();
     }
+    return new MockProvider();
+  }
+
+  // The dev outbox routes are only served when messages are being captured
+  isCapturingEmail(): boolean {
+    return this.provider instanceof CaptureProvider;
   }
 
-  async sendCampaignEmail(campaign: EmailCampaign, attendee: Attendee): Promise<boolean> {
+  // Delivers one campaign email and records the outcome on the recipient's email send
+  async sendCampaignEmail(campaign: EmailCampaign, attendee: Attendee): Promise<SendResult> {
     try {
-      // Get the template
-      const template = campaign.templateId 
-        ? await storage.getEmailTemplate(campaign.templateId)
-        : null;
+      // Get the template as it was when the campaign was created
+      const template = await this.getCampaignTemplate(campaign);
 
       // Get event details if applicable
       const event = campaign.eventId 
-        ? await storage.getEvent(campaign.eventId)
+        ? await storage.getEvent(campaign.eventId, campaign.workspaceId)
         : undefined;
 
       let subject = campaign.subject;
       let content = campaign.content;
-
-      // Apply AI personalization if template exists
-      if (template) {
+      // Written plain-text part; derived from the HTML when there isn't one
+      let text: string | null = null;
+
+      // Block-built layouts go out as designed; personalization would rewrite the markup.
+      // Content edited on the campaign itself wins over the template's, with its
+      // plain-text part derived from it.
+      if (template?.design) {
+        if (!campaign.content.trim() || campaign.content === template.content) {
+          content = template.content;
+          text = template.textContent;
+        }
+      } else if (template) {
         try {
           const personalized = await aiPersonalizationService.personalizeEmailContent({
             attendee,
@@ -131,105 +391,206 @@ export class EmailService {
         }
       }
 
-      // Apply template variables
-      subject = this.applyTemplateVariables(subject, attendee, event);
-      content = this.applyTemplateVariables(content, attendee, event);
+      // Templates written as plain text keep their line breaks in the HTML part
+      if (!/<[a-z][^>]*>/i.test(content)) {
+        content = content.replace(/\r?\n/g, "<br>\n");
+      }
+
+      const confirmsRegistration = campaign.type === "welcome" || campaign.type === "waitlist-promotion" || campaign.type === "registration-approved";
+      if (confirmsRegistration && !/\{\{\{?\s*checkInQrCode\b/.test(content)) {
+        content = content.includes("</body>")
+          ? content.replace("</body>", `${CHECK_IN_BLOCK}</body>`)
+          : content + CHECK_IN_BLOCK;
+        if (text) text += CHECK_IN_BLOCK_TEXT;
+      }
+
+      if (confirmsRegistration && !/\{\{\{?\s*manageRegistrationLink\b/.test(content)) {
+        content = content.includes("</body>")
+          ? content.replace("</body>", `${MANAGE_REGISTRATION_FOOTER}</body>`)
+          : content + MANAGE_REGISTRATION_FOOTER;
+        if (text) text += MANAGE_REGISTRATION_FOOTER_TEXT;
+      }
+
+      if (!/\{\{\{?\s*unsubscribeLink\b/.test(content)) {
+        content = content.includes("</body>")
+          ? content.replace("</body>", `${UNSUBSCRIBE_FOOTER}</body>`)
+          : content + UNSUBSCRIBE_FOOTER;
+        if (text) text += UNSUBSCRIBE_FOOTER_TEXT;
+      }
+
+      // Render template variables, blocks and filters
+      const context = await this.buildTemplateContext(attendee, event, campaign);
+      const timeZone = event?.timezone ?? undefined;
+      subject = renderTemplate(subject, context, { escapeHtml: false, timeZone });
+      content = renderTemplate(content, context, { timeZone });
+      const body = prepareEmailBody(content, text && renderTemplate(text, context, { escapeHtml: false, timeZone }));
+
+      // One-click unsubscribe (RFC 8058) posts straight to the API
+      const unsubscribeToken = this.createUnsubscribeToken(attendee, campaign);
+      const headers = {
+        "List-Unsubscribe": `<${appUrl(`/api/unsubscribe/${unsubscribeToken}`)}>`,
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+      };
 
       // Send the email
-      const success = await this.provider.sendEmail(attendee.email, subject, content);
+      // Registration, reminder, update, promotion and approval emails carry an invite so attendees
+      // can add the event to their calendar, or have it updated or removed there
+      const attachments = event && (campaign.type === "welcome" || campaign.type === "reminder" || campaign.type === "event-update" || campaign.type === "waitlist-promotion" || campaign.type === "registration-approved")
+        ? [eventInviteAttachment(event, attendee)]
+        : undefined;
 
-      if (success) {
-        // Track the send
-        await storage.createEmailSend({
-          campaignId: campaign.id,
-          attendeeId: attendee.id,
+      const result = await this.provider.sendEmail({
+        to: attendee.email,
+        subject,
+        html: body.html,
+        text: body.text,
+        headers,
+        attachments,
+      });
+      const send = await this.getOrCreateEmailSend(campaign.id, attendee.id);
+
+      if (result.accepted) {
+        await storage.updateEmailSend(send.id, {
+          status: "sent",
+          providerMessageId: result.messageId ?? null,
           sentAt: new Date(),
-          openedAt: null,
-          clickedAt: null,
-          bounced: false,
-          unsubscribed: false,
+          errorCode: null,
+          errorMessage: null,
         });
 
         // Update attendee's last activity
         await storage.updateAttendee(attendee.id, {
           lastActivity: new Date(),
         });
+      } else {
+        // Stays "queued" while the queue worker may still retry it
+        await storage.updateEmailSend(send.id, {
+          errorCode: result.errorCode ?? null,
+          errorMessage: result.errorMessage ?? null,
+        });
       }
 
-      return success;
+      return result;
     } catch (error) {
       console.error("Failed to send campaign email:", error);
-      return false;
+      // A broken template fails the same way on every attempt
+      if (error instanceof TemplateSyntaxError) {
+        return { accepted: false, errorCode: "template_error", errorMessage: error.message, retryable: false };
+      }
+      return networkErrorResult(error);
     }
   }
 
-  async sendBulkCampaign(campaignId: string): Promise<{
-    sent: number;
-    failed: number;
-    errors: string[];
-  }> {
+  // Campaigns are pinned to a template version; later edits to the template don't change what they send
+  private async getCampaignTemplate(campaign: EmailCampaign): Promise<EmailTemplate | null> {
+    if (!campaign.templateId) return null;
+
+    const template = await storage.getEmailTemplate(campaign.templateId, campaign.workspaceId);
+    if (!template || !campaign.templateVersionId) return template ?? null;
+
+    const version = await storage.getEmailTemplateVersion(campaign.templateVersionId);
+    return version
+      ? {
+          ...template,
+          subject: version.subject,
+          content: version.content,
+          variables: version.variables,
+          design: version.design,
+          textContent: version.textContent,
+          currentVersion: version.version,
+        }
+      : template;
+  }
+
+  // Final state for a recipient the queue worker gave up on or skipped
+  async markSendFailed(campaignId: string, attendeeId: string, errorCode: string, errorMessage: string): Promise<void> {
+    const send = await this.getOrCreateEmailSend(campaignId, attendeeId);
+    await storage.updateEmailSend(send.id, { status: "failed", errorCode, errorMessage });
+  }
+
+  // Sends are normally created when the recipient is queued
+  private async getOrCreateEmailSend(campaignId: string, attendeeId: string): Promise<EmailSend> {
+    const existing = await storage.getEmailSendByRecipient(campaignId, attendeeId);
+    if (existing) return existing;
+
+    return await storage.createEmailSend({
+      campaignId,
+      attendeeId,
+      status: "queued",
+      providerMessageId: null,
+      errorCode: null,
+      errorMessage: null,
+      sentAt: null,
+      deliveredAt: null,
+      openedAt: null,
+      clickedAt: null,
+      bounced: false,
+      complained: false,
+      unsubscribed: false,
+    });
+  }
+
+  // Queue one send per target attendee; the scheduler's queue worker delivers them
+  async queueCampaign(campaignId: string): Promise<{ queued: number }> {
     const campaign = await storage.getEmailCampaign(campaignId);
     if (!campaign) {
-      return { sent: 0, failed: 1, errors: ["Campaign not found"] };
+      throw new Error("Campaign not found");
     }
 
-    // Get target attendees based on campaign criteria
     const attendees = await this.getTargetAttendees(campaign);
-    
-    let sent = 0;
-    let failed = 0;
-    const errors: string[] = [];
-
-    // Send emails in batches to avoid rate limiting
-    const batchSize = 10;
-    for (let i = 0; i < attendees.length; i += batchSize) {
-      const batch = attendees.slice(i, i + batchSize);
-      
-      const promises = batch.map(async (attendee) => {
-        try {
-          const success = await this.sendCampaignEmail(campaign, attendee);
-          if (success) {
-            sent++;
-          } else {
-            failed++;
-            errors.push(`Failed to send to ${attendee.email}`);
-          }
-        } catch (error) {
-          failed++;
-          errors.push(`Error sending to ${attendee.email}: ${error}`);
-        }
-      });
+    const queued = await storage.enqueueEmails(campaign.id, attendees.map(a => a.id));
 
-      await Promise.all(promises);
-      
-      // Small delay between batches
-      if (i + batchSize < attendees.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+    if (attendees.length === 0) {
+      await storage.updateEmailCampaign(campaign.id, {
+        status: "sent",
+        sentAt: new Date(),
+      });
+    } else {
+      await storage.updateEmailCampaign(campaign.id, {
+        status: "sending",
+      });
     }
 
-    // Update campaign status
-    await storage.updateEmailCampaign(campaignId, {
-      status: "sent",
-      sentAt: new Date(),
-    });
+    return { queued };
+  }
+
+  createUnsubscribeToken(attendee: Attendee, campaign: EmailCampaign): string {
+    return signToken(UNSUBSCRIBE_TOKEN_PURPOSE, { attendeeId: attendee.id, campaignId: campaign.id });
+  }
+
+  verifyUnsubscribeToken(token: string): UnsubscribeToken | undefined {
+    return verifyToken<UnsubscribeToken>(UNSUBSCRIBE_TOKEN_PURPOSE, token);
+  }
 
-    return { sent, failed, errors };
+  createManageRegistrationToken(registration: EventRegistration): string {
+    return signToken(MANAGE_REGISTRATION_TOKEN_PURPOSE, { registrationId: registration.id });
+  }
+
+  verifyManageRegistrationToken(token: string): ManageRegistrationToken | undefined {
+    return verifyToken<ManageRegistrationToken>(MANAGE_REGISTRATION_TOKEN_PURPOSE, token);
+  }
+
+  async isSuppressed(workspaceId: string, email: string): Promise<boolean> {
+    return !!(await storage.getSuppression(workspaceId, email));
   }
 
   private async getTargetAttendees(campaign: EmailCampaign): Promise<Attendee[]> {
-    let attendees = await storage.getAttendees();
+    let attendees = await storage.getAttendees(campaign.workspaceId);
+
+    // Never target unsubscribed, bounced or blocked addresses
+    const suppressed = new Set((await storage.getSuppressions(campaign.workspaceId)).map(s => s.email));
+    attendees = attendees.filter(attendee => !suppressed.has(attendee.email.trim().toLowerCase()));
 
     // If campaign is for a specific event, filter by registrations
     if (campaign.eventId) {
       const registrations = await storage.getEventRegistrations(campaign.eventId);
-      const registeredAttendeeIds = new Set(registrations.map(r => r.attendeeId));
+      const registeredAttendeeIds = new Set(registrations.filter(r => r.status === "registered").map(r => r.attendeeId));
       attendees = attendees.filter(a => registeredAttendeeIds.has(a.id));
     }
 
     // Apply target audience filters
     if (campaign.targetAudience) {
-      const { interests, engagementScore, attendanceHistory } = campaign.targetAudience;
+      const { interests, engagementScore, attendanceHistory, registrationAnswers } = campaign.targetAudience;
 
       if (interests && interests.length > 0) {
         attendees = attendees.filter(attendee => 
@@ -244,6 +605,18 @@ export class EmailService {
         );
       }
 
+      // Registrants whose answers to the event's questions match every filter
+      const answerFilters = (registrationAnswers ?? []).filter(f => f.values.length > 0);
+      if (answerFilters.length > 0 && campaign.eventId) {
+        const registrations = await storage.getEventRegistrations(campaign.eventId);
+        const matching = new Set(
+          registrations
+            .filter(r => r.status === "registered" && answerFilters.every(f => registrationAnswerMatches(r.answers?.[f.fieldId], f.values)))
+            .map(r => r.attendeeId)
+        );
+        attendees = attendees.filter(a => matching.has(a.id));
+      }
+
       if (attendanceHistory && attendanceHistory !== "all" && campaign.eventId) {
         const registrations = await storage.getEventRegistrations(campaign.eventId);
         const attendedSet = new Set(
@@ -258,37 +631,74 @@ export class EmailService {
     return attendees;
   }
 
-  private applyTemplateVariables(
-    template: string, 
-    attendee: Attendee, 
-    event?: Event
-  ): string {
-    let result = template;
+  // Values available to {{...}} in subjects and content
+  private async buildTemplateContext(attendee: Attendee, event?: Event, campaign?: EmailCampaign): Promise<TemplateContext> {
+    const context: TemplateContext = {
+      attendeeName: attendee.name,
+      attendeeEmail: attendee.email,
+      attendeeCompany: attendee.company ?? "",
+      attendeeJobTitle: attendee.jobTitle ?? "",
+      attendeeInterests: attendee.interests ?? [],
+      // Placeholder links for dynamic content
+      resourceLinks: "Resource links will be available after the event",
+      feedbackLink: "https://eventboost.com/feedback",
+      manageRegistrationLink: "",
+      checkInQrCode: "",
+      checkInCode: "",
+    };
 
-    // Attendee variables
-    result = result.replace(/\{\{attendeeName\}\}/g, attendee.name);
-    result = result.replace(/\{\{attendeeEmail\}\}/g, attendee.email);
-    result = result.replace(/\{\{attendeeCompany\}\}/g, attendee.company || "");
-    result = result.replace(/\{\{attendeeJobTitle\}\}/g, attendee.jobTitle || "");
+    if (event) {
+      const startDate = new Date(event.startDate);
+      const timeZone = event.timezone ?? undefined;
+      const previews = await storage.getContentPreviews(event.id);
+      const agenda = await eventAgendaService.getAgenda(event);
+      const workspaceSpeakers = new Map((await storage.getSpeakers(event.workspaceId)).map(s => [s.id, s]));
+
+      Object.assign(context, {
+        eventTitle: event.title,
+        eventDescription: event.description ?? "",
+        eventDate: formatTemplateDate(startDate, "short", timeZone),
+        eventTime: formatTemplateTime(startDate, "short", timeZone),
+        eventStartDate: startDate,
+        eventEndDate: event.endDate ? new Date(event.endDate) : null,
+        eventTimezone: event.timezone ?? "UTC",
+        eventLocation: event.location || "Virtual",
+        timeUntil: this.calculateTimeUntil(startDate),
+        contentPreviews: previews.map((preview: ContentPreview) => {
+          // Speaker bios fall back to the bio on the speaker's profile
+          const speaker = preview.speakerId ? workspaceSpeakers.get(preview.speakerId) : undefined;
+          return {
+            title: preview.title,
+            description: preview.description || speaker?.bio || "",
+            type: preview.contentType,
+            url: preview.url ?? "",
+            speaker: speaker?.name ?? "",
+          };
+        }),
+        ...eventAgendaService.buildTemplateVariables(agenda),
+      });
+    }
 
-    // Event variables
+    // Signed links to the attendee's own registration for this event, if they have one
     if (event) {
-      result = result.replace(/\{\{eventTitle\}\}/g, event.title);
-      result = result.replace(/\{\{eventDescription\}\}/g, event.description || "");
-      result = result.replace(/\{\{eventDate\}\}/g, new Date(event.startDate).toLocaleDateString());
-      result = result.replace(/\{\{eventTime\}\}/g, new Date(event.startDate).toLocaleTimeString());
-      result = result.replace(/\{\{eventLocation\}\}/g, event.location || "Virtual");
-
-      // Calculate time until event
-      const timeUntil = this.calculateTimeUntil(new Date(event.startDate));
-      result = result.replace(/\{\{timeUntil\}\}/g, timeUntil);
+      const registration = (await storage.getEventRegistrations(event.id))
+        .find(r => r.attendeeId === attendee.id && r.status !== "cancelled" && r.status !== "rejected");
+      if (registration) {
+        context.manageRegistrationLink = appUrl(`/manage/${this.createManageRegistrationToken(registration)}`);
+      }
+      // Only registrations holding a seat can check in
+      if (registration?.status === "registered") {
+        context.checkInQrCode = appUrl(`/api/check-in/${checkInService.createCheckInToken(registration)}/qr.png`);
+        context.checkInCode = checkInService.getCheckInCode(registration);
+      }
     }
 
-    // Add placeholder links for dynamic content
-    result = result.replace(/\{\{resourceLinks\}\}/g, "Resource links will be available after the event");
-    result = result.replace(/\{\{feedbackLink\}\}/g, "https://eventboost.com/feedback");
+    // Signed per-recipient link to the public unsubscribe/preferences page
+    if (campaign) {
+      context.unsubscribeLink = appUrl(`/unsubscribe/${this.createUnsubscribeToken(attendee, campaign)}`);
+    }
 
-    return result;
+    return context;
   }
 
   private calculateTimeUntil(eventDate: Date): string {
@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { emailWebhookService } from "./emailWebhooks";
+
+const bounce = (type?: string) => ({
+  type: "email.bounced",
+  created_at: "2026-01-01T00:00:00Z",
+  data: { email_id: "msg-1", ...(type && { bounce: { type } }) },
+});
+
+test("Resend permanent bounces are hard bounces", () => {
+  const [event] = emailWebhookService.parseResendEvent(bounce("Permanent"));
+  assert.equal(event.type, "bounced");
+  assert.equal(event.hardBounce, true);
+});
+
+test("Resend transient and undetermined bounces are soft bounces", () => {
+  assert.equal(emailWebhookService.parseResendEvent(bounce("Transient"))[0].hardBounce, false);
+  assert.equal(emailWebhookService.parseResendEvent(bounce("Undetermined"))[0].hardBounce, false);
+});
+
+test("Resend bounces without a type are soft bounces", () => {
+  assert.equal(emailWebhookService.parseResendEvent(bounce())[0].hardBounce, false);
+});
@@ -0,0 +1,212 @@
+import { createHmac, createPublicKey, createVerify, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import { storage } from "../storage";
+
+// Provider-neutral delivery event after parsing a webhook payload
+type DeliveryEvent = {
+  type: "delivered" | "bounced" | "complained" | "opened" | "clicked";
+  messageId: string;
+  occurredAt: Date;
+  hardBounce?: boolean;
+};
+
+// Reject signed payloads older than this to limit replays
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export class WebhookVerificationError extends Error {}
+
+function header(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function assertFreshTimestamp(timestamp: string | undefined): void {
+  const seconds = Number(timestamp);
+  if (!timestamp || !Number.isFinite(seconds)) {
+    throw new WebhookVerificationError("Missing webhook timestamp");
+  }
+  if (Math.abs(Date.now() / 1000 - seconds) > WEBHOOK_TOLERANCE_SECONDS) {
+    throw new WebhookVerificationError("Webhook timestamp is outside the allowed window");
+  }
+}
+
+export class EmailWebhookService {
+  // Resend signs webhooks with Svix: HMAC-SHA256 over "id.timestamp.body"
+  // using the base64 part of the whsec_ secret.
+  verifyResend(rawBody: Buffer, headers: IncomingHttpHeaders): void {
+    const secret = process.env.RESEND_WEBHOOK_SECRET;
+    if (!secret) {
+      throw new WebhookVerificationError("RESEND_WEBHOOK_SECRET is not configured");
+    }
+
+    const id = header(headers, "svix-id");
+    const timestamp = header(headers, "svix-timestamp");
+    const signatures = header(headers, "svix-signature");
+    if (!id || !signatures) {
+      throw new WebhookVerificationError("Missing Svix signature headers");
+    }
+    assertFreshTimestamp(timestamp);
+
+    const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+    const expected = Buffer.from(
+      createHmac("sha256", key).update(`${id}.${timestamp}.${rawBody.toString("utf8")}`).digest("base64")
+    );
+
+    // The header may carry several space-separated "v1,<signature>" entries during key rotation
+    const valid = signatures.split(" ").some(entry => {
+      const [version, signature] = entry.split(",");
+      const supplied = Buffer.from(signature ?? "");
+      return version === "v1" && supplied.length === expected.length && timingSafeEqual(supplied, expected);
+    });
+    if (!valid) {
+      throw new WebhookVerificationError("Invalid Resend webhook signature");
+    }
+  }
+
+  // SendGrid's signed event webhook uses ECDSA over "timestamp + body"
+  verifySendGrid(rawBody: Buffer, headers: IncomingHttpHeaders): void {
+    const publicKey = process.env.SENDGRID_WEBHOOK_PUBLIC_KEY;
+    if (!publicKey) {
+      throw new WebhookVerificationError("SENDGRID_WEBHOOK_PUBLIC_KEY is not configured");
+    }
+
+    const signature = header(headers, "x-twilio-email-event-webhook-signature");
+    const timestamp = header(headers, "x-twilio-email-event-webhook-timestamp");
+    if (!signature) {
+      throw new WebhookVerificationError("Missing SendGrid signature header");
+    }
+    assertFreshTimestamp(timestamp);
+
+    const key = createPublicKey({ key: Buffer.from(publicKey, "base64"), format: "der", type: "spki" });
+    const verifier = createVerify("sha256");
+    verifier.update(timestamp!);
+    verifier.update(rawBody);
+    if (!verifier.verify(key, signature, "base64")) {
+      throw new WebhookVerificationError("Invalid SendGrid webhook signature");
+    }
+  }
+
+  parseResendEvent(payload: any): DeliveryEvent[] {
+    const messageId = payload?.data?.email_id;
+    if (!messageId) return [];
+
+    const occurredAt = payload.created_at ? new Date(payload.created_at) : new Date();
+    switch (payload.type) {
+      case "email.delivered":
+        return [{ type: "delivered", messageId, occurredAt }];
+      case "email.bounced":
+        // Resend reports "Permanent" for hard bounces and "Transient"/"Undetermined" otherwise;
+        // only a permanent bounce suppresses the address
+        return [{ type: "bounced", messageId, occurredAt, hardBounce: payload.data.bounce?.type === "Permanent" }];
+      case "email.complained":
+        return [{ type: "complained", messageId, occurredAt }];
+      case "email.opened":
+        return [{ type: "opened", messageId, occurredAt }];
+      case "email.clicked":
+        return [{ type: "clicked", messageId, occurredAt }];
+      default:
+        return [];
+    }
+  }
+
+  parseSendGridEvents(payload: any): DeliveryEvent[] {
+    if (!Array.isArray(payload)) return [];
+
+    const events: DeliveryEvent[] = [];
+    for (const item of payload) {
+      // sg_message_id is the X-Message-Id returned on send plus a ".filter..." suffix
+      const messageId = typeof item?.sg_message_id === "string" ? item.sg_message_id.split(".")[0] : undefined;
+      if (!messageId) continue;
+
+      const occurredAt = item.timestamp ? new Date(item.timestamp * 1000) : new Date();
+      switch (item.event) {
+        case "delivered":
+          events.push({ type: "delivered", messageId, occurredAt });
+          break;
+        case "bounce":
+          // "blocked" bounces are temporary rejections by the receiving server
+          events.push({ type: "bounced", messageId, occurredAt, hardBounce: item.type !== "blocked" });
+          break;
+        case "dropped":
+          events.push({ type: "bounced", messageId, occurredAt, hardBounce: true });
+          break;
+        case "spamreport":
+          events.push({ type: "complained", messageId, occurredAt });
+          break;
+        case "open":
+          events.push({ type: "opened", messageId, occurredAt });
+          break;
+        case "click":
+          events.push({ type: "clicked", messageId, occurredAt });
+          break;
+      }
+    }
+    return events;
+  }
+
+  // Returns how many events matched a known send
+  async processEvents(events: DeliveryEvent[]): Promise<number> {
+    let matched = 0;
+
+    for (const event of events) {
+      const send = await storage.getEmailSendByProviderMessageId(event.messageId);
+      if (!send) continue;
+      matched++;
+
+      switch (event.type) {
+        case "delivered":
+          // A late "delivered" must not overwrite a bounce that arrived first
+          await storage.updateEmailSend(send.id, {
+            deliveredAt: event.occurredAt,
+            ...(send.status === "sent" ? { status: "delivered" as const } : {}),
+          });
+          break;
+        case "opened":
+          if (!send.openedAt) {
+            await storage.updateEmailSend(send.id, { openedAt: event.occurredAt });
+          }
+          break;
+        case "clicked":
+          if (!send.clickedAt) {
+            await storage.updateEmailSend(send.id, { clickedAt: event.occurredAt });
+          }
+          break;
+        case "bounced":
+          await storage.updateEmailSend(send.id, { bounced: true, status: "bounced" });
+          if (event.hardBounce) {
+            await this.suppressRecipient(send.campaignId, send.attendeeId, "bounced");
+          }
+          break;
+        case "complained":
+          await storage.updateEmailSend(send.id, { complained: true });
+          await this.suppressRecipient(send.campaignId, send.attendeeId, "complained");
+          break;
+      }
+    }
+
+    return matched;
+  }
+
+  private async suppressRecipient(campaignId: string, attendeeId: string, reason: "bounced" | "complained"): Promise<void> {
+    const campaign = await storage.getEmailCampaign(campaignId);
+    const attendee = await storage.getAttendee(attendeeId);
+    if (!campaign || !attendee) return;
+
+    await storage.createSuppression({
+      workspaceId: campaign.workspaceId,
+      email: attendee.email,
+      reason,
+      campaignId,
+    });
+
+    await storage.createAnalyticsEvent({
+      workspaceId: campaign.workspaceId,
+      eventType: reason === "bounced" ? "email_bounce" : "email_complaint",
+      attendeeId,
+      campaignId,
+      metadata: { email: attendee.email },
+    });
+  }
+}
+
+export const emailWebhookService = new EmailWebhookService();
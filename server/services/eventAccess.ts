@@ -0,0 +1,78 @@
+import type { Event } from "@shared/schema";
+import { appUrl, signToken, verifyToken } from "../signedLinks";
+import { storage } from "../storage";
+
+const EVENT_INVITE_TOKEN_PURPOSE = "event-invite";
+
+// An invite names the event and, when sent to someone in particular, their
+// email. Invites to an occurrence of a series cover the whole series.
+export type EventInviteToken = {
+  eventId: string;
+  seriesId?: string;
+  email?: string;
+};
+
+export type VisitorAccess =
+  | { allowed: true; invited: boolean }
+  | { allowed: false; message: string };
+
+export class EventAccessService {
+  createInviteToken(event: Event, email?: string): string {
+    const invite: EventInviteToken = { eventId: event.id };
+    if (event.seriesId) invite.seriesId = event.seriesId;
+    if (email) invite.email = email.toLowerCase();
+    return signToken(EVENT_INVITE_TOKEN_PURPOSE, invite);
+  }
+
+  private covers(invite: EventInviteToken, event: Event): boolean {
+    return invite.eventId === event.id || (!!invite.seriesId && invite.seriesId === event.seriesId);
+  }
+
+  // Invite tokens for another event, or that fail verification, are ignored
+  verifyInviteToken(token: unknown, event?: Event): EventInviteToken | undefined {
+    if (typeof token !== "string" || !token) return undefined;
+
+    const invite = verifyToken<EventInviteToken>(EVENT_INVITE_TOKEN_PURPOSE, token);
+    if (!invite || (event && !this.covers(invite, event))) return undefined;
+    return invite;
+  }
+
+  // Public registration page link that opens the invited event; it carries the
+  // workspace so visitors land in the right one
+  async createInviteUrl(event: Event, email?: string): Promise<string> {
+    const workspace = await storage.getWorkspace(event.workspaceId);
+    const params = new URLSearchParams({ invite: this.createInviteToken(event, email) });
+    if (workspace) params.set("workspace", workspace.slug);
+    return appUrl(`/register?${params.toString()}`);
+  }
+
+  // Events anyone can find on the public registration page. Private and
+  // invite-only events are reached through invite links instead.
+  isListedPublicly(event: Event): boolean {
+    return !event.deletedAt && event.isPublic !== false && event.registrationMode !== "invite";
+  }
+
+  // Events a visitor may see: the listed ones, plus the ones their invite is for
+  getVisitorEvents(events: Event[], inviteToken: unknown): Event[] {
+    const invite = this.verifyInviteToken(inviteToken);
+    return events.filter(event => this.isListedPublicly(event) || (!!invite && !event.deletedAt && this.covers(invite, event)));
+  }
+
+  // Whether a visitor (not a signed-in operator) may register for an event
+  checkVisitorAccess(event: Event, inviteToken: unknown, email: string): VisitorAccess {
+    const invite = this.verifyInviteToken(inviteToken, event);
+    if (invite) {
+      if (invite.email && invite.email !== email.toLowerCase()) {
+        return { allowed: false, message: "This invitation was sent to a different email address" };
+      }
+      return { allowed: true, invited: true };
+    }
+
+    if (!this.isListedPublicly(event)) {
+      return { allowed: false, message: "An invitation is required to register for this event" };
+    }
+    return { allowed: true, invited: false };
+  }
+}
+
+export const eventAccessService = new EventAccessService();
@@ -0,0 +1,85 @@
+import type { AgendaSession, Event, EventAgenda, EventSession, Speaker } from "@shared/schema";
+import { storage } from "../storage";
+
+export class SessionValidationError extends Error {}
+
+export class EventAgendaService {
+  // Sessions with their speakers, in start time order. Bookmark counts are for
+  // operators; visitors don't see them.
+  async getAgenda(event: Event, options: { withBookmarkCounts?: boolean } = {}): Promise<EventAgenda> {
+    const sessions = await storage.getEventSessions(event.id);
+    const workspaceSpeakers = new Map(
+      (await storage.getSpeakers(event.workspaceId)).map(speaker => [speaker.id, speaker])
+    );
+
+    const bookmarkCounts = new Map<string, number>();
+    if (options.withBookmarkCounts) {
+      for (const bookmark of await storage.getSessionBookmarks(sessions.map(s => s.id))) {
+        bookmarkCounts.set(bookmark.sessionId, (bookmarkCounts.get(bookmark.sessionId) ?? 0) + 1);
+      }
+    }
+
+    const agendaSpeakers = new Map<string, Speaker>();
+    const agendaSessions: AgendaSession[] = sessions.map(session => {
+      const sessionSpeakers = session.speakerIds
+        .map(id => workspaceSpeakers.get(id))
+        .filter((speaker): speaker is Speaker => !!speaker);
+      sessionSpeakers.forEach(speaker => agendaSpeakers.set(speaker.id, speaker));
+
+      return options.withBookmarkCounts
+        ? { ...session, speakers: sessionSpeakers, bookmarkCount: bookmarkCounts.get(session.id) ?? 0 }
+        : { ...session, speakers: sessionSpeakers };
+    });
+
+    return {
+      sessions: agendaSessions,
+      speakers: Array.from(agendaSpeakers.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  }
+
+  // Checks a new or edited session: it must end after it starts, and its
+  // speakers must be speakers of the event's workspace
+  async checkSession(event: Event, session: Pick<EventSession, "startTime" | "endTime" | "speakerIds">): Promise<void> {
+    if (new Date(session.endTime) <= new Date(session.startTime)) {
+      throw new SessionValidationError("Sessions must end after they start");
+    }
+
+    const speakerIds = new Set((await storage.getSpeakers(event.workspaceId)).map(speaker => speaker.id));
+    const unknown = session.speakerIds.filter(id => !speakerIds.has(id));
+    if (unknown.length > 0) {
+      throw new SessionValidationError(`Unknown speaker: ${unknown[0]}`);
+    }
+  }
+
+  // The agenda and speakers variables of the email template context
+  buildTemplateVariables(agenda: EventAgenda) {
+    const speakerSessions = new Map<string, string[]>();
+    for (const session of agenda.sessions) {
+      for (const speaker of session.speakers) {
+        speakerSessions.set(speaker.id, [...(speakerSessions.get(speaker.id) ?? []), session.title]);
+      }
+    }
+
+    return {
+      agenda: agenda.sessions.map(session => ({
+        title: session.title,
+        abstract: session.abstract ?? "",
+        startTime: new Date(session.startTime),
+        endTime: new Date(session.endTime),
+        track: session.track ?? "",
+        location: session.location ?? "",
+        speakers: session.speakers.map(speaker => speaker.name).join(", "),
+      })),
+      speakers: agenda.speakers.map(speaker => ({
+        name: speaker.name,
+        title: speaker.title ?? "",
+        company: speaker.company ?? "",
+        bio: speaker.bio ?? "",
+        photoUrl: speaker.photoUrl ?? "",
+        sessions: (speakerSessions.get(speaker.id) ?? []).join(", "),
+      })),
+    };
+  }
+}
+
+export const eventAgendaService = new EventAgendaService();
@@ -0,0 +1,139 @@
+import type { Event, EventCapacity, EventRegistration, RegistrationResult } from "@shared/schema";
+import type { RegistrationAnswers } from "@shared/registrationFields";
+import { storage } from "../storage";
+import { eventNotificationService } from "./eventNotifications";
+
+// Waitlisted registrants in the order they signed up
+function waitlistOrder(registrations: EventRegistration[]): EventRegistration[] {
+  return registrations
+    .filter(registration => registration.status === "waitlisted")
+    .sort((a, b) => new Date(a.registrationDate!).getTime() - new Date(b.registrationDate!).getTime());
+}
+
+export class EventCapacityService {
+  async getCapacity(event: Event): Promise<EventCapacity> {
+    const registrations = await storage.getEventRegistrations(event.id);
+    const registered = registrations.filter(registration => registration.status === "registered").length;
+    const waitlisted = registrations.filter(registration => registration.status === "waitlisted").length;
+
+    return {
+      capacity: event.maxAttendees,
+      registered,
+      waitlisted,
+      spotsLeft: event.maxAttendees == null ? null : Math.max(event.maxAttendees - registered, 0),
+    };
+  }
+
+  // 1-based place in line, or null for registrations that aren't waitlisted
+  async getWaitlistPosition(registration: EventRegistration): Promise<number | null> {
+    if (registration.status !== "waitlisted") return null;
+
+    const waitlist = waitlistOrder(await storage.getEventRegistrations(registration.eventId));
+    const index = waitlist.findIndex(r => r.id === registration.id);
+    return index === -1 ? null : index + 1;
+  }
+
+  // Takes a seat when one is free and joins the waitlist otherwise
+  async register(eventId: string, attendeeId: string, answers?: RegistrationAnswers): Promise<RegistrationResult> {
+    const seated = await storage.claimEventSeat(eventId);
+
+    let registration: EventRegistration;
+    try {
+      registration = await storage.createEventRegistration({
+        eventId,
+        attendeeId,
+        status: seated ? "registered" : "waitlisted",
+        answers: answers ?? null,
+      });
+    } catch (error) {
+      if (seated) await storage.releaseEventSeat(eventId);
+      throw error;
+    }
+
+    return { ...registration, waitlistPosition: await this.getWaitlistPosition(registration) };
+  }
+
+  // Events that require approval hold new registrations, without a seat, until
+  // an organizer decides on them
+  async requestApproval(eventId: string, attendeeId: string, answers?: RegistrationAnswers): Promise<RegistrationResult> {
+    const registration = await storage.createEventRegistration({
+      eventId,
+      attendeeId,
+      status: "pending",
+      answers: answers ?? null,
+    });
+    return { ...registration, waitlistPosition: null };
+  }
+
+  // Approves a pending registration into a free seat, or onto the waitlist when
+  // the event has filled up in the meantime. Returns undefined if someone else
+  // decided on it first.
+  async approve(registration: EventRegistration): Promise<RegistrationResult | undefined> {
+    const seated = await storage.claimEventSeat(registration.eventId);
+    const approved = await storage.transitionEventRegistration(registration.id, "pending", seated ? "registered" : "waitlisted");
+    if (!approved) {
+      if (seated) await storage.releaseEventSeat(registration.eventId);
+      return undefined;
+    }
+
+    const event = await storage.getEvent(registration.eventId);
+    if (event) {
+      await eventNotificationService.notifyRegistrationDecision(event, [approved.attendeeId], seated ? "approved" : "waitlisted");
+    }
+    return { ...approved, waitlistPosition: await this.getWaitlistPosition(approved) };
+  }
+
+  async reject(registration: EventRegistration): Promise<EventRegistration | undefined> {
+    const rejected = await storage.transitionEventRegistration(registration.id, "pending", "rejected");
+    if (!rejected) return undefined;
+
+    const event = await storage.getEvent(registration.eventId);
+    if (event) {
+      await eventNotificationService.notifyRegistrationDecision(event, [rejected.attendeeId], "rejected");
+    }
+    return rejected;
+  }
+
+  // Cancels a registration; a seat it frees goes to the front of the waitlist.
+  // Returns undefined if the registration changed status in the meantime.
+  async cancel(registration: EventRegistration): Promise<EventRegistration | undefined> {
+    if (registration.status === "cancelled" || registration.status === "rejected") return registration;
+
+    const cancelled = await storage.transitionEventRegistration(registration.id, registration.status, "cancelled");
+    if (!cancelled) return undefined;
+
+    if (registration.status === "registered") {
+      await storage.releaseEventSeat(registration.eventId);
+      await this.promoteWaitlist(registration.eventId);
+    }
+    return cancelled;
+  }
+
+  // Fills free seats from the front of the waitlist and emails everyone
+  // promoted. Called after cancellations and when an event's capacity grows.
+  async promoteWaitlist(eventId: string): Promise<number> {
+    const event = await storage.getEvent(eventId);
+    if (!event || event.deletedAt || event.status === "cancelled" || event.status === "completed") return 0;
+
+    const promoted: string[] = [];
+    for (const registration of waitlistOrder(await storage.getEventRegistrations(eventId))) {
+      if (!(await storage.claimEventSeat(eventId))) break;
+
+      // Another request may have promoted or cancelled this registrant first
+      const updated = await storage.transitionEventRegistration(registration.id, "waitlisted", "registered");
+      if (!updated) {
+        await storage.releaseEventSeat(eventId);
+        continue;
+      }
+      promoted.push(updated.attendeeId);
+    }
+
+    if (promoted.length > 0) {
+      await eventNotificationService.notifyWaitlistPromotion(event, promoted);
+      console.log(`Promoted ${promoted.length} registrants from the waitlist for ${event.title}`);
+    }
+    return promoted.length;
+  }
+}
+
+export const eventCapacityService = new EventCapacityService();
@@ -0,0 +1,218 @@
+import type { EmailCampaign, Event } from "@shared/schema";
+import { escapeHtml, formatTemplateDate, formatTemplateTime } from "@shared/templateEngine";
+import { storage } from "../storage";
+
+export type EventChange = {
+  label: string;
+  before: string;
+  after: string;
+};
+
+// Values from the event are written into campaign content, which is itself a
+// template; encoding braces keeps a title like "{{x}}" from being rendered
+function literal(value: string): string {
+  return escapeHtml(value).replace(/\{/g, "&#123;").replace(/\}/g, "&#125;");
+}
+
+function formatWhen(value: Date | string | null, timeZone: string): string {
+  if (!value) return "Not set";
+  return `${formatTemplateDate(value, "long", timeZone)} at ${formatTemplateTime(value, "long", timeZone)}`;
+}
+
+const sameTime = (a: Date | string | null, b: Date | string | null) =>
+  (a ? new Date(a).getTime() : null) === (b ? new Date(b).getTime() : null);
+
+// Changes registrants need to hear about; edits to the title, description or
+// tags alone don't send anything
+export function getEventChanges(before: Event, after: Event): EventChange[] {
+  const changes: EventChange[] = [];
+  const beforeZone = before.timezone || "UTC";
+  const afterZone = after.timezone || "UTC";
+
+  if (!sameTime(before.startDate, after.startDate) || beforeZone !== afterZone) {
+    changes.push({ label: "Starts", before: formatWhen(before.startDate, beforeZone), after: formatWhen(after.startDate, afterZone) });
+  }
+  if (!sameTime(before.endDate, after.endDate)) {
+    changes.push({ label: "Ends", before: formatWhen(before.endDate, beforeZone), after: formatWhen(after.endDate, afterZone) });
+  }
+  if ((before.location || "") !== (after.location || "")) {
+    changes.push({ label: "Location", before: before.location || "Virtual", after: after.location || "Virtual" });
+  }
+  return changes;
+}
+
+function updateContent(changes: EventChange[]): string {
+  const cell = "padding: 8px 12px; border-bottom: 1px solid #e5e7eb; text-align: left;";
+  const rows = changes.map(change => `  <tr>
+    <th style="${cell}">${literal(change.label)}</th>
+    <td style="${cell} color: #6b7280; text-decoration: line-through;">${literal(change.before)}</td>
+    <td style="${cell} font-weight: bold;">${literal(change.after)}</td>
+  </tr>`).join("\n");
+
+  return `<p>Hi {{attendeeName}},</p>
+<p>The details of {{eventTitle}} have changed. Here's what's different:</p>
+<table class="data-table" cellpadding="0" cellspacing="0" border="0" style="border-collapse: collapse; margin: 16px 0;">
+  <tr>
+    <th style="${cell}"></th>
+    <th style="${cell} color: #6b7280;">Before</th>
+    <th style="${cell}">Now</th>
+  </tr>
+${rows}
+</table>
+<p>Your registration is still active. Open the attached invite to update the event in your calendar.</p>`;
+}
+
+function cancellationContent(event: Event): string {
+  const when = formatWhen(event.startDate, event.timezone || "UTC");
+  return `<p>Hi {{attendeeName}},</p>
+<p>We're sorry to let you know that {{eventTitle}}, planned for ${literal(when)}, has been cancelled.</p>
+<p>Open the attached update to remove the event from your calendar. Thank you for your interest, and we hope to see you at a future event.</p>`;
+}
+
+const PROMOTION_CONTENT = `<p>Hi {{attendeeName}},</p>
+<p>Good news: a spot opened up for {{eventTitle}} and you've been moved off the waitlist. Your registration is now confirmed.</p>
+<p>See you on {{eventDate}} at {{eventTime}} ({{eventLocation}}). Open the attached invite to add the event to your calendar.</p>`;
+
+export type RegistrationDecision = "approved" | "waitlisted" | "rejected";
+
+const DECISION_CAMPAIGN_TYPES: Record<RegistrationDecision, EmailCampaign["type"]> = {
+  approved: "registration-approved",
+  waitlisted: "registration-waitlisted",
+  rejected: "registration-rejected",
+};
+
+const DECISION_NAMES: Record<RegistrationDecision, string> = {
+  approved: "Approved",
+  waitlisted: "Approved, waitlisted",
+  rejected: "Declined",
+};
+
+// Used when the workspace has no registration-approved/-rejected template.
+// Approvals that land on the waitlist always use the built-in message.
+const DECISION_DEFAULTS: Record<RegistrationDecision, { subject: string; content: string }> = {
+  approved: {
+    subject: "You're approved for {{eventTitle}}",
+    content: `<p>Hi {{attendeeName}},</p>
+<p>Your registration for {{eventTitle}} has been approved.</p>
+<p>See you on {{eventDate}} at {{eventTime}} ({{eventLocation}}). Open the attached invite to add the event to your calendar.</p>`,
+  },
+  waitlisted: {
+    subject: "You're approved for {{eventTitle}} and on the waitlist",
+    content: `<p>Hi {{attendeeName}},</p>
+<p>Your registration for {{eventTitle}} has been approved, but the event filled up in the meantime, so you've been added to the waitlist.</p>
+<p>We'll email you as soon as a spot opens up for you.</p>`,
+  },
+  rejected: {
+    subject: "Your registration for {{eventTitle}}",
+    content: `<p>Hi {{attendeeName}},</p>
+<p>Thank you for your interest in {{eventTitle}}. Unfortunately we aren't able to confirm your registration this time.</p>
+<p>We hope to see you at a future event.</p>`,
+  },
+};
+
+export class EventNotificationService {
+  // Compares an event before and after an update and emails every registrant
+  // when the schedule or location changed or the event was cancelled.
+  // Returns the number of registrants notified. Failures are logged rather than
+  // thrown because the event change itself has already been saved.
+  async notifyEventChange(before: Event, after: Event): Promise<number> {
+    try {
+      return await this.queueNotification(before, after);
+    } catch (error) {
+      console.error("Error notifying registrants of event change:", error);
+      return 0;
+    }
+  }
+
+  private async queueNotification(before: Event, after: Event): Promise<number> {
+    const cancelled = after.status === "cancelled" && before.status !== "cancelled";
+    const changes = after.status === "cancelled" ? [] : getEventChanges(before, after);
+    if (!cancelled && changes.length === 0) return 0;
+
+    // Nobody needs to hear about edits to an event that is already over
+    const now = Date.now();
+    const latestStart = Math.max(new Date(before.startDate).getTime(), new Date(after.startDate).getTime());
+    if (latestStart < now) return 0;
+
+    // Waitlisted and pending registrants hear about changes too; cancelled and rejected ones don't
+    const registrations = await storage.getEventRegistrations(after.id);
+    const attendeeIds = registrations
+      .filter(registration => registration.status !== "cancelled" && registration.status !== "rejected")
+      .map(registration => registration.attendeeId);
+    if (attendeeIds.length === 0) return 0;
+
+    // Queued like reminders so failed sends are retried and tracked per recipient
+    const campaign = await storage.createEmailCampaign({
+      workspaceId: after.workspaceId,
+      name: cancelled ? `Cancelled: ${after.title}` : `Update: ${after.title}`,
+      type: "event-update",
+      eventId: after.id,
+      subject: cancelled ? "Cancelled: {{eventTitle}}" : "Updated: {{eventTitle}} has changed",
+      content: cancelled ? cancellationContent(after) : updateContent(changes),
+      status: "sending",
+      scheduledAt: new Date(),
+    });
+
+    const queued = await storage.enqueueEmails(campaign.id, attendeeIds);
+    console.log(`Event ${cancelled ? "cancellation" : "update"} queued for ${queued} registrants`);
+    return queued;
+  }
+
+  // Tells registrants who were just moved off the waitlist that they have a
+  // seat. Each promotion gets its own campaign: queue rows are unique per
+  // campaign and attendee, so someone promoted again after cancelling and
+  // rejoining the waitlist would otherwise never be emailed.
+  async notifyWaitlistPromotion(event: Event, attendeeIds: string[]): Promise<number> {
+    if (attendeeIds.length === 0) return 0;
+
+    try {
+      const campaign = await storage.createEmailCampaign({
+        workspaceId: event.workspaceId,
+        name: `Waitlist: ${event.title}`,
+        type: "waitlist-promotion",
+        eventId: event.id,
+        subject: "You're in: {{eventTitle}}",
+        content: PROMOTION_CONTENT,
+        status: "sending",
+        scheduledAt: new Date(),
+      });
+
+      return await storage.enqueueEmails(campaign.id, attendeeIds);
+    } catch (error) {
+      console.error("Error notifying promoted registrants:", error);
+      return 0;
+    }
+  }
+
+  // Tells registrants an organizer's decision on their pending registration,
+  // written with the workspace's registration-approved or -rejected template
+  // when there is one. Like promotions, each decision gets its own campaign.
+  // Approved registrants who didn't get a seat are told they're waitlisted.
+  async notifyRegistrationDecision(event: Event, attendeeIds: string[], decision: RegistrationDecision): Promise<number> {
+    if (attendeeIds.length === 0) return 0;
+
+    try {
+      const type = DECISION_CAMPAIGN_TYPES[decision];
+      const template = (await storage.getEmailTemplates(event.workspaceId)).find(t => t.type === type);
+      const message = template ?? DECISION_DEFAULTS[decision];
+      const campaign = await storage.createEmailCampaign({
+        workspaceId: event.workspaceId,
+        name: `${DECISION_NAMES[decision]}: ${event.title}`,
+        type,
+        eventId: event.id,
+        templateId: template?.id,
+        subject: message.subject,
+        content: message.content,
+        status: "sending",
+        scheduledAt: new Date(),
+      });
+
+      return await storage.enqueueEmails(campaign.id, attendeeIds);
+    } catch (error) {
+      console.error(`Error notifying ${decision} registrants:`, error);
+      return 0;
+    }
+  }
+}
+
+export const eventNotificationService = new EventNotificationService();
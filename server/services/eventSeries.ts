@@ -0,0 +1,99 @@
+import type { Event, EventSeries, InsertEvent } from "@shared/schema";
+import {
+  generateOccurrences,
+  shiftWallClock,
+  wallClockDifference,
+  MAX_SERIES_OCCURRENCES,
+  type RecurrenceRule,
+} from "@shared/recurrence";
+import { storage } from "../storage";
+import { eventNotificationService } from "./eventNotifications";
+import { eventCapacityService } from "./eventCapacity";
+
+export class InvalidSeriesError extends Error {}
+
+// An edit applies to the event alone or to it and every later occurrence of its series
+export type EditScope = "occurrence" | "following";
+
+export class EventSeriesService {
+  // Creates the series and one event per occurrence, each a copy of the first
+  // event moved to its own date
+  async createSeries(workspaceId: string, event: InsertEvent, recurrence: RecurrenceRule): Promise<{ series: EventSeries; events: Event[] }> {
+    const starts = generateOccurrences(event.startDate, recurrence, event.timezone || "UTC");
+    if (starts.length > MAX_SERIES_OCCURRENCES) {
+      throw new InvalidSeriesError(`A series can have at most ${MAX_SERIES_OCCURRENCES} occurrences`);
+    }
+    if (starts.length === 0) {
+      throw new InvalidSeriesError("The recurrence rule doesn't produce any occurrences");
+    }
+
+    const duration = event.endDate ? event.endDate.getTime() - event.startDate.getTime() : null;
+    const series = await storage.createEventSeries({ workspaceId, title: event.title, recurrence });
+
+    const events: Event[] = [];
+    for (const startDate of starts) {
+      events.push(await storage.createEvent({
+        ...event,
+        workspaceId,
+        seriesId: series.id,
+        startDate,
+        endDate: duration === null ? null : new Date(startDate.getTime() + duration),
+      }));
+    }
+    return { series, events };
+  }
+
+  // Remaining (not deleted) occurrences in date order
+  async getOccurrences(series: EventSeries): Promise<Event[]> {
+    return (await storage.getEvents(series.workspaceId))
+      .filter(event => event.seriesId === series.id)
+      .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+  }
+
+  // Saves an edit to one event or to it and the rest of its series. A new start
+  // time moves every later occurrence by the same wall-clock amount rather than
+  // to the same date, and each keeps (or takes on) the edited event's duration.
+  // Registrants of every changed occurrence are notified as for a single edit.
+  async updateEvents(existing: Event, changes: Partial<Event>, scope: EditScope): Promise<Event[]> {
+    const targets = scope === "following" && existing.seriesId
+      ? (await this.getOccurrences((await storage.getEventSeries(existing.seriesId))!))
+          .filter(event => new Date(event.startDate) >= new Date(existing.startDate))
+      : [existing];
+
+    const timeZone = existing.timezone || "UTC";
+    const editedStart = changes.startDate ? new Date(changes.startDate) : new Date(existing.startDate);
+    const startShift = wallClockDifference(new Date(existing.startDate), editedStart, timeZone);
+
+    const updated: Event[] = [];
+    for (const target of targets) {
+      const occurrenceChanges: Partial<Event> = { ...changes };
+
+      if (target.id !== existing.id) {
+        const startDate = shiftWallClock(new Date(target.startDate), startShift, timeZone);
+        occurrenceChanges.startDate = startDate;
+        if (changes.endDate !== undefined) {
+          occurrenceChanges.endDate = changes.endDate
+            ? new Date(startDate.getTime() + new Date(changes.endDate).getTime() - editedStart.getTime())
+            : null;
+        } else if (target.endDate) {
+          occurrenceChanges.endDate = new Date(new Date(target.endDate).getTime() + startDate.getTime() - new Date(target.startDate).getTime());
+        }
+      }
+
+      const event = await storage.updateEvent(target.id, occurrenceChanges);
+      if (!event) continue;
+
+      // Registrants hear about new dates, a new location or a cancellation
+      await eventNotificationService.notifyEventChange(target, event);
+
+      // Raising or removing the cap gives the new seats to the waitlist
+      if (event.maxAttendees !== target.maxAttendees) {
+        await eventCapacityService.promoteWaitlist(event.id);
+      }
+      updated.push(event);
+    }
+    return updated;
+  }
+}
+
+export const eventSeriesService = new EventSeriesService();
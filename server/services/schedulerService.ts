@@ -1,63 +1,230 @@
 import * as cron from "node-cron";
+import { randomUUID } from "crypto";
 import { storage } from "../storage";
 import { emailService } from "./emailService";
 import { aiPersonalizationService } from "./aiPersonalization";
+import type { Event, EmailCampaign, EmailQueueItem } from "@shared/schema";
+import { getDueReminderOffset, formatReminderOffset } from "@shared/reminders";
+
+// Email send queue settings
+const QUEUE_BATCH_SIZE = 10;
+const MAX_SEND_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 30 * 1000; // 30s, 1m, 2m, 4m between attempts
+// A claimed item not finished within this time belongs to a worker that died
+const QUEUE_LEASE_MS = 10 * 60 * 1000;
+
+// Campaigns created by the app itself rather than sent by an operator
+const AUTOMATIC_CAMPAIGN_TYPES = new Set<EmailCampaign["type"]>([
+  "reminder",
+  "welcome",
+  "event-update",
+  "waitlist-promotion",
+  "registration-approved",
+  "registration-waitlisted",
+  "registration-rejected",
+]);
 
 export class SchedulerService {
   private tasks: Map<string, cron.ScheduledTask> = new Map();
+  private queueRunning = false;
+  // Identifies this process on the queue items it claims
+  private readonly workerId = randomUUID();
 
   constructor() {
     this.initializeScheduledTasks();
   }
 
   private initializeScheduledTasks() {
-    // Check for scheduled campaigns every minute
-    cron.schedule("* * * * *", async () => {
+    // Drain the email send queue every 10 seconds
+    this.tasks.set("email_queue", cron.schedule("*/10 * * * * *", async () => {
+      await this.processEmailQueue();
+    }));
+
+    // Check for due scheduled campaigns every minute
+    this.tasks.set("scheduled_campaigns", cron.schedule("* * * * *", async () => {
       await this.processScheduledCampaigns();
-    });
+    }));
 
     // Update engagement scores daily at midnight
-    cron.schedule("0 0 * * *", async () => {
+    this.tasks.set("engagement_scores", cron.schedule("0 0 * * *", async () => {
       await this.updateEngagementScores();
-    });
+    }));
 
-    // Send event reminders (check every hour)
-    cron.schedule("0 * * * *", async () => {
+    // Send event reminders (check every 5 minutes)
+    this.tasks.set("event_reminders", cron.schedule("*/5 * * * *", async () => {
       await this.sendEventReminders();
-    });
+    }));
 
     // Clean up old analytics data weekly
-    cron.schedule("0 0 * * 0", async () => {
+    this.tasks.set("cleanup", cron.schedule("0 0 * * 0", async () => {
       await this.cleanupOldData();
-    });
+    }));
   }
 
+  // Scheduled sends live only in the database: a campaign is sent by whichever
+  // worker first moves it from "scheduled" to "sending".
   async processScheduledCampaigns(): Promise<void> {
     try {
       const scheduledCampaigns = await storage.getScheduledCampaigns();
       
       for (const campaign of scheduledCampaigns) {
-        console.log(`Processing scheduled campaign: ${campaign.name}`);
-        
-        // Mark as sending
-        await storage.updateEmailCampaign(campaign.id, {
-          status: "sending",
-        });
+        const claimed = await storage.claimScheduledCampaign(campaign.id);
+        if (!claimed) continue;
 
-        // Send the campaign
-        const result = await emailService.sendBulkCampaign(campaign.id);
+        console.log(`Processing scheduled campaign: ${claimed.name}`);
         
-        console.log(`Campaign ${campaign.name} completed: ${result.sent} sent, ${result.failed} failed`);
-        
-        if (result.errors.length > 0) {
-          console.error("Campaign errors:", result.errors);
-        }
+        const result = await emailService.queueCampaign(claimed.id);
+        console.log(`Campaign ${claimed.name} queued for ${result.queued} recipients`);
       }
     } catch (error) {
       console.error("Error processing scheduled campaigns:", error);
     }
   }
 
+  // Picks up work interrupted by the last shutdown. Sends that were mid-flight go
+  // back to pending once their lease has expired, so sends a live peer is still
+  // working on are left alone; the provider may already have accepted some of
+  // the expired ones, so delivery is at-least-once. A sending campaign carries on
+  // from its queue rows; only a scheduled campaign claimed before any recipient
+  // was queued has its audience queued now. Overdue schedules are sent right away.
+  async rehydrate(): Promise<void> {
+    try {
+      await this.requeueExpiredLeases();
+
+      const campaigns = await storage.getEmailCampaigns();
+      for (const campaign of campaigns.filter(c => c.status === "sending")) {
+        // Campaigns the app generates go only to the recipients it queued for them
+        // (reminder offsets, an update's registrants, one promotion or decision),
+        // never to whoever the event audience is today
+        const progress = await storage.getCampaignSendProgress(campaign.id);
+        if (progress.total === 0 && !AUTOMATIC_CAMPAIGN_TYPES.has(campaign.type)) {
+          await emailService.queueCampaign(campaign.id);
+        }
+        await this.completeCampaignIfDrained(campaign.id);
+      }
+
+      await this.processScheduledCampaigns();
+    } catch (error) {
+      console.error("Error rehydrating scheduled work:", error);
+    }
+  }
+
+  async processEmailQueue(): Promise<void> {
+    // Skip this tick if the previous batch is still sending
+    if (this.queueRunning) return;
+    this.queueRunning = true;
+
+    try {
+      await this.requeueExpiredLeases();
+
+      // Claimed items are ours alone; another worker's tick won't return them
+      const items = await storage.claimDueQueueItems(QUEUE_BATCH_SIZE, this.workerId);
+      if (items.length === 0) return;
+
+      const campaigns = new Map<string, EmailCampaign | undefined>();
+      for (const item of items) {
+        if (!campaigns.has(item.campaignId)) {
+          campaigns.set(item.campaignId, await storage.getEmailCampaign(item.campaignId));
+        }
+      }
+
+      await Promise.all(items.map(item => this.processQueueItem(item, campaigns.get(item.campaignId))));
+
+      for (const [campaignId, campaign] of Array.from(campaigns)) {
+        if (campaign) {
+          await this.completeCampaignIfDrained(campaignId);
+        }
+      }
+    } catch (error) {
+      console.error("Error processing email queue:", error);
+    } finally {
+      this.queueRunning = false;
+    }
+  }
+
+  private async processQueueItem(item: EmailQueueItem, campaign: EmailCampaign | undefined): Promise<void> {
+    const attempts = item.attempts + 1;
+
+    try {
+      const attendee = await storage.getAttendee(item.attendeeId);
+      if (!campaign || !attendee) {
+        await storage.updateQueueItem(item.id, { status: "dead", attempts, lastError: "Campaign or attendee no longer exists" });
+        return;
+      }
+      if (campaign.status === "cancelled") {
+        await storage.updateQueueItem(item.id, { status: "dead", attempts, lastError: "Campaign was cancelled" });
+        await emailService.markSendFailed(campaign.id, attendee.id, "campaign_cancelled", "Campaign was cancelled");
+        return;
+      }
+      // Re-checked at delivery time: the address may have been suppressed after queueing
+      if (await emailService.isSuppressed(campaign.workspaceId, attendee.email)) {
+        await storage.updateQueueItem(item.id, { status: "skipped", lastError: "Recipient is on the suppression list" });
+        await emailService.markSendFailed(campaign.id, attendee.id, "suppressed", "Recipient is on the suppression list");
+        return;
+      }
+
+      const result = await emailService.sendCampaignEmail(campaign, attendee);
+      if (result.accepted) {
+        await storage.updateQueueItem(item.id, { status: "sent", attempts, sentAt: new Date(), lastError: null });
+        return;
+      }
+
+      const errorCode = result.errorCode ?? "send_failed";
+      const lastError = result.errorMessage || `Failed to send to ${attendee.email}`;
+      if (result.retryable === false) {
+        await storage.updateQueueItem(item.id, { status: "dead", attempts, lastError });
+        await emailService.markSendFailed(campaign.id, attendee.id, errorCode, lastError);
+        return;
+      }
+
+      await this.retryOrBury(item, attempts, errorCode, lastError);
+    } catch (error) {
+      await this.retryOrBury(item, attempts, "send_failed", error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // Items whose worker died mid-send go back to pending for someone else
+  private async requeueExpiredLeases(): Promise<void> {
+    const requeued = await storage.requeueExpiredQueueItems(new Date(Date.now() - QUEUE_LEASE_MS));
+    if (requeued > 0) {
+      console.log(`Requeued ${requeued} interrupted email sends`);
+    }
+  }
+
+  // Exponential backoff until MAX_SEND_ATTEMPTS, then park the send as dead
+  private async retryOrBury(item: EmailQueueItem, attempts: number, errorCode: string, lastError: string): Promise<void> {
+    if (attempts >= MAX_SEND_ATTEMPTS) {
+      await storage.updateQueueItem(item.id, { status: "dead", attempts, lastError });
+      await emailService.markSendFailed(item.campaignId, item.attendeeId, errorCode, lastError);
+      console.error(`Giving up on queued email ${item.id} after ${attempts} attempts: ${lastError}`);
+      return;
+    }
+
+    const delay = RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+    await storage.updateQueueItem(item.id, {
+      status: "pending",
+      attempts,
+      lastError,
+      nextAttemptAt: new Date(Date.now() + delay),
+      lockedAt: null,
+      lockedBy: null,
+    });
+  }
+
+  private async completeCampaignIfDrained(campaignId: string): Promise<void> {
+    const progress = await storage.getCampaignSendProgress(campaignId);
+    if (progress.pending + progress.processing + progress.retrying > 0) return;
+
+    const campaign = await storage.getEmailCampaign(campaignId);
+    if (campaign?.status !== "sending") return;
+
+    await storage.updateEmailCampaign(campaignId, {
+      status: "sent",
+      sentAt: new Date(),
+    });
+    console.log(`Campaign ${campaign.name} completed: ${progress.sent} sent, ${progress.dead} failed`);
+  }
+
   async updateEngagementScores(): Promise<void> {
     try {
       console.log("Updating engagement scores for all attendees");
@@ -73,7 +240,8 @@ export class SchedulerService {
 
         const emailOpens = recentEvents.filter(e => e.eventType === "email_open").length;
         const emailClicks = recentEvents.filter(e => e.eventType === "email_click").length;
-        const eventsAttended = recentEvents.filter(e => e.eventType === "attendance").length;
+        // Kiosk check-ins and check-outs record several attendance events per event
+        const eventsAttended = new Set(recentEvents.filter(e => e.eventType === "attendance").map(e => e.eventId)).size;
         const registrations = recentEvents.filter(e => e.eventType === "registration").length;
 
         // Calculate new engagement score using AI
@@ -102,21 +270,9 @@ export class SchedulerService {
       for (const event of events) {
         if (event.status !== "published" && event.status !== "live") continue;
         
-        const eventDate = new Date(event.startDate);
-        const timeUntilEvent = eventDate.getTime() - now.getTime();
-        const hoursUntilEvent = timeUntilEvent / (1000 * 60 * 60);
-        
-        // Send reminders at 24 hours, 2 hours, and 30 minutes before event
-        const reminderTimes = [24, 2, 0.5];
-        
-        for (const reminderHours of reminderTimes) {
-          const shouldSendReminder = 
-            hoursUntilEvent <= reminderHours && 
-            hoursUntilEvent > (reminderHours - 1); // Within the hour window
-          
-          if (shouldSendReminder) {
-            await this.sendEventReminder(event.id, reminderHours);
-          }
+        const offsetMinutes = getDueReminderOffset(new Date(event.startDate), event.reminderOffsets, now);
+        if (offsetMinutes !== undefined) {
+          await this.sendEventReminder(event, offsetMinutes);
         }
       }
     } catch (error) {
@@ -124,98 +280,66 @@ export class SchedulerService {
     }
   }
 
-  private async sendEventReminder(eventId: string, hoursBeforeEvent: number): Promise<void> {
+  // Sends the reminder for one offset to every registrant not yet in the ledger.
+  // Sends are queued before they are recorded, and both steps skip duplicates,
+  // so a crash in between cannot lose or repeat a reminder.
+  private async sendEventReminder(event: Event, offsetMinutes: number): Promise<void> {
     try {
-      // Get reminder template
-      const templates = await storage.getEmailTemplates();
-      const reminderTemplate = templates.find(t => t.type === "reminder");
-      
-      if (!reminderTemplate) {
-        console.log("No reminder template found");
-        return;
-      }
+      const ledger = (await storage.getEventReminders(event.id)).filter(r => r.offsetMinutes === offsetMinutes);
+      const alreadyReminded = new Set(ledger.map(r => r.attendeeId));
 
-      // Create automatic reminder campaign
-      const campaignName = `Auto-Reminder ${hoursBeforeEvent}h before event`;
-      
-      const campaign = await storage.createEmailCampaign({
-        name: campaignName,
-        type: "reminder",
-        eventId,
-        templateId: reminderTemplate.id,
-        subject: reminderTemplate.subject,
-        content: reminderTemplate.content,
-        status: "scheduled",
-        scheduledAt: new Date(),
-      });
-
-      console.log(`Created automatic reminder campaign: ${campaignName}`);
-      
-      // Send immediately
-      const result = await emailService.sendBulkCampaign(campaign.id);
-      console.log(`Reminder sent: ${result.sent} emails, ${result.failed} failed`);
-      
-    } catch (error) {
-      console.error("Error sending event reminder:", error);
-    }
-  }
+      const registrations = await storage.getEventRegistrations(event.id);
+      const attendeeIds = registrations
+        .filter(r => r.status === "registered")
+        .map(r => r.attendeeId)
+        .filter(attendeeId => !alreadyReminded.has(attendeeId));
+      if (attendeeIds.length === 0) return;
 
-  async scheduleCustomCampaign(campaignId: string, sendAt: Date): Promise<void> {
-    const taskId = `campaign_${campaignId}`;
-    
-    // Remove existing task if any
-    const existingTask = this.tasks.get(taskId);
-    if (existingTask) {
-      existingTask.destroy();
-    }
+      // Registrants who sign up after the reminder went out join the same campaign
+      let campaign = ledger.length > 0
+        ? await storage.getEmailCampaign(ledger[0].campaignId)
+        : undefined;
 
-    // Create new scheduled task
-    const cronExpression = this.dateToCronExpression(sendAt);
-    
-    const task = cron.schedule(cronExpression, async () => {
-      try {
-        console.log(`Executing scheduled campaign: ${campaignId}`);
-        const result = await emailService.sendBulkCampaign(campaignId);
-        console.log(`Campaign completed: ${result.sent} sent, ${result.failed} failed`);
+      if (!campaign) {
+        // Get reminder template from the event's workspace
+        const templates = await storage.getEmailTemplates(event.workspaceId);
+        const reminderTemplate = templates.find(t => t.type === "reminder");
         
-        // Remove the task after execution
-        this.tasks.delete(taskId);
-        task.destroy();
-      } catch (error) {
-        console.error(`Error executing scheduled campaign ${campaignId}:`, error);
+        if (!reminderTemplate) {
+          console.log("No reminder template found");
+          return;
+        }
+
+        campaign = await storage.createEmailCampaign({
+          workspaceId: event.workspaceId,
+          name: `Reminder: ${event.title} (${formatReminderOffset(offsetMinutes)} before)`,
+          type: "reminder",
+          eventId: event.id,
+          templateId: reminderTemplate.id,
+          subject: reminderTemplate.subject,
+          content: reminderTemplate.content,
+          status: "sending",
+          scheduledAt: new Date(),
+        });
+        console.log(`Created automatic reminder campaign: ${campaign.name}`);
+      } else if (campaign.status !== "sending") {
+        await storage.updateEmailCampaign(campaign.id, { status: "sending" });
       }
-    }, {
-      scheduled: false,
-    });
 
-    this.tasks.set(taskId, task);
-    task.start();
-    
-    console.log(`Scheduled campaign ${campaignId} for ${sendAt.toISOString()}`);
-  }
+      const queued = await storage.enqueueEmails(campaign.id, attendeeIds);
+      await storage.recordEventReminders(attendeeIds.map(attendeeId => ({
+        eventId: event.id,
+        attendeeId,
+        offsetMinutes,
+        campaignId: campaign.id,
+      })));
 
-  async cancelScheduledCampaign(campaignId: string): Promise<void> {
-    const taskId = `campaign_${campaignId}`;
-    const task = this.tasks.get(taskId);
-    
-    if (task) {
-      task.destroy();
-      this.tasks.delete(taskId);
-      console.log(`Cancelled scheduled campaign: ${campaignId}`);
+      console.log(`Reminder queued for ${queued} recipients`);
+    } catch (error) {
+      console.error("Error sending event reminder:", error);
     }
   }
 
-  private dateToCronExpression(date: Date): string {
-    const minute = date.getMinutes();
-    const hour = date.getHours();
-    const day = date.getDate();
-    const month = date.getMonth() + 1;
-    const year = date.getFullYear();
-    
-    // Create a cron expression for a specific date and time
-    return `${minute} ${hour} ${day} ${month} *`;
-  }
-
   private async cleanupOldData(): Promise<void> {
     try {
       console.log("Cleaning up old analytics data");
@@ -0,0 +1,52 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Links in attendee emails carry an HMAC-signed token instead of requiring a session.
+// The purpose is part of the signature so a token minted for one flow cannot be
+// replayed against another.
+
+function getSigningSecret(): string {
+  return process.env.LINK_SIGNING_SECRET || process.env.SESSION_SECRET || "eventboost-dev-secret";
+}
+
+function sign(purpose: string, payload: string): string {
+  return createHmac("sha256", getSigningSecret()).update(`${purpose}.${payload}`).digest("base64url");
+}
+
+export function signToken(purpose: string, data: Record<string, string>): string {
+  const payload = Buffer.from(JSON.stringify(data)).toString("base64url");
+  return `${payload}.${sign(purpose, payload)}`;
+}
+
+export function verifyToken<T extends Record<string, string>>(purpose: string, token: string): T | undefined {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return undefined;
+
+  const expected = Buffer.from(sign(purpose, payload));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+// Short code derived from the same signature, for people to read out or type
+// where a token is too long: eight characters from an alphabet without
+// look-alikes (0/O, 1/I/L), as XXXX-XXXX
+const CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+export function shortCode(purpose: string, value: string): string {
+  const digest = createHmac("sha256", getSigningSecret()).update(`${purpose}.${value}`).digest();
+  const chars = Array.from(digest.subarray(0, 8), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]);
+  return `${chars.slice(0, 4).join("")}-${chars.slice(4).join("")}`;
+}
+
+// Absolute URL for links that leave the app inside an email
+export function appUrl(path: string): string {
+  const base = (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+  return `${base}${path}`;
+}
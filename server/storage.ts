@@ -1,70 +1,153 @@
 import { 
-  type Event, type InsertEvent,
+  type Workspace, type InsertWorkspace, type WorkspaceMember, type WorkspaceScoped,
+  type Event, type InsertEvent, type EventSeries, type InsertEventSeries,
   type Attendee, type InsertAttendee,
-  type EventRegistration, type InsertEventRegistration,
+  type EventRegistration, type InsertEventRegistration, type RegistrationStatus,
   type EmailCampaign, type InsertEmailCampaign,
-  type EmailTemplate, type InsertEmailTemplate,
+  type EmailTemplate, type InsertEmailTemplate, type EmailTemplateVersion,
   type EmailSend,
+  type EventReminder,
+  type Suppression, type InsertSuppression,
+  type EmailQueueItem, type CampaignSendProgress,
   type ContentPreview, type InsertContentPreview,
+  type Speaker, type InsertSpeaker,
+  type EventSession, type InsertEventSession, type SessionBookmark,
   type AnalyticsEvent, type InsertAnalyticsEvent,
   type User, type InsertUser,
+  workspaces,
+  workspaceMembers,
+  eventSeries,
   events,
   attendees,
   eventRegistrations,
   emailCampaigns,
   emailTemplates,
+  emailTemplateVersions,
   emailSends,
+  eventReminders,
+  suppressions,
+  emailQueue,
   contentPreviews,
+  speakers,
+  eventSessions,
+  sessionBookmarks,
   analyticsEvents,
   users
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { drizzle } from "drizzle-orm/neon-http";
 import { neon } from "@neondatabase/serverless";
-import { eq, and, gte, lte, desc, sql as drizzleSql } from "drizzle-orm";
+import { eq, and, or, gte, lt, lte, asc, desc, isNull, inArray, sql as drizzleSql } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { DEFAULT_REMINDER_OFFSETS } from "@shared/reminders";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Who saved a template version, and whether it was a rollback
+export type TemplateVersionOrigin = {
+  createdBy?: string | null;
+  restoredFrom?: number | null;
+};
+
+// Saving any of these creates a new template version
+function changesTemplateContent(template: EmailTemplate, update: Partial<EmailTemplate>): boolean {
+  return (update.subject !== undefined && update.subject !== template.subject)
+    || (update.content !== undefined && update.content !== template.content)
+    || (update.variables !== undefined && JSON.stringify(update.variables) !== JSON.stringify(template.variables))
+    || (update.design !== undefined && JSON.stringify(update.design) !== JSON.stringify(template.design));
+}
+
+// Pending items that already failed at least once are reported as retrying
+function summarizeQueueItems(items: EmailQueueItem[]): CampaignSendProgress {
+  return {
+    total: items.length,
+    pending: items.filter(item => item.status === "pending" && item.attempts === 0).length,
+    processing: items.filter(item => item.status === "processing").length,
+    sent: items.filter(item => item.status === "sent").length,
+    retrying: items.filter(item => item.status === "pending" && item.attempts > 0).length,
+    skipped: items.filter(item => item.status === "skipped").length,
+    dead: items.filter(item => item.status === "dead").length,
+  };
+}
 
 export interface IStorage {
+  // Session store backing express-session for operator logins
+  sessionStore: session.Store;
+
+  // Workspace methods
+  getWorkspaces(): Promise<Workspace[]>;
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  getWorkspaceBySlug(slug: string): Promise<Workspace | undefined>;
+  createWorkspace(workspace: InsertWorkspace): Promise<Workspace>;
+  getUserWorkspaces(userId: string): Promise<Workspace[]>;
+  addWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember>;
+
   // User methods
+  getUsers(): Promise<User[]>;
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
 
-  // Event methods
-  getEvents(): Promise<Event[]>;
-  getEvent(id: string): Promise<Event | undefined>;
-  createEvent(event: InsertEvent): Promise<Event>;
-  updateEvent(id: string, event: Partial<Event>): Promise<Event | undefined>;
-  deleteEvent(id: string): Promise<boolean>;
+  // Event methods (omit workspaceId to query across all workspaces, e.g. from the scheduler)
+  getEvents(workspaceId?: string): Promise<Event[]>;
+  getEvent(id: string, workspaceId?: string): Promise<Event | undefined>;
+  createEvent(event: WorkspaceScoped<InsertEvent> & { seriesId?: string | null }): Promise<Event>;
+  updateEvent(id: string, event: Partial<Event>, workspaceId?: string): Promise<Event | undefined>;
+  // Soft delete: the event leaves getEvents but keeps its registrations and history
+  deleteEvent(id: string, workspaceId?: string): Promise<boolean>;
+
+  // Event series methods; occurrences are events with the series' seriesId
+  getEventSeries(id: string, workspaceId?: string): Promise<EventSeries | undefined>;
+  createEventSeries(series: WorkspaceScoped<InsertEventSeries>): Promise<EventSeries>;
 
   // Attendee methods
-  getAttendees(): Promise<Attendee[]>;
-  getAttendee(id: string): Promise<Attendee | undefined>;
-  getAttendeeByEmail(email: string): Promise<Attendee | undefined>;
-  createAttendee(attendee: InsertAttendee): Promise<Attendee>;
-  updateAttendee(id: string, attendee: Partial<Attendee>): Promise<Attendee | undefined>;
+  getAttendees(workspaceId?: string): Promise<Attendee[]>;
+  getAttendee(id: string, workspaceId?: string): Promise<Attendee | undefined>;
+  getAttendeeByEmail(email: string, workspaceId: string): Promise<Attendee | undefined>;
+  createAttendee(attendee: WorkspaceScoped<InsertAttendee>): Promise<Attendee>;
+  updateAttendee(id: string, attendee: Partial<Attendee>, workspaceId?: string): Promise<Attendee | undefined>;
   updateAttendeeEngagement(id: string, score: number): Promise<void>;
 
   // Event Registration methods
   getEventRegistrations(eventId?: string): Promise<EventRegistration[]>;
+  getEventRegistration(id: string): Promise<EventRegistration | undefined>;
   getAttendeeRegistrations(attendeeId: string): Promise<EventRegistration[]>;
   createEventRegistration(registration: InsertEventRegistration): Promise<EventRegistration>;
   updateEventRegistration(id: string, registration: Partial<EventRegistration>): Promise<EventRegistration | undefined>;
+  // Moves a registration between statuses only if it is still in `from`, so
+  // concurrent cancellations and promotions can't both act on the same one
+  transitionEventRegistration(id: string, from: RegistrationStatus, to: RegistrationStatus): Promise<EventRegistration | undefined>;
+
+  // Event capacity: claiming a seat fails once registeredCount reaches maxAttendees
+  claimEventSeat(eventId: string): Promise<boolean>;
+  releaseEventSeat(eventId: string): Promise<void>;
 
   // Email Campaign methods
-  getEmailCampaigns(): Promise<EmailCampaign[]>;
-  getEmailCampaign(id: string): Promise<EmailCampaign | undefined>;
-  createEmailCampaign(campaign: InsertEmailCampaign): Promise<EmailCampaign>;
-  updateEmailCampaign(id: string, campaign: Partial<EmailCampaign>): Promise<EmailCampaign | undefined>;
+  getEmailCampaigns(workspaceId?: string): Promise<EmailCampaign[]>;
+  getEmailCampaign(id: string, workspaceId?: string): Promise<EmailCampaign | undefined>;
+  createEmailCampaign(campaign: WorkspaceScoped<InsertEmailCampaign>): Promise<EmailCampaign>;
+  updateEmailCampaign(id: string, campaign: Partial<EmailCampaign>, workspaceId?: string): Promise<EmailCampaign | undefined>;
   getScheduledCampaigns(): Promise<EmailCampaign[]>;
+  claimScheduledCampaign(id: string): Promise<EmailCampaign | undefined>;
 
   // Email Template methods
-  getEmailTemplates(): Promise<EmailTemplate[]>;
-  getEmailTemplate(id: string): Promise<EmailTemplate | undefined>;
-  createEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate>;
-  updateEmailTemplate(id: string, template: Partial<EmailTemplate>): Promise<EmailTemplate | undefined>;
+  getEmailTemplates(workspaceId?: string): Promise<EmailTemplate[]>;
+  getEmailTemplate(id: string, workspaceId?: string): Promise<EmailTemplate | undefined>;
+  // Creating a template records version 1; updates that change the subject,
+  // content or variables record the next version
+  createEmailTemplate(template: WorkspaceScoped<InsertEmailTemplate>, origin?: TemplateVersionOrigin): Promise<EmailTemplate>;
+  updateEmailTemplate(id: string, template: Partial<EmailTemplate>, workspaceId?: string, origin?: TemplateVersionOrigin): Promise<EmailTemplate | undefined>;
+  getEmailTemplateVersions(templateId: string): Promise<EmailTemplateVersion[]>; // Newest first
+  getEmailTemplateVersion(id: string): Promise<EmailTemplateVersion | undefined>;
 
   // Email Send tracking methods
   createEmailSend(send: Omit<EmailSend, 'id'>): Promise<EmailSend>;
+  getEmailSendByRecipient(campaignId: string, attendeeId: string): Promise<EmailSend | undefined>;
+  getEmailSendByProviderMessageId(providerMessageId: string): Promise<EmailSend | undefined>;
+  getCampaignEmailSends(campaignId: string): Promise<EmailSend[]>;
   updateEmailSend(id: string, send: Partial<EmailSend>): Promise<void>;
   getEmailSendStats(campaignId: string): Promise<{
     sent: number;
@@ -73,20 +156,63 @@ export interface IStorage {
     bounced: number;
   }>;
 
+  // Suppression list methods (emails are matched lowercased)
+  getSuppressions(workspaceId: string): Promise<Suppression[]>;
+  getSuppression(workspaceId: string, email: string): Promise<Suppression | undefined>;
+  createSuppression(suppression: WorkspaceScoped<InsertSuppression>): Promise<Suppression>;
+  deleteSuppression(id: string, workspaceId?: string): Promise<boolean>;
+
+  // Event reminder ledger methods
+  getEventReminders(eventId: string): Promise<EventReminder[]>;
+  recordEventReminders(reminders: Omit<EventReminder, 'id' | 'sentAt'>[]): Promise<void>;
+
+  // Email send queue methods
+  // Also records a "queued" email send per new recipient for the delivery view
+  enqueueEmails(campaignId: string, attendeeIds: string[]): Promise<number>;
+  // Moves up to limit due items to "processing" and returns them; an item is
+  // returned to only one caller, which then owns sending it
+  claimDueQueueItems(limit: number, workerId: string): Promise<EmailQueueItem[]>;
+  updateQueueItem(id: string, item: Partial<EmailQueueItem>): Promise<EmailQueueItem | undefined>;
+  // Returns "processing" items whose lease was taken before expiredBefore to "pending"
+  requeueExpiredQueueItems(expiredBefore: Date): Promise<number>;
+  getCampaignSendProgress(campaignId: string): Promise<CampaignSendProgress>;
+
   // Content Preview methods
   getContentPreviews(eventId: string): Promise<ContentPreview[]>;
   createContentPreview(preview: InsertContentPreview): Promise<ContentPreview>;
 
+  // Speaker methods
+  getSpeakers(workspaceId: string): Promise<Speaker[]>;
+  getSpeaker(id: string, workspaceId?: string): Promise<Speaker | undefined>;
+  createSpeaker(speaker: WorkspaceScoped<InsertSpeaker>): Promise<Speaker>;
+  updateSpeaker(id: string, speaker: Partial<Speaker>, workspaceId?: string): Promise<Speaker | undefined>;
+  // Also takes the speaker off their sessions and removes their speaker-bio content
+  deleteSpeaker(id: string, workspaceId?: string): Promise<boolean>;
+
+  // Event session methods
+  getEventSessions(eventId: string): Promise<EventSession[]>; // In start time order
+  getEventSession(id: string): Promise<EventSession | undefined>;
+  createEventSession(session: InsertEventSession & { eventId: string }): Promise<EventSession>;
+  updateEventSession(id: string, session: Partial<EventSession>): Promise<EventSession | undefined>;
+  // Also removes the session's bookmarks
+  deleteEventSession(id: string): Promise<boolean>;
+
+  // Session bookmark methods (bookmarking twice keeps one bookmark)
+  getSessionBookmarks(sessionIds: string[]): Promise<SessionBookmark[]>;
+  addSessionBookmark(sessionId: string, attendeeId: string): Promise<SessionBookmark>;
+  removeSessionBookmark(sessionId: string, attendeeId: string): Promise<boolean>;
+
   // Analytics methods
-  createAnalyticsEvent(event: InsertAnalyticsEvent): Promise<AnalyticsEvent>;
+  createAnalyticsEvent(event: WorkspaceScoped<InsertAnalyticsEvent>): Promise<AnalyticsEvent>;
   getAnalyticsEvents(filters?: {
+    workspaceId?: string;
     eventType?: string;
     eventId?: string;
     attendeeId?: string;
     startDate?: Date;
     endDate?: Date;
   }): Promise<AnalyticsEvent[]>;
-  getEngagementMetrics(days: number): Promise<{
+  getEngagementMetrics(days: number, workspaceId?: string): Promise<{
     registrations: { date: string; count: number }[];
     attendance: { date: string; count: number }[];
     engagement: { date: string; score: number }[];
@@ -94,25 +220,49 @@ export interface IStorage {
 }
 
 export class MemStorage implements IStorage {
+  private workspaces: Map<string, Workspace> = new Map();
+  private workspaceMembers: Map<string, WorkspaceMember> = new Map();
   private users: Map<string, User> = new Map();
   private events: Map<string, Event> = new Map();
+  private eventSeries: Map<string, EventSeries> = new Map();
   private attendees: Map<string, Attendee> = new Map();
   private eventRegistrations: Map<string, EventRegistration> = new Map();
   private emailCampaigns: Map<string, EmailCampaign> = new Map();
   private emailTemplates: Map<string, EmailTemplate> = new Map();
+  private emailTemplateVersions: Map<string, EmailTemplateVersion> = new Map();
   private emailSends: Map<string, EmailSend> = new Map();
+  private emailQueue: Map<string, EmailQueueItem> = new Map();
+  private eventReminders: Map<string, EventReminder> = new Map();
+  private suppressions: Map<string, Suppression> = new Map();
   private contentPreviews: Map<string, ContentPreview> = new Map();
+  private speakers: Map<string, Speaker> = new Map();
+  private eventSessions: Map<string, EventSession> = new Map();
+  private sessionBookmarks: Map<string, SessionBookmark> = new Map();
   private analyticsEvents: Map<string, AnalyticsEvent> = new Map();
+  sessionStore: session.Store;
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
     this.seedData();
   }
 
   private seedData() {
+    // Seed the default workspace that pre-existing data and public registration fall back to
+    const defaultWorkspace: Workspace = {
+      id: randomUUID(),
+      name: "Default Workspace",
+      slug: "default",
+      createdAt: new Date(),
+    };
+    this.workspaces.set(defaultWorkspace.id, defaultWorkspace);
+
     // Seed some initial email templates
     const templates: EmailTemplate[] = [
       {
         id: randomUUID(),
+        workspaceId: defaultWorkspace.id,
         name: "Event Reminder",
         type: "reminder",
         subject: "Don't forget: {{eventTitle}} starts in {{timeUntil}}",
@@ -130,12 +280,16 @@ We're looking forward to seeing you there!
 Best regards,
 The EventBoost Team`,
         variables: ["attendeeName", "eventTitle", "timeUntil", "eventDate", "eventTime", "eventLocation"],
+        design: null,
+        textContent: null,
         isActive: true,
+        currentVersion: 1,
         createdAt: new Date(),
         updatedAt: new Date(),
       },
       {
         id: randomUUID(),
+        workspaceId: defaultWorkspace.id,
         name: "Welcome Email",
         type: "welcome",
         subject: "Welcome to {{eventTitle}}!",
@@ -156,12 +310,16 @@ We'll send you reminders as the event approaches.
 Best regards,
 The EventBoost Team`,
         variables: ["attendeeName", "eventTitle", "eventDescription", "eventDate", "eventTime", "eventLocation"],
+        design: null,
+        textContent: null,
         isActive: true,
+        currentVersion: 1,
         createdAt: new Date(),
         updatedAt: new Date(),
       },
       {
         id: randomUUID(),
+        workspaceId: defaultWorkspace.id,
         name: "Thank You Note",
         type: "thank-you",
         subject: "Thank you for attending {{eventTitle}}",
@@ -179,7 +337,10 @@ Stay tuned for upcoming events!
 Best regards,
 The EventBoost Team`,
         variables: ["attendeeName", "eventTitle", "resourceLinks", "feedbackLink"],
+        design: null,
+        textContent: null,
         isActive: true,
+        currentVersion: 1,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -187,10 +348,61 @@ The EventBoost Team`,
 
     templates.forEach(template => {
       this.emailTemplates.set(template.id, template);
+      this.recordTemplateVersion(template, {});
     });
   }
 
+  // Returns the record only if it belongs to the given workspace (or no workspace was given)
+  private inWorkspace<T extends { workspaceId: string }>(record: T | undefined, workspaceId?: string): T | undefined {
+    if (!record || (workspaceId && record.workspaceId !== workspaceId)) return undefined;
+    return record;
+  }
+
+  // Workspace methods
+  async getWorkspaces(): Promise<Workspace[]> {
+    return Array.from(this.workspaces.values()).sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    return this.workspaces.get(id);
+  }
+
+  async getWorkspaceBySlug(slug: string): Promise<Workspace | undefined> {
+    return Array.from(this.workspaces.values()).find(workspace => workspace.slug === slug);
+  }
+
+  async createWorkspace(insertWorkspace: InsertWorkspace): Promise<Workspace> {
+    const id = randomUUID();
+    const workspace: Workspace = { ...insertWorkspace, id, createdAt: new Date() };
+    this.workspaces.set(id, workspace);
+    return workspace;
+  }
+
+  async getUserWorkspaces(userId: string): Promise<Workspace[]> {
+    const workspaceIds = new Set(
+      Array.from(this.workspaceMembers.values())
+        .filter(member => member.userId === userId)
+        .map(member => member.workspaceId)
+    );
+    return (await this.getWorkspaces()).filter(workspace => workspaceIds.has(workspace.id));
+  }
+
+  async addWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember> {
+    const existing = Array.from(this.workspaceMembers.values())
+      .find(member => member.workspaceId === workspaceId && member.userId === userId);
+    if (existing) return existing;
+
+    const id = randomUUID();
+    const member: WorkspaceMember = { id, workspaceId, userId, createdAt: new Date() };
+    this.workspaceMembers.set(id, member);
+    return member;
+  }
+
   // User methods
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
   }
@@ -201,24 +413,27 @@ The EventBoost Team`,
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, role: insertUser.role ?? "viewer", id };
     this.users.set(id, user);
     return user;
   }
 
   // Event methods
-  async getEvents(): Promise<Event[]> {
-    return Array.from(this.events.values()).sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
+  async getEvents(workspaceId?: string): Promise<Event[]> {
+    return Array.from(this.events.values())
+      .filter(event => !event.deletedAt && (!workspaceId || event.workspaceId === workspaceId))
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
   }
 
-  async getEvent(id: string): Promise<Event | undefined> {
-    return this.events.get(id);
+  async getEvent(id: string, workspaceId?: string): Promise<Event | undefined> {
+    return this.inWorkspace(this.events.get(id), workspaceId);
   }
 
-  async createEvent(insertEvent: InsertEvent): Promise<Event> {
+  async createEvent(insertEvent: WorkspaceScoped<InsertEvent> & { seriesId?: string | null }): Promise<Event> {
     const id = randomUUID();
     const now = new Date();
     const event: Event = {
+      workspaceId: insertEvent.workspaceId,
       title: insertEvent.title,
       description: insertEvent.description ?? null,
       startDate: insertEvent.startDate,
@@ -226,10 +441,16 @@ The EventBoost Team`,
       timezone: insertEvent.timezone ?? null,
       maxAttendees: insertEvent.maxAttendees ?? null,
       isPublic: insertEvent.isPublic ?? null,
+      registrationMode: insertEvent.registrationMode ?? "open",
       status: (insertEvent.status as any) ?? null,
       imageUrl: insertEvent.imageUrl ?? null,
       location: insertEvent.location ?? null,
       tags: insertEvent.tags ?? null,
+      reminderOffsets: insertEvent.reminderOffsets ?? DEFAULT_REMINDER_OFFSETS,
+      registrationFields: insertEvent.registrationFields ?? [],
+      seriesId: insertEvent.seriesId ?? null,
+      registeredCount: 0,
+      deletedAt: null,
       id,
       createdAt: now,
       updatedAt: now,
@@ -238,36 +459,58 @@ The EventBoost Team`,
     return event;
   }
 
-  async updateEvent(id: string, updateData: Partial<Event>): Promise<Event | undefined> {
-    const event = this.events.get(id);
+  async updateEvent(id: string, updateData: Partial<Event>, workspaceId?: string): Promise<Event | undefined> {
+    const event = this.inWorkspace(this.events.get(id), workspaceId);
     if (!event) return undefined;
 
-    const updatedEvent = { ...event, ...updateData, updatedAt: new Date() };
+    const updatedEvent = { ...event, ...updateData, workspaceId: event.workspaceId, updatedAt: new Date() };
     this.events.set(id, updatedEvent);
     return updatedEvent;
   }
 
-  async deleteEvent(id: string): Promise<boolean> {
-    return this.events.delete(id);
+  async deleteEvent(id: string, workspaceId?: string): Promise<boolean> {
+    const event = this.inWorkspace(this.events.get(id), workspaceId);
+    if (!event || event.deletedAt) return false;
+    this.events.set(id, { ...event, deletedAt: new Date(), updatedAt: new Date() });
+    return true;
+  }
+
+  // Event series methods
+  async getEventSeries(id: string, workspaceId?: string): Promise<EventSeries | undefined> {
+    return this.inWorkspace(this.eventSeries.get(id), workspaceId);
+  }
+
+  async createEventSeries(insertSeries: WorkspaceScoped<InsertEventSeries>): Promise<EventSeries> {
+    const series: EventSeries = {
+      ...insertSeries,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.eventSeries.set(series.id, series);
+    return series;
   }
 
   // Attendee methods
-  async getAttendees(): Promise<Attendee[]> {
-    return Array.from(this.attendees.values()).sort((a, b) => new Date(b.registrationDate!).getTime() - new Date(a.registrationDate!).getTime());
+  async getAttendees(workspaceId?: string): Promise<Attendee[]> {
+    return Array.from(this.attendees.values())
+      .filter(attendee => !workspaceId || attendee.workspaceId === workspaceId)
+      .sort((a, b) => new Date(b.registrationDate!).getTime() - new Date(a.registrationDate!).getTime());
   }
 
-  async getAttendee(id: string): Promise<Attendee | undefined> {
-    return this.attendees.get(id);
+  async getAttendee(id: string, workspaceId?: string): Promise<Attendee | undefined> {
+    return this.inWorkspace(this.attendees.get(id), workspaceId);
   }
 
-  async getAttendeeByEmail(email: string): Promise<Attendee | undefined> {
-    return Array.from(this.attendees.values()).find(attendee => attendee.email === email);
+  async getAttendeeByEmail(email: string, workspaceId: string): Promise<Attendee | undefined> {
+    return Array.from(this.attendees.values())
+      .find(attendee => attendee.email === email && attendee.workspaceId === workspaceId);
   }
 
-  async createAttendee(insertAttendee: InsertAttendee): Promise<Attendee> {
+  async createAttendee(insertAttendee: WorkspaceScoped<InsertAttendee>): Promise<Attendee> {
     const id = randomUUID();
     const now = new Date();
     const attendee: Attendee = {
+      workspaceId: insertAttendee.workspaceId,
       email: insertAttendee.email,
       name: insertAttendee.name,
       company: insertAttendee.company ?? null,
@@ -283,11 +526,11 @@ The EventBoost Team`,
     return attendee;
   }
 
-  async updateAttendee(id: string, updateData: Partial<Attendee>): Promise<Attendee | undefined> {
-    const attendee = this.attendees.get(id);
+  async updateAttendee(id: string, updateData: Partial<Attendee>, workspaceId?: string): Promise<Attendee | undefined> {
+    const attendee = this.inWorkspace(this.attendees.get(id), workspaceId);
     if (!attendee) return undefined;
 
-    const updatedAttendee = { ...attendee, ...updateData, lastActivity: new Date() };
+    const updatedAttendee = { ...attendee, ...updateData, workspaceId: attendee.workspaceId, lastActivity: new Date() };
     this.attendees.set(id, updatedAttendee);
     return updatedAttendee;
   }
@@ -310,6 +553,10 @@ The EventBoost Team`,
     return registrations.sort((a, b) => new Date(b.registrationDate!).getTime() - new Date(a.registrationDate!).getTime());
   }
 
+  async getEventRegistration(id: string): Promise<EventRegistration | undefined> {
+    return this.eventRegistrations.get(id);
+  }
+
   async getAttendeeRegistrations(attendeeId: string): Promise<EventRegistration[]> {
     return Array.from(this.eventRegistrations.values())
       .filter(reg => reg.attendeeId === attendeeId)
@@ -321,8 +568,12 @@ The EventBoost Team`,
     const registration: EventRegistration = {
       eventId: insertRegistration.eventId,
       attendeeId: insertRegistration.attendeeId,
+      status: insertRegistration.status ?? "registered",
+      answers: insertRegistration.answers ?? null,
       attended: insertRegistration.attended ?? null,
       attendanceTime: insertRegistration.attendanceTime ?? null,
+      checkedInAt: insertRegistration.checkedInAt ?? null,
+      checkedOutAt: insertRegistration.checkedOutAt ?? null,
       feedback: (insertRegistration.feedback as any) ?? null,
       id,
       registrationDate: new Date(),
@@ -330,11 +581,13 @@ The EventBoost Team`,
     this.eventRegistrations.set(id, registration);
 
     // Track analytics
+    const event = this.events.get(registration.eventId);
     await this.createAnalyticsEvent({
+      workspaceId: event!.workspaceId,
       eventType: "registration",
       attendeeId: registration.attendeeId,
       eventId: registration.eventId,
-      metadata: { registrationId: id },
+      metadata: { registrationId: id, status: registration.status },
     });
 
     return registration;
@@ -349,29 +602,62 @@ The EventBoost Team`,
 
     // Track attendance analytics if attended status changed
     if (updateData.attended === true) {
+      const event = this.events.get(registration.eventId);
       await this.createAnalyticsEvent({
+        workspaceId: event!.workspaceId,
         eventType: "attendance",
         attendeeId: registration.attendeeId,
         eventId: registration.eventId,
-        metadata: { registrationId: id, attendanceTime: updateData.attendanceTime },
+        metadata: {
+          registrationId: id,
+          attendanceTime: updateData.attendanceTime,
+          ...(updateData.checkedInAt && { action: "check_in", checkedInAt: updateData.checkedInAt }),
+        },
       });
     }
 
     return updatedRegistration;
   }
 
+  async transitionEventRegistration(id: string, from: RegistrationStatus, to: RegistrationStatus): Promise<EventRegistration | undefined> {
+    const registration = this.eventRegistrations.get(id);
+    if (!registration || registration.status !== from) return undefined;
+
+    const updatedRegistration: EventRegistration = { ...registration, status: to };
+    this.eventRegistrations.set(id, updatedRegistration);
+    return updatedRegistration;
+  }
+
+  async claimEventSeat(eventId: string): Promise<boolean> {
+    const event = this.events.get(eventId);
+    if (!event) return false;
+    if (event.maxAttendees != null && event.registeredCount >= event.maxAttendees) return false;
+
+    this.events.set(eventId, { ...event, registeredCount: event.registeredCount + 1 });
+    return true;
+  }
+
+  async releaseEventSeat(eventId: string): Promise<void> {
+    const event = this.events.get(eventId);
+    if (!event) return;
+    this.events.set(eventId, { ...event, registeredCount: Math.max(event.registeredCount - 1, 0) });
+  }
+
   // Email Campaign methods
-  async getEmailCampaigns(): Promise<EmailCampaign[]> {
-    return Array.from(this.emailCampaigns.values()).sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
+  async getEmailCampaigns(workspaceId?: string): Promise<EmailCampaign[]> {
+    return Array.from(this.emailCampaigns.values())
+      .filter(campaign => !workspaceId || campaign.workspaceId === workspaceId)
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
   }
 
-  async getEmailCampaign(id: string): Promise<EmailCampaign | undefined> {
-    return this.emailCampaigns.get(id);
+  async getEmailCampaign(id: string, workspaceId?: string): Promise<EmailCampaign | undefined> {
+    return this.inWorkspace(this.emailCampaigns.get(id), workspaceId);
   }
 
-  async createEmailCampaign(insertCampaign: InsertEmailCampaign): Promise<EmailCampaign> {
+  async createEmailCampaign(insertCampaign: WorkspaceScoped<InsertEmailCampaign>): Promise<EmailCampaign> {
     const id = randomUUID();
     const campaign: EmailCampaign = {
+      workspaceId: insertCampaign.workspaceId,
       name: insertCampaign.name,
       type: insertCampaign.type as any,
       subject: insertCampaign.subject,
@@ -379,6 +665,7 @@ The EventBoost Team`,
       status: (insertCampaign.status as any) ?? null,
       eventId: insertCampaign.eventId ?? null,
       templateId: insertCampaign.templateId ?? null,
+      templateVersionId: insertCampaign.templateVersionId ?? await this.currentTemplateVersionId(insertCampaign.templateId),
       scheduledAt: insertCampaign.scheduledAt ?? null,
       targetAudience: (insertCampaign.targetAudience as any) ?? null,
       id,
@@ -389,11 +676,11 @@ The EventBoost Team`,
     return campaign;
   }
 
-  async updateEmailCampaign(id: string, updateData: Partial<EmailCampaign>): Promise<EmailCampaign | undefined> {
-    const campaign = this.emailCampaigns.get(id);
+  async updateEmailCampaign(id: string, updateData: Partial<EmailCampaign>, workspaceId?: string): Promise<EmailCampaign | undefined> {
+    const campaign = this.inWorkspace(this.emailCampaigns.get(id), workspaceId);
     if (!campaign) return undefined;
 
-    const updatedCampaign = { ...campaign, ...updateData };
+    const updatedCampaign = { ...campaign, ...updateData, workspaceId: campaign.workspaceId };
     this.emailCampaigns.set(id, updatedCampaign);
     return updatedCampaign;
   }
@@ -408,44 +695,102 @@ The EventBoost Team`,
       );
   }
 
+  async claimScheduledCampaign(id: string): Promise<EmailCampaign | undefined> {
+    const campaign = this.emailCampaigns.get(id);
+    if (!campaign || campaign.status !== "scheduled") return undefined;
+
+    const claimedCampaign: EmailCampaign = { ...campaign, status: "sending" };
+    this.emailCampaigns.set(id, claimedCampaign);
+    return claimedCampaign;
+  }
+
   // Email Template methods
-  async getEmailTemplates(): Promise<EmailTemplate[]> {
+  async getEmailTemplates(workspaceId?: string): Promise<EmailTemplate[]> {
     return Array.from(this.emailTemplates.values())
-      .filter(template => template.isActive)
+      .filter(template => template.isActive && (!workspaceId || template.workspaceId === workspaceId))
       .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
   }
 
-  async getEmailTemplate(id: string): Promise<EmailTemplate | undefined> {
-    return this.emailTemplates.get(id);
+  async getEmailTemplate(id: string, workspaceId?: string): Promise<EmailTemplate | undefined> {
+    return this.inWorkspace(this.emailTemplates.get(id), workspaceId);
   }
 
-  async createEmailTemplate(insertTemplate: InsertEmailTemplate): Promise<EmailTemplate> {
+  async createEmailTemplate(insertTemplate: WorkspaceScoped<InsertEmailTemplate>, origin: TemplateVersionOrigin = {}): Promise<EmailTemplate> {
     const id = randomUUID();
     const now = new Date();
     const template: EmailTemplate = {
+      workspaceId: insertTemplate.workspaceId,
       name: insertTemplate.name,
       type: insertTemplate.type as any,
       subject: insertTemplate.subject,
       content: insertTemplate.content,
       variables: insertTemplate.variables ?? null,
+      design: insertTemplate.design ?? null,
+      textContent: insertTemplate.textContent ?? null,
       isActive: insertTemplate.isActive ?? null,
+      currentVersion: 1,
       id,
       createdAt: now,
       updatedAt: now,
     };
     this.emailTemplates.set(id, template);
+    this.recordTemplateVersion(template, origin);
     return template;
   }
 
-  async updateEmailTemplate(id: string, updateData: Partial<EmailTemplate>): Promise<EmailTemplate | undefined> {
-    const template = this.emailTemplates.get(id);
+  async updateEmailTemplate(id: string, updateData: Partial<EmailTemplate>, workspaceId?: string, origin: TemplateVersionOrigin = {}): Promise<EmailTemplate | undefined> {
+    const template = this.inWorkspace(this.emailTemplates.get(id), workspaceId);
     if (!template) return undefined;
 
-    const updatedTemplate = { ...template, ...updateData, updatedAt: new Date() };
+    const newVersion = changesTemplateContent(template, updateData);
+    const updatedTemplate: EmailTemplate = {
+      ...template,
+      ...updateData,
+      workspaceId: template.workspaceId,
+      currentVersion: newVersion ? template.currentVersion + 1 : template.currentVersion,
+      updatedAt: new Date(),
+    };
     this.emailTemplates.set(id, updatedTemplate);
+    if (newVersion) {
+      this.recordTemplateVersion(updatedTemplate, origin);
+    }
     return updatedTemplate;
   }
 
+  async getEmailTemplateVersions(templateId: string): Promise<EmailTemplateVersion[]> {
+    return Array.from(this.emailTemplateVersions.values())
+      .filter(version => version.templateId === templateId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getEmailTemplateVersion(id: string): Promise<EmailTemplateVersion | undefined> {
+    return this.emailTemplateVersions.get(id);
+  }
+
+  private recordTemplateVersion(template: EmailTemplate, origin: TemplateVersionOrigin): void {
+    const id = randomUUID();
+    this.emailTemplateVersions.set(id, {
+      id,
+      templateId: template.id,
+      version: template.currentVersion,
+      subject: template.subject,
+      content: template.content,
+      variables: template.variables,
+      design: template.design,
+      textContent: template.textContent,
+      createdBy: origin.createdBy ?? null,
+      restoredFrom: origin.restoredFrom ?? null,
+      createdAt: new Date(),
+    });
+  }
+
+  private async currentTemplateVersionId(templateId?: string | null): Promise<string | null> {
+    if (!templateId) return null;
+    const template = this.emailTemplates.get(templateId);
+    const versions = await this.getEmailTemplateVersions(templateId);
+    return versions.find(version => version.version === template?.currentVersion)?.id ?? null;
+  }
+
   // Email Send tracking methods
   async createEmailSend(insertSend: Omit<EmailSend, 'id'>): Promise<EmailSend> {
     const id = randomUUID();
@@ -454,6 +799,20 @@ The EventBoost Team`,
     return send;
   }
 
+  async getEmailSendByRecipient(campaignId: string, attendeeId: string): Promise<EmailSend | undefined> {
+    return Array.from(this.emailSends.values())
+      .find(send => send.campaignId === campaignId && send.attendeeId === attendeeId);
+  }
+
+  async getEmailSendByProviderMessageId(providerMessageId: string): Promise<EmailSend | undefined> {
+    return Array.from(this.emailSends.values())
+      .find(send => send.providerMessageId === providerMessageId);
+  }
+
+  async getCampaignEmailSends(campaignId: string): Promise<EmailSend[]> {
+    return Array.from(this.emailSends.values()).filter(send => send.campaignId === campaignId);
+  }
+
   async updateEmailSend(id: string, updateData: Partial<EmailSend>): Promise<void> {
     const send = this.emailSends.get(id);
     if (send) {
@@ -461,8 +820,10 @@ The EventBoost Team`,
       this.emailSends.set(id, updatedSend);
 
       // Track analytics for email interactions
+      const workspaceId = this.emailCampaigns.get(send.campaignId)!.workspaceId;
       if (updateData.openedAt) {
         await this.createAnalyticsEvent({
+          workspaceId,
           eventType: "email_open",
           attendeeId: send.attendeeId,
           campaignId: send.campaignId,
@@ -471,6 +832,7 @@ The EventBoost Team`,
       }
       if (updateData.clickedAt) {
         await this.createAnalyticsEvent({
+          workspaceId,
           eventType: "email_click",
           attendeeId: send.attendeeId,
           campaignId: send.campaignId,
@@ -489,13 +851,163 @@ The EventBoost Team`,
     const sends = Array.from(this.emailSends.values()).filter(send => send.campaignId === campaignId);
     
     return {
-      sent: sends.length,
+      sent: sends.filter(send => send.sentAt).length,
       opened: sends.filter(send => send.openedAt).length,
       clicked: sends.filter(send => send.clickedAt).length,
       bounced: sends.filter(send => send.bounced).length,
     };
   }
 
+  // Suppression list methods
+  async getSuppressions(workspaceId: string): Promise<Suppression[]> {
+    return Array.from(this.suppressions.values())
+      .filter(suppression => suppression.workspaceId === workspaceId)
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
+  }
+
+  async getSuppression(workspaceId: string, email: string): Promise<Suppression | undefined> {
+    const normalized = email.trim().toLowerCase();
+    return Array.from(this.suppressions.values())
+      .find(suppression => suppression.workspaceId === workspaceId && suppression.email === normalized);
+  }
+
+  async createSuppression(insertSuppression: WorkspaceScoped<InsertSuppression>): Promise<Suppression> {
+    const existing = await this.getSuppression(insertSuppression.workspaceId, insertSuppression.email);
+    if (existing) return existing;
+
+    const id = randomUUID();
+    const suppression: Suppression = {
+      workspaceId: insertSuppression.workspaceId,
+      email: insertSuppression.email.trim().toLowerCase(),
+      reason: insertSuppression.reason,
+      campaignId: insertSuppression.campaignId ?? null,
+      note: insertSuppression.note ?? null,
+      id,
+      createdAt: new Date(),
+    };
+    this.suppressions.set(id, suppression);
+    return suppression;
+  }
+
+  async deleteSuppression(id: string, workspaceId?: string): Promise<boolean> {
+    if (!this.inWorkspace(this.suppressions.get(id), workspaceId)) return false;
+    return this.suppressions.delete(id);
+  }
+
+  // Event reminder ledger methods
+  async getEventReminders(eventId: string): Promise<EventReminder[]> {
+    return Array.from(this.eventReminders.values()).filter(reminder => reminder.eventId === eventId);
+  }
+
+  async recordEventReminders(reminders: Omit<EventReminder, 'id' | 'sentAt'>[]): Promise<void> {
+    const recorded = new Set(
+      Array.from(this.eventReminders.values())
+        .map(r => `${r.eventId}:${r.attendeeId}:${r.offsetMinutes}`)
+    );
+
+    for (const reminder of reminders) {
+      const key = `${reminder.eventId}:${reminder.attendeeId}:${reminder.offsetMinutes}`;
+      if (recorded.has(key)) continue;
+
+      const id = randomUUID();
+      this.eventReminders.set(id, { ...reminder, id, sentAt: new Date() });
+      recorded.add(key);
+    }
+  }
+
+  // Email send queue methods
+  async enqueueEmails(campaignId: string, attendeeIds: string[]): Promise<number> {
+    const queued = new Set(
+      Array.from(this.emailQueue.values())
+        .filter(item => item.campaignId === campaignId)
+        .map(item => item.attendeeId)
+    );
+
+    let count = 0;
+    for (const attendeeId of attendeeIds) {
+      if (queued.has(attendeeId)) continue;
+
+      const id = randomUUID();
+      const now = new Date();
+      this.emailQueue.set(id, {
+        id,
+        campaignId,
+        attendeeId,
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: now,
+        lastError: null,
+        sentAt: null,
+        lockedAt: null,
+        lockedBy: null,
+        createdAt: now,
+      });
+      await this.createQueuedEmailSend(campaignId, attendeeId);
+      queued.add(attendeeId);
+      count++;
+    }
+    return count;
+  }
+
+  private async createQueuedEmailSend(campaignId: string, attendeeId: string): Promise<void> {
+    if (await this.getEmailSendByRecipient(campaignId, attendeeId)) return;
+
+    await this.createEmailSend({
+      campaignId,
+      attendeeId,
+      status: "queued",
+      providerMessageId: null,
+      errorCode: null,
+      errorMessage: null,
+      sentAt: null,
+      deliveredAt: null,
+      openedAt: null,
+      clickedAt: null,
+      bounced: false,
+      complained: false,
+      unsubscribed: false,
+    });
+  }
+
+  async claimDueQueueItems(limit: number, workerId: string): Promise<EmailQueueItem[]> {
+    const now = new Date();
+    const due = Array.from(this.emailQueue.values())
+      .filter(item => item.status === "pending" && item.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+
+    return due.map(item => {
+      const claimed = { ...item, status: "processing" as const, lockedAt: now, lockedBy: workerId };
+      this.emailQueue.set(item.id, claimed);
+      return claimed;
+    });
+  }
+
+  async updateQueueItem(id: string, updateData: Partial<EmailQueueItem>): Promise<EmailQueueItem | undefined> {
+    const item = this.emailQueue.get(id);
+    if (!item) return undefined;
+
+    const updatedItem = { ...item, ...updateData };
+    this.emailQueue.set(id, updatedItem);
+    return updatedItem;
+  }
+
+  async requeueExpiredQueueItems(expiredBefore: Date): Promise<number> {
+    let count = 0;
+    this.emailQueue.forEach((item, id) => {
+      if (item.status === "processing" && (!item.lockedAt || item.lockedAt < expiredBefore)) {
+        this.emailQueue.set(id, { ...item, status: "pending", lockedAt: null, lockedBy: null });
+        count++;
+      }
+    });
+    return count;
+  }
+
+  async getCampaignSendProgress(campaignId: string): Promise<CampaignSendProgress> {
+    const items = Array.from(this.emailQueue.values()).filter(item => item.campaignId === campaignId);
+    return summarizeQueueItems(items);
+  }
+
   // Content Preview methods
   async getContentPreviews(eventId: string): Promise<ContentPreview[]> {
     return Array.from(this.contentPreviews.values())
@@ -513,6 +1025,7 @@ The EventBoost Team`,
       url: insertPreview.url ?? null,
       fileData: insertPreview.fileData ?? null,
       targetInterests: insertPreview.targetInterests ?? null,
+      speakerId: insertPreview.speakerId ?? null,
       id,
       createdAt: new Date(),
     };
@@ -520,10 +1033,128 @@ The EventBoost Team`,
     return preview;
   }
 
+  // Speaker methods
+  async getSpeakers(workspaceId: string): Promise<Speaker[]> {
+    return Array.from(this.speakers.values())
+      .filter(speaker => speaker.workspaceId === workspaceId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSpeaker(id: string, workspaceId?: string): Promise<Speaker | undefined> {
+    return this.inWorkspace(this.speakers.get(id), workspaceId);
+  }
+
+  async createSpeaker(insertSpeaker: WorkspaceScoped<InsertSpeaker>): Promise<Speaker> {
+    const id = randomUUID();
+    const speaker: Speaker = {
+      workspaceId: insertSpeaker.workspaceId,
+      name: insertSpeaker.name,
+      title: insertSpeaker.title ?? null,
+      company: insertSpeaker.company ?? null,
+      bio: insertSpeaker.bio ?? null,
+      photoUrl: insertSpeaker.photoUrl ?? null,
+      id,
+      createdAt: new Date(),
+    };
+    this.speakers.set(id, speaker);
+    return speaker;
+  }
+
+  async updateSpeaker(id: string, updateData: Partial<Speaker>, workspaceId?: string): Promise<Speaker | undefined> {
+    const speaker = this.inWorkspace(this.speakers.get(id), workspaceId);
+    if (!speaker) return undefined;
+
+    const updatedSpeaker = { ...speaker, ...updateData, id, workspaceId: speaker.workspaceId };
+    this.speakers.set(id, updatedSpeaker);
+    return updatedSpeaker;
+  }
+
+  async deleteSpeaker(id: string, workspaceId?: string): Promise<boolean> {
+    if (!this.inWorkspace(this.speakers.get(id), workspaceId)) return false;
+
+    this.eventSessions.forEach((session, sessionId) => {
+      if (session.speakerIds.includes(id)) {
+        this.eventSessions.set(sessionId, { ...session, speakerIds: session.speakerIds.filter(s => s !== id) });
+      }
+    });
+    this.contentPreviews.forEach((preview, previewId) => {
+      if (preview.speakerId === id) this.contentPreviews.delete(previewId);
+    });
+    return this.speakers.delete(id);
+  }
+
+  // Event session methods
+  async getEventSessions(eventId: string): Promise<EventSession[]> {
+    return Array.from(this.eventSessions.values())
+      .filter(session => session.eventId === eventId)
+      .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  }
+
+  async getEventSession(id: string): Promise<EventSession | undefined> {
+    return this.eventSessions.get(id);
+  }
+
+  async createEventSession(insertSession: InsertEventSession & { eventId: string }): Promise<EventSession> {
+    const id = randomUUID();
+    const session: EventSession = {
+      eventId: insertSession.eventId,
+      title: insertSession.title,
+      abstract: insertSession.abstract ?? null,
+      startTime: insertSession.startTime,
+      endTime: insertSession.endTime,
+      track: insertSession.track ?? null,
+      location: insertSession.location ?? null,
+      speakerIds: insertSession.speakerIds ?? [],
+      id,
+      createdAt: new Date(),
+    };
+    this.eventSessions.set(id, session);
+    return session;
+  }
+
+  async updateEventSession(id: string, updateData: Partial<EventSession>): Promise<EventSession | undefined> {
+    const session = this.eventSessions.get(id);
+    if (!session) return undefined;
+
+    const updatedSession = { ...session, ...updateData, id, eventId: session.eventId };
+    this.eventSessions.set(id, updatedSession);
+    return updatedSession;
+  }
+
+  async deleteEventSession(id: string): Promise<boolean> {
+    this.sessionBookmarks.forEach((bookmark, bookmarkId) => {
+      if (bookmark.sessionId === id) this.sessionBookmarks.delete(bookmarkId);
+    });
+    return this.eventSessions.delete(id);
+  }
+
+  // Session bookmark methods
+  async getSessionBookmarks(sessionIds: string[]): Promise<SessionBookmark[]> {
+    const ids = new Set(sessionIds);
+    return Array.from(this.sessionBookmarks.values()).filter(bookmark => ids.has(bookmark.sessionId));
+  }
+
+  async addSessionBookmark(sessionId: string, attendeeId: string): Promise<SessionBookmark> {
+    const existing = Array.from(this.sessionBookmarks.values())
+      .find(bookmark => bookmark.sessionId === sessionId && bookmark.attendeeId === attendeeId);
+    if (existing) return existing;
+
+    const bookmark: SessionBookmark = { id: randomUUID(), sessionId, attendeeId, createdAt: new Date() };
+    this.sessionBookmarks.set(bookmark.id, bookmark);
+    return bookmark;
+  }
+
+  async removeSessionBookmark(sessionId: string, attendeeId: string): Promise<boolean> {
+    const bookmark = Array.from(this.sessionBookmarks.values())
+      .find(b => b.sessionId === sessionId && b.attendeeId === attendeeId);
+    return bookmark ? this.sessionBookmarks.delete(bookmark.id) : false;
+  }
+
   // Analytics methods
-  async createAnalyticsEvent(insertEvent: InsertAnalyticsEvent): Promise<AnalyticsEvent> {
+  async createAnalyticsEvent(insertEvent: WorkspaceScoped<InsertAnalyticsEvent>): Promise<AnalyticsEvent> {
     const id = randomUUID();
     const event: AnalyticsEvent = {
+      workspaceId: insertEvent.workspaceId,
       eventType: insertEvent.eventType as any,
       eventId: insertEvent.eventId ?? null,
       attendeeId: insertEvent.attendeeId ?? null,
@@ -537,6 +1168,7 @@ The EventBoost Team`,
   }
 
   async getAnalyticsEvents(filters?: {
+    workspaceId?: string;
     eventType?: string;
     eventId?: string;
     attendeeId?: string;
@@ -546,6 +1178,9 @@ The EventBoost Team`,
     let events = Array.from(this.analyticsEvents.values());
 
     if (filters) {
+      if (filters.workspaceId) {
+        events = events.filter(event => event.workspaceId === filters.workspaceId);
+      }
       if (filters.eventType) {
         events = events.filter(event => event.eventType === filters.eventType);
       }
@@ -566,7 +1201,7 @@ The EventBoost Team`,
     return events.sort((a, b) => new Date(b.timestamp!).getTime() - new Date(a.timestamp!).getTime());
   }
 
-  async getEngagementMetrics(days: number): Promise<{
+  async getEngagementMetrics(days: number, workspaceId?: string): Promise<{
     registrations: { date: string; count: number }[];
     attendance: { date: string; count: number }[];
     engagement: { date: string; score: number }[];
@@ -575,7 +1210,7 @@ The EventBoost Team`,
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
 
-    const events = await this.getAnalyticsEvents({ startDate, endDate });
+    const events = await this.getAnalyticsEvents({ workspaceId, startDate, endDate });
 
     // Create date range array
     const dateRange: string[] = [];
@@ -628,6 +1263,7 @@ The EventBoost Team`,
 
 class DbStorage implements IStorage {
   private db;
+  sessionStore: session.Store;
 
   constructor() {
     if (!process.env.DATABASE_URL) {
@@ -639,6 +1275,54 @@ class DbStorage implements IStorage {
       },
     });
     this.db = drizzle(sql);
+    this.sessionStore = new PostgresSessionStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+    });
+  }
+
+  async getWorkspaces(): Promise<Workspace[]> {
+    return await this.db.select().from(workspaces).orderBy(workspaces.createdAt);
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const result = await this.db.select().from(workspaces).where(eq(workspaces.id, id));
+    return result[0];
+  }
+
+  async getWorkspaceBySlug(slug: string): Promise<Workspace | undefined> {
+    const result = await this.db.select().from(workspaces).where(eq(workspaces.slug, slug));
+    return result[0];
+  }
+
+  async createWorkspace(workspace: InsertWorkspace): Promise<Workspace> {
+    const result = await this.db.insert(workspaces).values([workspace]).returning();
+    return result[0];
+  }
+
+  async getUserWorkspaces(userId: string): Promise<Workspace[]> {
+    const result = await this.db
+      .select({ workspace: workspaces })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(workspaces.createdAt);
+    return result.map(row => row.workspace);
+  }
+
+  async addWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember> {
+    const existing = await this.db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    if (existing[0]) return existing[0];
+
+    const result = await this.db.insert(workspaceMembers).values([{ workspaceId, userId }]).returning();
+    return result[0];
+  }
+
+  async getUsers(): Promise<User[]> {
+    return await this.db.select().from(users);
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -656,58 +1340,92 @@ class DbStorage implements IStorage {
     return result[0];
   }
 
-  async getEvents(): Promise<Event[]> {
-    return await this.db.select().from(events).orderBy(desc(events.createdAt));
+  async getEvents(workspaceId?: string): Promise<Event[]> {
+    return await this.db
+      .select()
+      .from(events)
+      .where(and(isNull(events.deletedAt), workspaceId ? eq(events.workspaceId, workspaceId) : undefined))
+      .orderBy(desc(events.createdAt));
   }
 
-  async getEvent(id: string): Promise<Event | undefined> {
-    const result = await this.db.select().from(events).where(eq(events.id, id));
+  async getEvent(id: string, workspaceId?: string): Promise<Event | undefined> {
+    const result = await this.db
+      .select()
+      .from(events)
+      .where(and(eq(events.id, id), workspaceId ? eq(events.workspaceId, workspaceId) : undefined));
     return result[0];
   }
 
-  async createEvent(event: InsertEvent): Promise<Event> {
+  async createEvent(event: WorkspaceScoped<InsertEvent> & { seriesId?: string | null }): Promise<Event> {
     const result = await this.db.insert(events).values([event]).returning();
     return result[0];
   }
 
-  async updateEvent(id: string, event: Partial<Event>): Promise<Event | undefined> {
+  async updateEvent(id: string, event: Partial<Event>, workspaceId?: string): Promise<Event | undefined> {
     const result = await this.db
       .update(events)
-      .set({ ...event, updatedAt: new Date() })
-      .where(eq(events.id, id))
+      .set({ ...event, workspaceId: undefined, updatedAt: new Date() })
+      .where(and(eq(events.id, id), workspaceId ? eq(events.workspaceId, workspaceId) : undefined))
       .returning();
     return result[0];
   }
 
-  async deleteEvent(id: string): Promise<boolean> {
-    const result = await this.db.delete(events).where(eq(events.id, id)).returning();
+  async deleteEvent(id: string, workspaceId?: string): Promise<boolean> {
+    const result = await this.db
+      .update(events)
+      .set({ deletedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(events.id, id), isNull(events.deletedAt), workspaceId ? eq(events.workspaceId, workspaceId) : undefined))
+      .returning();
     return result.length > 0;
   }
 
-  async getAttendees(): Promise<Attendee[]> {
-    return await this.db.select().from(attendees).orderBy(desc(attendees.registrationDate));
+  async getEventSeries(id: string, workspaceId?: string): Promise<EventSeries | undefined> {
+    const result = await this.db
+      .select()
+      .from(eventSeries)
+      .where(and(eq(eventSeries.id, id), workspaceId ? eq(eventSeries.workspaceId, workspaceId) : undefined));
+    return result[0];
   }
 
-  async getAttendee(id: string): Promise<Attendee | undefined> {
-    const result = await this.db.select().from(attendees).where(eq(attendees.id, id));
+  async createEventSeries(series: WorkspaceScoped<InsertEventSeries>): Promise<EventSeries> {
+    const result = await this.db.insert(eventSeries).values([series]).returning();
     return result[0];
   }
 
-  async getAttendeeByEmail(email: string): Promise<Attendee | undefined> {
-    const result = await this.db.select().from(attendees).where(eq(attendees.email, email));
+  async getAttendees(workspaceId?: string): Promise<Attendee[]> {
+    return await this.db
+      .select()
+      .from(attendees)
+      .where(workspaceId ? eq(attendees.workspaceId, workspaceId) : undefined)
+      .orderBy(desc(attendees.registrationDate));
+  }
+
+  async getAttendee(id: string, workspaceId?: string): Promise<Attendee | undefined> {
+    const result = await this.db
+      .select()
+      .from(attendees)
+      .where(and(eq(attendees.id, id), workspaceId ? eq(attendees.workspaceId, workspaceId) : undefined));
     return result[0];
   }
 
-  async createAttendee(attendee: InsertAttendee): Promise<Attendee> {
+  async getAttendeeByEmail(email: string, workspaceId: string): Promise<Attendee | undefined> {
+    const result = await this.db
+      .select()
+      .from(attendees)
+      .where(and(eq(attendees.email, email), eq(attendees.workspaceId, workspaceId)));
+    return result[0];
+  }
+
+  async createAttendee(attendee: WorkspaceScoped<InsertAttendee>): Promise<Attendee> {
     const result = await this.db.insert(attendees).values([attendee]).returning();
     return result[0];
   }
 
-  async updateAttendee(id: string, attendeeUpdate: Partial<Attendee>): Promise<Attendee | undefined> {
+  async updateAttendee(id: string, attendeeUpdate: Partial<Attendee>, workspaceId?: string): Promise<Attendee | undefined> {
     const result = await this.db
       .update(attendees)
-      .set({ ...attendeeUpdate, lastActivity: new Date() })
-      .where(eq(attendees.id, id))
+      .set({ ...attendeeUpdate, workspaceId: undefined, lastActivity: new Date() })
+      .where(and(eq(attendees.id, id), workspaceId ? eq(attendees.workspaceId, workspaceId) : undefined))
       .returning();
     return result[0];
   }
@@ -730,6 +1448,11 @@ class DbStorage implements IStorage {
     return await this.db.select().from(eventRegistrations).orderBy(desc(eventRegistrations.registrationDate));
   }
 
+  async getEventRegistration(id: string): Promise<EventRegistration | undefined> {
+    const result = await this.db.select().from(eventRegistrations).where(eq(eventRegistrations.id, id));
+    return result[0];
+  }
+
   async getAttendeeRegistrations(attendeeId: string): Promise<EventRegistration[]> {
     return await this.db
       .select()
@@ -740,12 +1463,14 @@ class DbStorage implements IStorage {
 
   async createEventRegistration(registration: InsertEventRegistration): Promise<EventRegistration> {
     const result = await this.db.insert(eventRegistrations).values([registration]).returning();
+    const event = await this.getEvent(registration.eventId);
     
     await this.createAnalyticsEvent({
+      workspaceId: event!.workspaceId,
       eventType: "registration",
       attendeeId: registration.attendeeId,
       eventId: registration.eventId,
-      metadata: { registrationId: result[0].id },
+      metadata: { registrationId: result[0].id, status: result[0].status },
     });
     
     return result[0];
@@ -759,36 +1484,80 @@ class DbStorage implements IStorage {
       .returning();
 
     if (registration.attended === true && result[0]) {
+      const event = await this.getEvent(result[0].eventId);
       await this.createAnalyticsEvent({
+        workspaceId: event!.workspaceId,
         eventType: "attendance",
         attendeeId: result[0].attendeeId,
         eventId: result[0].eventId,
-        metadata: { registrationId: id, attendanceTime: registration.attendanceTime },
+        metadata: {
+          registrationId: id,
+          attendanceTime: registration.attendanceTime,
+          ...(registration.checkedInAt && { action: "check_in", checkedInAt: registration.checkedInAt }),
+        },
       });
     }
 
     return result[0];
   }
 
-  async getEmailCampaigns(): Promise<EmailCampaign[]> {
-    return await this.db.select().from(emailCampaigns).orderBy(desc(emailCampaigns.createdAt));
+  async transitionEventRegistration(id: string, from: RegistrationStatus, to: RegistrationStatus): Promise<EventRegistration | undefined> {
+    const result = await this.db
+      .update(eventRegistrations)
+      .set({ status: to })
+      .where(and(eq(eventRegistrations.id, id), eq(eventRegistrations.status, from)))
+      .returning();
+    return result[0];
   }
 
-  async getEmailCampaign(id: string): Promise<EmailCampaign | undefined> {
-    const result = await this.db.select().from(emailCampaigns).where(eq(emailCampaigns.id, id));
+  // Conditional increment; Postgres re-checks the capacity against the locked
+  // row, so concurrent registrations can't overfill the event
+  async claimEventSeat(eventId: string): Promise<boolean> {
+    const result = await this.db
+      .update(events)
+      .set({ registeredCount: drizzleSql`${events.registeredCount} + 1` })
+      .where(and(
+        eq(events.id, eventId),
+        or(isNull(events.maxAttendees), lt(events.registeredCount, events.maxAttendees))
+      ))
+      .returning({ id: events.id });
+    return result.length > 0;
+  }
+
+  async releaseEventSeat(eventId: string): Promise<void> {
+    await this.db
+      .update(events)
+      .set({ registeredCount: drizzleSql`greatest(${events.registeredCount} - 1, 0)` })
+      .where(eq(events.id, eventId));
+  }
+
+  async getEmailCampaigns(workspaceId?: string): Promise<EmailCampaign[]> {
+    return await this.db
+      .select()
+      .from(emailCampaigns)
+      .where(workspaceId ? eq(emailCampaigns.workspaceId, workspaceId) : undefined)
+      .orderBy(desc(emailCampaigns.createdAt));
+  }
+
+  async getEmailCampaign(id: string, workspaceId?: string): Promise<EmailCampaign | undefined> {
+    const result = await this.db
+      .select()
+      .from(emailCampaigns)
+      .where(and(eq(emailCampaigns.id, id), workspaceId ? eq(emailCampaigns.workspaceId, workspaceId) : undefined));
     return result[0];
   }
 
-  async createEmailCampaign(campaign: InsertEmailCampaign): Promise<EmailCampaign> {
-    const result = await this.db.insert(emailCampaigns).values([campaign]).returning();
+  async createEmailCampaign(campaign: WorkspaceScoped<InsertEmailCampaign>): Promise<EmailCampaign> {
+    const templateVersionId = campaign.templateVersionId ?? await this.currentTemplateVersionId(campaign.templateId);
+    const result = await this.db.insert(emailCampaigns).values([{ ...campaign, templateVersionId }]).returning();
     return result[0];
   }
 
-  async updateEmailCampaign(id: string, campaign: Partial<EmailCampaign>): Promise<EmailCampaign | undefined> {
+  async updateEmailCampaign(id: string, campaign: Partial<EmailCampaign>, workspaceId?: string): Promise<EmailCampaign | undefined> {
     const result = await this.db
       .update(emailCampaigns)
-      .set(campaign)
-      .where(eq(emailCampaigns.id, id))
+      .set({ ...campaign, workspaceId: undefined })
+      .where(and(eq(emailCampaigns.id, id), workspaceId ? eq(emailCampaigns.workspaceId, workspaceId) : undefined))
       .returning();
     return result[0];
   }
@@ -804,38 +1573,129 @@ class DbStorage implements IStorage {
       ));
   }
 
-  async getEmailTemplates(): Promise<EmailTemplate[]> {
+  // Conditional update so only one worker can move a campaign out of "scheduled"
+  async claimScheduledCampaign(id: string): Promise<EmailCampaign | undefined> {
+    const result = await this.db
+      .update(emailCampaigns)
+      .set({ status: "sending" })
+      .where(and(eq(emailCampaigns.id, id), eq(emailCampaigns.status, "scheduled")))
+      .returning();
+    return result[0];
+  }
+
+  async getEmailTemplates(workspaceId?: string): Promise<EmailTemplate[]> {
     return await this.db
       .select()
       .from(emailTemplates)
-      .where(eq(emailTemplates.isActive, true))
+      .where(and(
+        eq(emailTemplates.isActive, true),
+        workspaceId ? eq(emailTemplates.workspaceId, workspaceId) : undefined
+      ))
       .orderBy(desc(emailTemplates.createdAt));
   }
 
-  async getEmailTemplate(id: string): Promise<EmailTemplate | undefined> {
-    const result = await this.db.select().from(emailTemplates).where(eq(emailTemplates.id, id));
+  async getEmailTemplate(id: string, workspaceId?: string): Promise<EmailTemplate | undefined> {
+    const result = await this.db
+      .select()
+      .from(emailTemplates)
+      .where(and(eq(emailTemplates.id, id), workspaceId ? eq(emailTemplates.workspaceId, workspaceId) : undefined));
     return result[0];
   }
 
-  async createEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate> {
+  async createEmailTemplate(template: WorkspaceScoped<InsertEmailTemplate>, origin: TemplateVersionOrigin = {}): Promise<EmailTemplate> {
     const result = await this.db.insert(emailTemplates).values([template]).returning();
+    await this.recordTemplateVersion(result[0], origin);
     return result[0];
   }
 
-  async updateEmailTemplate(id: string, template: Partial<EmailTemplate>): Promise<EmailTemplate | undefined> {
+  async updateEmailTemplate(id: string, template: Partial<EmailTemplate>, workspaceId?: string, origin: TemplateVersionOrigin = {}): Promise<EmailTemplate | undefined> {
+    const existing = await this.getEmailTemplate(id, workspaceId);
+    if (!existing) return undefined;
+
+    // The version insert goes first: the unique (template, version) constraint
+    // rejects a concurrent save that raced us to the same version number
+    const newVersion = changesTemplateContent(existing, template);
+    const currentVersion = newVersion ? existing.currentVersion + 1 : existing.currentVersion;
+    if (newVersion) {
+      await this.recordTemplateVersion({ ...existing, ...template, currentVersion }, origin);
+    }
+
     const result = await this.db
       .update(emailTemplates)
-      .set({ ...template, updatedAt: new Date() })
-      .where(eq(emailTemplates.id, id))
+      .set({ ...template, workspaceId: undefined, currentVersion, updatedAt: new Date() })
+      .where(and(eq(emailTemplates.id, id), workspaceId ? eq(emailTemplates.workspaceId, workspaceId) : undefined))
       .returning();
     return result[0];
   }
 
+  async getEmailTemplateVersions(templateId: string): Promise<EmailTemplateVersion[]> {
+    return await this.db
+      .select()
+      .from(emailTemplateVersions)
+      .where(eq(emailTemplateVersions.templateId, templateId))
+      .orderBy(desc(emailTemplateVersions.version));
+  }
+
+  async getEmailTemplateVersion(id: string): Promise<EmailTemplateVersion | undefined> {
+    const result = await this.db.select().from(emailTemplateVersions).where(eq(emailTemplateVersions.id, id));
+    return result[0];
+  }
+
+  private async recordTemplateVersion(template: EmailTemplate, origin: TemplateVersionOrigin): Promise<void> {
+    await this.db.insert(emailTemplateVersions).values({
+      templateId: template.id,
+      version: template.currentVersion,
+      subject: template.subject,
+      content: template.content,
+      variables: template.variables,
+      design: template.design,
+      textContent: template.textContent,
+      createdBy: origin.createdBy ?? null,
+      restoredFrom: origin.restoredFrom ?? null,
+    });
+  }
+
+  private async currentTemplateVersionId(templateId?: string | null): Promise<string | null> {
+    if (!templateId) return null;
+    const result = await this.db
+      .select({ id: emailTemplateVersions.id })
+      .from(emailTemplateVersions)
+      .innerJoin(emailTemplates, and(
+        eq(emailTemplates.id, emailTemplateVersions.templateId),
+        eq(emailTemplates.currentVersion, emailTemplateVersions.version)
+      ))
+      .where(eq(emailTemplateVersions.templateId, templateId));
+    return result[0]?.id ?? null;
+  }
+
   async createEmailSend(send: Omit<EmailSend, 'id'>): Promise<EmailSend> {
     const result = await this.db.insert(emailSends).values([send]).returning();
     return result[0];
   }
 
+  async getEmailSendByRecipient(campaignId: string, attendeeId: string): Promise<EmailSend | undefined> {
+    const result = await this.db
+      .select()
+      .from(emailSends)
+      .where(and(eq(emailSends.campaignId, campaignId), eq(emailSends.attendeeId, attendeeId)));
+    return result[0];
+  }
+
+  async getEmailSendByProviderMessageId(providerMessageId: string): Promise<EmailSend | undefined> {
+    const result = await this.db
+      .select()
+      .from(emailSends)
+      .where(eq(emailSends.providerMessageId, providerMessageId));
+    return result[0];
+  }
+
+  async getCampaignEmailSends(campaignId: string): Promise<EmailSend[]> {
+    return await this.db
+      .select()
+      .from(emailSends)
+      .where(eq(emailSends.campaignId, campaignId));
+  }
+
   async updateEmailSend(id: string, send: Partial<EmailSend>): Promise<void> {
     await this.db.update(emailSends).set(send).where(eq(emailSends.id, id));
   }
@@ -847,13 +1707,130 @@ class DbStorage implements IStorage {
       .where(eq(emailSends.campaignId, campaignId));
 
     return {
-      sent: sends.length,
+      sent: sends.filter(s => s.sentAt !== null).length,
       opened: sends.filter(s => s.openedAt !== null).length,
       clicked: sends.filter(s => s.clickedAt !== null).length,
       bounced: sends.filter(s => s.bounced === true).length,
     };
   }
 
+  async getSuppressions(workspaceId: string): Promise<Suppression[]> {
+    return await this.db
+      .select()
+      .from(suppressions)
+      .where(eq(suppressions.workspaceId, workspaceId))
+      .orderBy(desc(suppressions.createdAt));
+  }
+
+  async getSuppression(workspaceId: string, email: string): Promise<Suppression | undefined> {
+    const result = await this.db
+      .select()
+      .from(suppressions)
+      .where(and(
+        eq(suppressions.workspaceId, workspaceId),
+        eq(suppressions.email, email.trim().toLowerCase())
+      ));
+    return result[0];
+  }
+
+  async createSuppression(suppression: WorkspaceScoped<InsertSuppression>): Promise<Suppression> {
+    const email = suppression.email.trim().toLowerCase();
+    const result = await this.db
+      .insert(suppressions)
+      .values([{ ...suppression, email }])
+      .onConflictDoNothing()
+      .returning();
+    return result[0] ?? (await this.getSuppression(suppression.workspaceId, email))!;
+  }
+
+  async deleteSuppression(id: string, workspaceId?: string): Promise<boolean> {
+    const result = await this.db
+      .delete(suppressions)
+      .where(and(eq(suppressions.id, id), workspaceId ? eq(suppressions.workspaceId, workspaceId) : undefined))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getEventReminders(eventId: string): Promise<EventReminder[]> {
+    return await this.db
+      .select()
+      .from(eventReminders)
+      .where(eq(eventReminders.eventId, eventId));
+  }
+
+  async recordEventReminders(reminders: Omit<EventReminder, 'id' | 'sentAt'>[]): Promise<void> {
+    if (reminders.length === 0) return;
+    await this.db.insert(eventReminders).values(reminders).onConflictDoNothing();
+  }
+
+  async enqueueEmails(campaignId: string, attendeeIds: string[]): Promise<number> {
+    if (attendeeIds.length === 0) return 0;
+
+    const result = await this.db
+      .insert(emailQueue)
+      .values(attendeeIds.map(attendeeId => ({ campaignId, attendeeId })))
+      .onConflictDoNothing()
+      .returning();
+
+    if (result.length > 0) {
+      await this.db
+        .insert(emailSends)
+        .values(result.map(item => ({ campaignId, attendeeId: item.attendeeId, status: "queued" as const })));
+    }
+    return result.length;
+  }
+
+  // One UPDATE ... WHERE id IN (SELECT ... FOR UPDATE SKIP LOCKED) RETURNING:
+  // concurrent workers skip each other's rows, and the status check in the
+  // outer WHERE keeps a row that was claimed meanwhile from being returned twice
+  async claimDueQueueItems(limit: number, workerId: string): Promise<EmailQueueItem[]> {
+    const due = this.db
+      .select({ id: emailQueue.id })
+      .from(emailQueue)
+      .where(and(
+        eq(emailQueue.status, "pending"),
+        lte(emailQueue.nextAttemptAt, new Date())
+      ))
+      .orderBy(asc(emailQueue.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await this.db
+      .update(emailQueue)
+      .set({ status: "processing", lockedAt: new Date(), lockedBy: workerId })
+      .where(and(inArray(emailQueue.id, due), eq(emailQueue.status, "pending")))
+      .returning();
+  }
+
+  async updateQueueItem(id: string, item: Partial<EmailQueueItem>): Promise<EmailQueueItem | undefined> {
+    const result = await this.db
+      .update(emailQueue)
+      .set(item)
+      .where(eq(emailQueue.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async requeueExpiredQueueItems(expiredBefore: Date): Promise<number> {
+    const result = await this.db
+      .update(emailQueue)
+      .set({ status: "pending", lockedAt: null, lockedBy: null })
+      .where(and(
+        eq(emailQueue.status, "processing"),
+        or(isNull(emailQueue.lockedAt), lt(emailQueue.lockedAt, expiredBefore))
+      ))
+      .returning();
+    return result.length;
+  }
+
+  async getCampaignSendProgress(campaignId: string): Promise<CampaignSendProgress> {
+    const items = await this.db
+      .select()
+      .from(emailQueue)
+      .where(eq(emailQueue.campaignId, campaignId));
+    return summarizeQueueItems(items);
+  }
+
   async getContentPreviews(eventId: string): Promise<ContentPreview[]> {
     return await this.db
       .select()
@@ -867,12 +1844,119 @@ class DbStorage implements IStorage {
     return result[0];
   }
 
-  async createAnalyticsEvent(event: InsertAnalyticsEvent): Promise<AnalyticsEvent> {
+  async getSpeakers(workspaceId: string): Promise<Speaker[]> {
+    return await this.db
+      .select()
+      .from(speakers)
+      .where(eq(speakers.workspaceId, workspaceId))
+      .orderBy(asc(speakers.name));
+  }
+
+  async getSpeaker(id: string, workspaceId?: string): Promise<Speaker | undefined> {
+    const result = await this.db
+      .select()
+      .from(speakers)
+      .where(and(eq(speakers.id, id), workspaceId ? eq(speakers.workspaceId, workspaceId) : undefined));
+    return result[0];
+  }
+
+  async createSpeaker(speaker: WorkspaceScoped<InsertSpeaker>): Promise<Speaker> {
+    const result = await this.db.insert(speakers).values([speaker]).returning();
+    return result[0];
+  }
+
+  async updateSpeaker(id: string, speakerUpdate: Partial<Speaker>, workspaceId?: string): Promise<Speaker | undefined> {
+    const result = await this.db
+      .update(speakers)
+      .set({ ...speakerUpdate, id: undefined, workspaceId: undefined })
+      .where(and(eq(speakers.id, id), workspaceId ? eq(speakers.workspaceId, workspaceId) : undefined))
+      .returning();
+    return result[0];
+  }
+
+  async deleteSpeaker(id: string, workspaceId?: string): Promise<boolean> {
+    if (!(await this.getSpeaker(id, workspaceId))) return false;
+
+    await this.db
+      .update(eventSessions)
+      .set({ speakerIds: drizzleSql`array_remove(${eventSessions.speakerIds}, ${id})` })
+      .where(drizzleSql`${id} = ANY(${eventSessions.speakerIds})`);
+    await this.db.delete(contentPreviews).where(eq(contentPreviews.speakerId, id));
+    const result = await this.db.delete(speakers).where(eq(speakers.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getEventSessions(eventId: string): Promise<EventSession[]> {
+    return await this.db
+      .select()
+      .from(eventSessions)
+      .where(eq(eventSessions.eventId, eventId))
+      .orderBy(asc(eventSessions.startTime));
+  }
+
+  async getEventSession(id: string): Promise<EventSession | undefined> {
+    const result = await this.db.select().from(eventSessions).where(eq(eventSessions.id, id));
+    return result[0];
+  }
+
+  async createEventSession(session: InsertEventSession & { eventId: string }): Promise<EventSession> {
+    const result = await this.db.insert(eventSessions).values([session]).returning();
+    return result[0];
+  }
+
+  async updateEventSession(id: string, sessionUpdate: Partial<EventSession>): Promise<EventSession | undefined> {
+    const result = await this.db
+      .update(eventSessions)
+      .set({ ...sessionUpdate, id: undefined, eventId: undefined })
+      .where(eq(eventSessions.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteEventSession(id: string): Promise<boolean> {
+    await this.db.delete(sessionBookmarks).where(eq(sessionBookmarks.sessionId, id));
+    const result = await this.db.delete(eventSessions).where(eq(eventSessions.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getSessionBookmarks(sessionIds: string[]): Promise<SessionBookmark[]> {
+    if (sessionIds.length === 0) return [];
+    return await this.db
+      .select()
+      .from(sessionBookmarks)
+      .where(inArray(sessionBookmarks.sessionId, sessionIds));
+  }
+
+  async addSessionBookmark(sessionId: string, attendeeId: string): Promise<SessionBookmark> {
+    const result = await this.db
+      .insert(sessionBookmarks)
+      .values([{ sessionId, attendeeId }])
+      .onConflictDoNothing()
+      .returning();
+    if (result[0]) return result[0];
+
+    const existing = await this.db
+      .select()
+      .from(sessionBookmarks)
+      .where(and(eq(sessionBookmarks.sessionId, sessionId), eq(sessionBookmarks.attendeeId, attendeeId)));
+    return existing[0];
+  }
+
+  async removeSessionBookmark(sessionId: string, attendeeId: string): Promise<boolean> {
+    const result = await this.db
+      .delete(sessionBookmarks)
+      .where(and(eq(sessionBookmarks.sessionId, sessionId), eq(sessionBookmarks.attendeeId, attendeeId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async createAnalyticsEvent(event: WorkspaceScoped<InsertAnalyticsEvent>): Promise<AnalyticsEvent> {
     const result = await this.db.insert(analyticsEvents).values([event]).returning();
     return result[0];
   }
 
   async getAnalyticsEvents(filters?: {
+    workspaceId?: string;
     eventType?: string;
     eventId?: string;
     attendeeId?: string;
@@ -882,6 +1966,7 @@ class DbStorage implements IStorage {
     let query = this.db.select().from(analyticsEvents);
 
     const conditions = [];
+    if (filters?.workspaceId) conditions.push(eq(analyticsEvents.workspaceId, filters.workspaceId));
     if (filters?.eventType) conditions.push(eq(analyticsEvents.eventType, filters.eventType as any));
     if (filters?.eventId) conditions.push(eq(analyticsEvents.eventId, filters.eventId));
     if (filters?.attendeeId) conditions.push(eq(analyticsEvents.attendeeId, filters.attendeeId));
@@ -895,7 +1980,7 @@ class DbStorage implements IStorage {
     return await query.orderBy(desc(analyticsEvents.timestamp));
   }
 
-  async getEngagementMetrics(days: number): Promise<{
+  async getEngagementMetrics(days: number, workspaceId?: string): Promise<{
     registrations: { date: string; count: number }[];
     attendance: { date: string; count: number }[];
     engagement: { date: string; score: number }[];
@@ -904,7 +1989,7 @@ class DbStorage implements IStorage {
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
 
-    const events = await this.getAnalyticsEvents({ startDate, endDate });
+    const events = await this.getAnalyticsEvents({ workspaceId, startDate, endDate });
 
     const dateRange: string[] = [];
     for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
@@ -0,0 +1,152 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { requirePermission } from "./auth";
+import { insertWorkspaceSchema, type Workspace } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    workspaceId?: string;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by resolveWorkspace for every /api request after authentication
+      workspaceId?: string;
+    }
+  }
+}
+
+export const DEFAULT_WORKSPACE_SLUG = "default";
+
+async function ensureDefaultWorkspace(): Promise<void> {
+  const existing = await storage.getWorkspaces();
+  if (existing.length > 0) return;
+
+  await storage.createWorkspace({
+    name: "Default Workspace",
+    slug: DEFAULT_WORKSPACE_SLUG,
+  });
+}
+
+// Admins can open every workspace; everyone else only the ones they are a member of
+export async function getAccessibleWorkspaces(user: Express.User): Promise<Workspace[]> {
+  if (user.role === "admin") {
+    return await storage.getWorkspaces();
+  }
+  return await storage.getUserWorkspaces(user.id);
+}
+
+async function getPublicWorkspace(slug?: string): Promise<Workspace | undefined> {
+  if (slug) {
+    return await storage.getWorkspaceBySlug(slug);
+  }
+  return (await storage.getWorkspaceBySlug(DEFAULT_WORKSPACE_SLUG)) ?? (await storage.getWorkspaces())[0];
+}
+
+// Operators work in the workspace stored on their session; public visitors
+// pick one with ?workspace=<slug> and otherwise land in the default workspace.
+async function resolveWorkspace(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.isAuthenticated()) {
+      const workspace = await getPublicWorkspace(req.query.workspace as string | undefined);
+      if (!workspace) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      req.workspaceId = workspace.id;
+      return next();
+    }
+
+    const accessible = await getAccessibleWorkspaces(req.user);
+    const active = accessible.find(w => w.id === req.session.workspaceId) ?? accessible[0];
+    if (!active) {
+      return res.status(403).json({ message: "You are not a member of any workspace" });
+    }
+
+    req.session.workspaceId = active.id;
+    req.workspaceId = active.id;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function setupWorkspaces(app: Express): Promise<void> {
+  await ensureDefaultWorkspace();
+
+  app.use("/api", resolveWorkspace);
+
+  app.get("/api/workspaces", async (req, res) => {
+    try {
+      const workspaces = await getAccessibleWorkspaces(req.user!);
+      res.json(workspaces);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch workspaces" });
+    }
+  });
+
+  app.get("/api/workspaces/active", async (req, res) => {
+    try {
+      const workspace = await storage.getWorkspace(req.workspaceId!);
+      if (!workspace) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      res.json(workspace);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch active workspace" });
+    }
+  });
+
+  app.post("/api/workspaces/:id/activate", async (req, res) => {
+    try {
+      const accessible = await getAccessibleWorkspaces(req.user!);
+      const workspace = accessible.find(w => w.id === req.params.id);
+      if (!workspace) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+
+      req.session.workspaceId = workspace.id;
+      res.json(workspace);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to switch workspace" });
+    }
+  });
+
+  app.post("/api/workspaces", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const validatedData = insertWorkspaceSchema.parse(req.body);
+
+      const existing = await storage.getWorkspaceBySlug(validatedData.slug);
+      if (existing) {
+        return res.status(409).json({ message: "A workspace with this slug already exists" });
+      }
+
+      const workspace = await storage.createWorkspace(validatedData);
+      await storage.addWorkspaceMember(workspace.id, req.user!.id);
+      res.status(201).json(workspace);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid workspace data", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.post("/api/workspaces/:id/members", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const { userId } = req.body;
+      if (!userId) {
+        return res.status(400).json({ message: "User ID is required" });
+      }
+
+      const workspace = await storage.getWorkspace(req.params.id);
+      const user = await storage.getUser(userId);
+      if (!workspace || !user) {
+        return res.status(404).json({ message: "Workspace or user not found" });
+      }
+
+      const member = await storage.addWorkspaceMember(workspace.id, user.id);
+      res.status(201).json(member);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to add workspace member" });
+    }
+  });
+}
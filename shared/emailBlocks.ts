@@ -0,0 +1,357 @@
+// Block-based email documents built in the template editor's block builder.
+//
+// A document is stored as JSON on the template (`design`) and rendered to
+// table-based HTML with inline styles, since Outlook ignores most CSS and
+// Gmail strips <style> blocks in many clients. Text fields may contain
+// template tags ({{attendeeName}}, {{#if ...}}); they are left intact and
+// resolved by the template engine at send time like any other template.
+
+import { z } from "zod";
+import { escapeHtml } from "./templateEngine";
+
+export const emailBlockTypes = ["header", "text", "image", "button", "event", "speakers", "divider", "footer"] as const;
+export type EmailBlockType = typeof emailBlockTypes[number];
+
+const color = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Use a hex color like #1f2937");
+
+// Links may be a template variable such as {{feedbackLink}}; anything else must be http(s) or mailto
+const link = z.string().trim().max(2000).refine(
+  (value) => value === "" || /^(https?:\/\/|mailto:|\{\{)/i.test(value),
+  "Links must start with http://, https://, mailto: or a {{variable}}"
+);
+
+const align = z.enum(["left", "center"]);
+
+const speakerSchema = z.object({
+  name: z.string().max(200),
+  title: z.string().max(200).default(""),
+  photoUrl: link.default(""),
+});
+
+export const emailBlockSchema = z.discriminatedUnion("type", [
+  z.object({
+    id: z.string(),
+    type: z.literal("header"),
+    title: z.string().max(500),
+    subtitle: z.string().max(500).default(""),
+    logoUrl: link.default(""),
+    backgroundColor: color,
+    textColor: color,
+  }),
+  z.object({
+    id: z.string(),
+    type: z.literal("text"),
+    text: z.string().max(20000),
+    align: align.default("left"),
+  }),
+  z.object({
+    id: z.string(),
+    type: z.literal("image"),
+    src: link,
+    alt: z.string().max(500).default(""),
+    href: link.default(""),
+    width: z.number().int().min(40).max(600).default(600),
+  }),
+  z.object({
+    id: z.string(),
+    type: z.literal("button"),
+    label: z.string().max(200),
+    url: link,
+    backgroundColor: color,
+    textColor: color,
+    align: align.default("center"),
+  }),
+  z.object({
+    id: z.string(),
+    type: z.literal("event"),
+    showDescription: z.boolean().default(true),
+    buttonLabel: z.string().max(200).default(""),
+    buttonUrl: link.default(""),
+  }),
+  z.object({
+    id: z.string(),
+    type: z.literal("speakers"),
+    heading: z.string().max(500).default("Speakers"),
+    speakers: z.array(speakerSchema).max(50),
+  }),
+  z.object({
+    id: z.string(),
+    type: z.literal("divider"),
+    color: color,
+  }),
+  z.object({
+    id: z.string(),
+    type: z.literal("footer"),
+    text: z.string().max(5000),
+    showUnsubscribe: z.boolean().default(true),
+  }),
+]);
+
+export const emailDocumentSchema = z.object({
+  version: z.literal(1),
+  settings: z.object({
+    backgroundColor: color,
+    contentBackgroundColor: color,
+    textColor: color,
+    accentColor: color,
+    fontFamily: z.string().max(200).regex(/^[\w\s,'-]+$/, "Use a font list like Arial, Helvetica, sans-serif"),
+    width: z.number().int().min(480).max(800),
+  }),
+  blocks: z.array(emailBlockSchema).max(100),
+});
+
+export type EmailBlock = z.infer<typeof emailBlockSchema>;
+export type EmailSpeaker = z.infer<typeof speakerSchema>;
+export type EmailDocument = z.infer<typeof emailDocumentSchema>;
+export type EmailDocumentSettings = EmailDocument["settings"];
+
+export const emailBlockLabels: Record<EmailBlockType, string> = {
+  header: "Header",
+  text: "Text",
+  image: "Image",
+  button: "Button",
+  event: "Event card",
+  speakers: "Speaker list",
+  divider: "Divider",
+  footer: "Footer",
+};
+
+const defaultSettings: EmailDocumentSettings = {
+  backgroundColor: "#f3f4f6",
+  contentBackgroundColor: "#ffffff",
+  textColor: "#1f2937",
+  accentColor: "#4f46e5",
+  fontFamily: "Arial, Helvetica, sans-serif",
+  width: 600,
+};
+
+function blockId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function createEmailBlock(type: EmailBlockType): EmailBlock {
+  const id = blockId();
+  switch (type) {
+    case "header":
+      return { id, type, title: "{{eventTitle}}", subtitle: "", logoUrl: "", backgroundColor: defaultSettings.accentColor, textColor: "#ffffff" };
+    case "text":
+      return { id, type, text: "Hi {{attendeeName}},\n\nWrite your message here.", align: "left" };
+    case "image":
+      return { id, type, src: "", alt: "", href: "", width: 600 };
+    case "button":
+      return { id, type, label: "Learn more", url: "", backgroundColor: defaultSettings.accentColor, textColor: "#ffffff", align: "center" };
+    case "event":
+      return { id, type, showDescription: true, buttonLabel: "", buttonUrl: "" };
+    case "speakers":
+      return { id, type, heading: "Speakers", speakers: [{ name: "Speaker name", title: "Role, Company", photoUrl: "" }] };
+    case "divider":
+      return { id, type, color: "#e5e7eb" };
+    case "footer":
+      return { id, type, text: "You're receiving this email because you registered for {{eventTitle}}.", showUnsubscribe: true };
+  }
+}
+
+// Starting point for a new block-based template
+export function createEmailDocument(): EmailDocument {
+  return {
+    version: 1,
+    settings: { ...defaultSettings },
+    blocks: [
+      createEmailBlock("header"),
+      createEmailBlock("text"),
+      createEmailBlock("event"),
+      createEmailBlock("footer"),
+    ],
+  };
+}
+
+// Escapes user text for HTML while leaving template tags untouched, so
+// {{attendeeCompany | default: "you"}} keeps its quotes for the engine
+function escapeText(value: string): string {
+  return value
+    .split(/(\{\{[\s\S]*?\}\}\}?)/)
+    .map((part, index) => (index % 2 === 1 ? part : escapeHtml(part)))
+    .join("");
+}
+
+// Blank lines start a new paragraph, single newlines become line breaks
+function paragraphs(text: string, style: string): string {
+  return text
+    .trim()
+    .split(/\n\s*\n/)
+    .map(paragraph => `<p style="${style}">${escapeText(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+}
+
+function row(content: string, padding = "16px 32px", extra = ""): string {
+  return `<tr>\n<td style="padding:${padding};${extra}">\n${content}\n</td>\n</tr>`;
+}
+
+// A table cell with a background color is the only button Outlook pads correctly
+function button(label: string, url: string, backgroundColor: string, textColor: string, align: "left" | "center", fontFamily: string): string {
+  return `<table role="presentation" cellpadding="0" cellspacing="0" border="0" align="${align}" style="margin:0 ${align === "center" ? "auto" : "0"};">
+<tr>
+<td bgcolor="${backgroundColor}" style="border-radius:6px;background-color:${backgroundColor};">
+<a href="${escapeText(url)}" target="_blank" style="display:inline-block;padding:12px 28px;font-family:${fontFamily};font-size:16px;font-weight:bold;line-height:20px;color:${textColor};text-decoration:none;border-radius:6px;">${escapeText(label)}</a>
+</td>
+</tr>
+</table>`;
+}
+
+function renderBlockHtml(block: EmailBlock, settings: EmailDocumentSettings): string {
+  const font = settings.fontFamily;
+  const textStyle = `margin:0 0 16px;font-family:${font};font-size:16px;line-height:24px;color:${settings.textColor};`;
+
+  switch (block.type) {
+    case "header": {
+      const logo = block.logoUrl
+        ? `<img src="${escapeText(block.logoUrl)}" alt="" height="40" style="display:block;margin:0 auto 16px;height:40px;border:0;">\n`
+        : "";
+      const subtitle = block.subtitle
+        ? `\n<p style="margin:8px 0 0;font-family:${font};font-size:16px;line-height:22px;color:${block.textColor};">${escapeText(block.subtitle)}</p>`
+        : "";
+      return row(
+        `${logo}<h1 style="margin:0;font-family:${font};font-size:28px;line-height:34px;font-weight:bold;color:${block.textColor};">${escapeText(block.title)}</h1>${subtitle}`,
+        "32px",
+        `background-color:${block.backgroundColor};text-align:center;`
+      );
+    }
+    case "text":
+      return row(paragraphs(block.text, `${textStyle}text-align:${block.align};`));
+    case "image": {
+      if (!block.src) return "";
+      const width = Math.min(block.width, settings.width);
+      const image = `<img src="${escapeText(block.src)}" alt="${escapeText(block.alt)}" width="${width}" class="fluid" style="display:block;margin:0 auto;width:100%;max-width:${width}px;height:auto;border:0;">`;
+      return row(block.href ? `<a href="${escapeText(block.href)}" target="_blank">${image}</a>` : image, "0", "text-align:center;");
+    }
+    case "button":
+      return block.url ? row(button(block.label, block.url, block.backgroundColor, block.textColor, block.align, font)) : "";
+    case "event": {
+      const detail = (label: string, value: string) =>
+        `<tr>\n<td style="padding:2px 12px 2px 0;font-family:${font};font-size:14px;line-height:20px;color:#6b7280;">${label}</td>\n<td style="padding:2px 0;font-family:${font};font-size:14px;line-height:20px;color:${settings.textColor};">${value}</td>\n</tr>`;
+      const description = block.showDescription
+        ? `{{#if eventDescription}}<p style="margin:12px 0 0;font-family:${font};font-size:14px;line-height:20px;color:${settings.textColor};">{{eventDescription}}</p>{{/if}}`
+        : "";
+      const cta = block.buttonUrl && block.buttonLabel
+        ? `\n<div style="padding-top:16px;">${button(block.buttonLabel, block.buttonUrl, settings.accentColor, "#ffffff", "left", font)}</div>`
+        : "";
+      return row(`<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="border:1px solid #e5e7eb;border-left:4px solid ${settings.accentColor};border-radius:6px;">
+<tr>
+<td style="padding:20px;">
+<h2 style="margin:0 0 12px;font-family:${font};font-size:20px;line-height:26px;color:${settings.textColor};">{{eventTitle}}</h2>
+<table role="presentation" cellpadding="0" cellspacing="0" border="0">
+${detail("Date", "{{eventDate}}")}
+${detail("Time", "{{eventTime}} ({{eventTimezone}})")}
+${detail("Where", "{{eventLocation}}")}
+</table>
+${description}${cta}
+</td>
+</tr>
+</table>`);
+    }
+    case "speakers": {
+      const speakers = block.speakers.filter(speaker => speaker.name.trim()).map(speaker => {
+        const photo = speaker.photoUrl
+          ? `<td width="64" valign="top" style="padding:0 16px 16px 0;"><img src="${escapeText(speaker.photoUrl)}" alt="${escapeText(speaker.name)}" width="64" height="64" style="display:block;width:64px;height:64px;border-radius:32px;border:0;"></td>\n`
+          : "";
+        const title = speaker.title
+          ? `<br><span style="font-weight:normal;font-size:14px;color:#6b7280;">${escapeText(speaker.title)}</span>`
+          : "";
+        return `<tr>\n${photo}<td valign="middle" style="padding:0 0 16px;font-family:${font};font-size:16px;line-height:22px;font-weight:bold;color:${settings.textColor};">${escapeText(speaker.name)}${title}</td>\n</tr>`;
+      });
+      if (speakers.length === 0) return "";
+      const heading = block.heading
+        ? `<h2 style="margin:0 0 16px;font-family:${font};font-size:20px;line-height:26px;color:${settings.textColor};">${escapeText(block.heading)}</h2>\n`
+        : "";
+      return row(`${heading}<table role="presentation" cellpadding="0" cellspacing="0" border="0">\n${speakers.join("\n")}\n</table>`);
+    }
+    case "divider":
+      return row(`<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"><tr><td style="border-top:1px solid ${block.color};font-size:0;line-height:0;">&nbsp;</td></tr></table>`, "8px 32px");
+    case "footer": {
+      const unsubscribe = block.showUnsubscribe
+        ? `\n<p style="margin:0;font-family:${font};font-size:12px;line-height:18px;color:#6b7280;"><a href="{{unsubscribeLink}}" target="_blank" style="color:#6b7280;">Unsubscribe or manage email preferences</a></p>`
+        : "";
+      return row(
+        `${paragraphs(block.text, `margin:0 0 8px;font-family:${font};font-size:12px;line-height:18px;color:#6b7280;`)}${unsubscribe}`,
+        "24px 32px",
+        "text-align:center;border-top:1px solid #e5e7eb;"
+      );
+    }
+  }
+}
+
+export function renderEmailDocumentHtml(document: EmailDocument): string {
+  const { settings } = document;
+  const blocks = document.blocks.map(block => renderBlockHtml(block, settings)).filter(Boolean).join("\n");
+
+  // The fixed-width MSO table keeps Outlook from stretching the layout; other
+  // clients use max-width and the media query to go full width on phones
+  return `<!DOCTYPE html>
+<html lang="en" xmlns="http://www.w3.org/1999/xhtml">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="x-apple-disable-message-reformatting">
+<title></title>
+<!--[if mso]><style>table,td{border-collapse:collapse;mso-table-lspace:0pt;mso-table-rspace:0pt;}</style><![endif]-->
+<style>
+@media only screen and (max-width: ${settings.width + 20}px) {
+  .email-container { width: 100% !important; }
+  .fluid { max-width: 100% !important; height: auto !important; }
+}
+</style>
+</head>
+<body style="margin:0;padding:0;background-color:${settings.backgroundColor};">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color:${settings.backgroundColor};">
+<tr>
+<td align="center" style="padding:24px 8px;">
+<!--[if mso]><table role="presentation" width="${settings.width}" cellpadding="0" cellspacing="0" border="0"><tr><td><![endif]-->
+<table role="presentation" class="email-container" width="${settings.width}" cellpadding="0" cellspacing="0" border="0" style="width:100%;max-width:${settings.width}px;background-color:${settings.contentBackgroundColor};border-radius:8px;">
+${blocks}
+</table>
+<!--[if mso]></td></tr></table><![endif]-->
+</td>
+</tr>
+</table>
+</body>
+</html>`;
+}
+
+// Plain-text alternative with the same template tags as the HTML
+export function renderEmailDocumentText(document: EmailDocument): string {
+  const sections = document.blocks.map((block): string => {
+    switch (block.type) {
+      case "header":
+        return [block.title, block.subtitle].filter(Boolean).join("\n");
+      case "text":
+        return block.text.trim();
+      case "image":
+        return block.src && block.alt ? `[${block.alt}]${block.href ? ` ${block.href}` : ""}` : "";
+      case "button":
+        return block.url ? `${block.label}: ${block.url}` : "";
+      case "event":
+        return [
+          "{{eventTitle}}",
+          "Date: {{eventDate}}",
+          "Time: {{eventTime}} ({{eventTimezone}})",
+          "Where: {{eventLocation}}",
+          block.showDescription ? "{{#if eventDescription}}\n{{eventDescription}}{{/if}}" : "",
+          block.buttonUrl && block.buttonLabel ? `\n${block.buttonLabel}: ${block.buttonUrl}` : "",
+        ].filter(Boolean).join("\n");
+      case "speakers": {
+        const speakers = block.speakers
+          .filter(speaker => speaker.name.trim())
+          .map(speaker => `- ${speaker.name}${speaker.title ? `, ${speaker.title}` : ""}`);
+        return speakers.length > 0 ? [block.heading, ...speakers].filter(Boolean).join("\n") : "";
+      }
+      case "divider":
+        return "----------";
+      case "footer":
+        return [block.text.trim(), block.showUnsubscribe ? "Unsubscribe or manage email preferences: {{unsubscribeLink}}" : ""]
+          .filter(Boolean)
+          .join("\n");
+    }
+  });
+
+  return sections.filter(Boolean).join("\n\n");
+}
@@ -0,0 +1,43 @@
+import type { UserRole } from "./schema";
+
+export type Permission =
+  | "events:write"
+  | "events:delete"
+  | "attendees:write"
+  | "attendees:checkin"
+  | "registrations:approve"
+  | "campaigns:write"
+  | "campaigns:send"
+  | "templates:write"
+  | "users:manage";
+
+// Every role can read events, attendees, campaigns, templates and analytics;
+// these grants only cover actions that change data or send email.
+export const rolePermissions: Record<UserRole, Permission[]> = {
+  admin: [
+    "events:write",
+    "events:delete",
+    "attendees:write",
+    "attendees:checkin",
+    "registrations:approve",
+    "campaigns:write",
+    "campaigns:send",
+    "templates:write",
+    "users:manage",
+  ],
+  organizer: ["events:write", "attendees:checkin", "registrations:approve"],
+  marketer: ["campaigns:write", "campaigns:send", "templates:write"],
+  viewer: [],
+};
+
+export const roleLabels: Record<UserRole, string> = {
+  admin: "Administrator",
+  organizer: "Event Organizer",
+  marketer: "Marketer",
+  viewer: "Viewer",
+};
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return rolePermissions[role]?.includes(permission) ?? false;
+}
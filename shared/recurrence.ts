@@ -0,0 +1,144 @@
+import { z } from "zod";
+
+// Recurrence rules for event series. Occurrences keep the first event's
+// wall-clock time in the event's timezone, so a 10:00 webinar stays at 10:00
+// across daylight saving changes.
+
+export const recurrenceFrequencies = ["daily", "weekly", "monthly"] as const;
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
+
+export const MAX_SERIES_OCCURRENCES = 100;
+
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates use the YYYY-MM-DD format");
+
+export const recurrenceRuleSchema = z.object({
+  frequency: z.enum(recurrenceFrequencies),
+  interval: z.number().int().min(1).max(52).default(1),
+  // The series ends on this date (inclusive) or after this many occurrences
+  until: localDate.optional(),
+  count: z.number().int().min(1).max(MAX_SERIES_OCCURRENCES).optional(),
+  // Dates in the pattern that are skipped
+  exceptions: z.array(localDate).max(MAX_SERIES_OCCURRENCES).default([]),
+}).refine(rule => (rule.until === undefined) !== (rule.count === undefined), {
+  message: "A series ends either on a date or after a number of occurrences",
+});
+
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+
+type LocalDateTime = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+function toLocal(date: Date, timeZone: string): LocalDateTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute"), second: get("second") };
+}
+
+const localAsUtc = (local: LocalDateTime) =>
+  Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+
+// The instant a wall-clock time in a timezone refers to. Times skipped by a
+// daylight saving jump resolve to the same clock time after the jump.
+function fromLocal(local: LocalDateTime, timeZone: string): Date {
+  const target = localAsUtc(local);
+  let instant = target;
+  for (let i = 0; i < 2; i++) {
+    const offset = localAsUtc(toLocal(new Date(instant), timeZone)) - instant;
+    instant = target - offset;
+  }
+  return new Date(instant);
+}
+
+// Milliseconds the timezone's wall clock is ahead of UTC at an instant
+export function timeZoneOffset(date: Date, timeZone: string): number {
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return localAsUtc(toLocal(new Date(instant), timeZone)) - instant;
+}
+
+export function formatLocalDate(date: Date, timeZone: string): string {
+  const { year, month, day } = toLocal(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// How far apart two instants are on the wall clock of a timezone
+export function wallClockDifference(from: Date, to: Date, timeZone: string): number {
+  return localAsUtc(toLocal(to, timeZone)) - localAsUtc(toLocal(from, timeZone));
+}
+
+// Moves an instant by a duration measured in wall-clock time, so shifting a
+// weekly occurrence by an hour keeps it an hour later after a DST change
+export function shiftWallClock(date: Date, milliseconds: number, timeZone: string): Date {
+  const shifted = new Date(localAsUtc(toLocal(date, timeZone)) + milliseconds);
+  return fromLocal({
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    second: shifted.getUTCSeconds(),
+  }, timeZone);
+}
+
+// Start times of every occurrence, the first event included. Monthly series
+// skip months without the starting day (a series on the 31st skips April).
+// Stops one past MAX_SERIES_OCCURRENCES so callers can reject series that are too long.
+export function generateOccurrences(start: Date, rule: RecurrenceRule, timeZone = "UTC"): Date[] {
+  const first = toLocal(start, timeZone);
+  const exceptions = new Set(rule.exceptions);
+  const occurrences: Date[] = [];
+  let generated = 0;
+
+  for (let step = 0; occurrences.length <= MAX_SERIES_OCCURRENCES; step++) {
+    if (rule.count !== undefined && generated >= rule.count) break;
+
+    const offset = step * rule.interval;
+    const candidate = new Date(Date.UTC(
+      first.year,
+      first.month - 1 + (rule.frequency === "monthly" ? offset : 0),
+      first.day + (rule.frequency === "daily" ? offset : rule.frequency === "weekly" ? offset * 7 : 0),
+    ));
+    if (rule.frequency === "monthly" && candidate.getUTCDate() !== first.day) continue;
+
+    const date = candidate.toISOString().slice(0, 10);
+    if (rule.until !== undefined && date > rule.until) break;
+
+    // Exceptions count towards the occurrence count, as EXDATE does in iCalendar
+    generated++;
+    if (exceptions.has(date)) continue;
+
+    occurrences.push(fromLocal({
+      ...first,
+      year: candidate.getUTCFullYear(),
+      month: candidate.getUTCMonth() + 1,
+      day: candidate.getUTCDate(),
+    }, timeZone));
+  }
+
+  return occurrences;
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = { daily: "day", weekly: "week", monthly: "month" }[rule.frequency];
+  const every = rule.interval === 1
+    ? { daily: "Daily", weekly: "Weekly", monthly: "Monthly" }[rule.frequency]
+    : `Every ${rule.interval} ${unit}s`;
+  const end = rule.count !== undefined
+    ? `, ${rule.count} time${rule.count === 1 ? "" : "s"}`
+    : rule.until ? ` until ${rule.until}` : "";
+  return `${every}${end}`;
+}
@@ -0,0 +1,131 @@
+import { z } from "zod";
+
+// Custom questions an organizer adds to an event's registration form. The
+// definitions live on the event; each registration stores its answers keyed by
+// field id, and the server validates them against a schema generated from the
+// event's fields.
+
+export const registrationFieldTypes = ["text", "single-select", "multi-select", "checkbox", "consent"] as const;
+export type RegistrationFieldType = typeof registrationFieldTypes[number];
+
+export const registrationFieldTypeLabels: Record<RegistrationFieldType, string> = {
+  text: "Text",
+  "single-select": "Single choice",
+  "multi-select": "Multiple choice",
+  checkbox: "Checkbox",
+  consent: "Consent",
+};
+
+export const MAX_REGISTRATION_FIELDS = 20;
+const MAX_TEXT_ANSWER_LENGTH = 1000;
+
+export const registrationFieldSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]{1,40}$/, "Field ids use lowercase letters, numbers, dashes and underscores"),
+  label: z.string().trim().min(1, "Every question needs a label").max(500),
+  type: z.enum(registrationFieldTypes),
+  required: z.boolean().default(false),
+  options: z.array(z.string().trim().min(1).max(100)).max(50).default([]),
+  helpText: z.string().max(500).optional(),
+}).superRefine((field, ctx) => {
+  const isSelect = field.type === "single-select" || field.type === "multi-select";
+  if (isSelect && field.options.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["options"], message: `"${field.label}" needs at least one option` });
+  }
+  if (new Set(field.options).size !== field.options.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["options"], message: `"${field.label}" has duplicate options` });
+  }
+});
+
+export const registrationFieldsSchema = z.array(registrationFieldSchema)
+  .max(MAX_REGISTRATION_FIELDS)
+  .refine(fields => new Set(fields.map(f => f.id)).size === fields.length, "Field ids must be unique");
+
+export type RegistrationField = z.infer<typeof registrationFieldSchema>;
+
+export type RegistrationAnswer = string | string[] | boolean;
+export type RegistrationAnswers = Record<string, RegistrationAnswer>;
+
+function answerSchema(field: RegistrationField): z.ZodTypeAny {
+  switch (field.type) {
+    case "text": {
+      const text = z.string().trim().max(MAX_TEXT_ANSWER_LENGTH);
+      return field.required ? text.min(1, `${field.label} is required`) : text.optional();
+    }
+    case "single-select": {
+      const choice = z.enum(field.options as [string, ...string[]], {
+        errorMap: () => ({ message: `Choose one of the options for ${field.label}` }),
+      });
+      return field.required ? choice : choice.optional();
+    }
+    case "multi-select": {
+      const choices = z.array(z.enum(field.options as [string, ...string[]]))
+        .min(field.required ? 1 : 0, `Choose at least one option for ${field.label}`)
+        .refine(values => new Set(values).size === values.length, `${field.label} has the same option twice`);
+      return field.required ? choices : choices.optional();
+    }
+    case "checkbox":
+      return field.required ? z.literal(true, { errorMap: () => ({ message: `${field.label} must be checked` }) }) : z.boolean().optional();
+    case "consent":
+      // Consent has to be given explicitly; a required consent can't be declined
+      return field.required
+        ? z.literal(true, { errorMap: () => ({ message: `Consent is required: ${field.label}` }) })
+        : z.boolean().optional();
+  }
+}
+
+// Schema for one registration's answers to an event's questions. Unknown field
+// ids are rejected so stale forms can't store answers nobody asked for.
+export function buildRegistrationAnswersSchema(fields: RegistrationField[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    shape[field.id] = answerSchema(field);
+  }
+  return z.object(shape).strict();
+}
+
+// An answer as a single cell for exports and lists
+export function formatRegistrationAnswer(field: RegistrationField, answer: RegistrationAnswer | undefined): string {
+  if (answer === undefined) return "";
+  if (Array.isArray(answer)) return answer.join("; ");
+  if (typeof answer === "boolean") {
+    return field.type === "consent" ? (answer ? "Given" : "Declined") : (answer ? "Yes" : "No");
+  }
+  return answer;
+}
+
+// Values a campaign can target for a field: the options for selects, yes/no for
+// checkboxes and consent. Free text isn't targetable.
+export function getTargetableValues(field: RegistrationField): string[] {
+  switch (field.type) {
+    case "single-select":
+    case "multi-select":
+      return field.options;
+    case "checkbox":
+    case "consent":
+      return ["true", "false"];
+    case "text":
+      return [];
+  }
+}
+
+// Whether an answer matches any of the values a campaign targets
+export function registrationAnswerMatches(answer: RegistrationAnswer | undefined, values: string[]): boolean {
+  if (values.length === 0) return true;
+  if (Array.isArray(answer)) return answer.some(value => values.includes(value));
+  if (typeof answer === "boolean") return values.includes(String(answer));
+  // Unanswered checkboxes count as unchecked
+  if (answer === undefined) return values.includes("false");
+  return values.includes(answer);
+}
+
+// Field ids are derived from labels when a question is created and never change
+// afterwards, so renaming a question keeps its stored answers
+export function createRegistrationFieldId(label: string, existing: RegistrationField[]): string {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 32) || "question";
+  const taken = new Set(existing.map(f => f.id));
+  let id = base;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}_${n}`;
+  }
+  return id;
+}
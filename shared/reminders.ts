@@ -0,0 +1,47 @@
+// Reminder offsets are stored per event as minutes before the event starts
+
+export const DEFAULT_REMINDER_OFFSETS = [1440, 120, 30];
+
+export const reminderOffsetOptions = [10080, 2880, 1440, 240, 120, 60, 30, 15];
+
+export function formatReminderOffset(minutes: number): string {
+  const units: [number, string][] = [
+    [10080, "week"],
+    [1440, "day"],
+    [60, "hour"],
+    [1, "minute"],
+  ];
+
+  for (const [size, label] of units) {
+    if (minutes >= size && minutes % size === 0) {
+      const count = minutes / size;
+      return `${count} ${label}${count > 1 ? "s" : ""}`;
+    }
+  }
+  return `${minutes} minutes`;
+}
+
+export type ReminderTimelineEntry = {
+  offsetMinutes: number;
+  sendAt: Date;
+  isPast: boolean;
+};
+
+export function getReminderTimeline(startDate: Date, offsets: number[], now: Date = new Date()): ReminderTimelineEntry[] {
+  return Array.from(new Set(offsets))
+    .sort((a, b) => b - a)
+    .map(offsetMinutes => {
+      const sendAt = new Date(startDate.getTime() - offsetMinutes * 60 * 1000);
+      return { offsetMinutes, sendAt, isPast: sendAt <= now };
+    });
+}
+
+// The reminder that should go out right now: the closest offset whose send time
+// has passed, as long as the event has not started. Earlier offsets that were
+// missed (late registration, downtime) are skipped rather than sent in a burst.
+export function getDueReminderOffset(startDate: Date, offsets: number[], now: Date = new Date()): number | undefined {
+  if (startDate <= now) return undefined;
+
+  const due = getReminderTimeline(startDate, offsets, now).filter(entry => entry.isPast);
+  return due.length > 0 ? due[due.length - 1].offsetMinutes : undefined;
+}
@@ -1,22 +1,69 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DEFAULT_REMINDER_OFFSETS } from "./reminders";
+import { emailDocumentSchema, type EmailDocument } from "./emailBlocks";
+import { registrationFieldsSchema, type RegistrationField, type RegistrationAnswers } from "./registrationFields";
+import { recurrenceRuleSchema, type RecurrenceRule } from "./recurrence";
+
+// Workspaces table (one per organization or business unit)
+export const workspaces = pgTable("workspaces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  slug: text("slug").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Workspace members table (admins can access every workspace without a membership)
+export const workspaceMembers = pgTable("workspace_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Who may register: anyone who can see the event, anyone subject to an
+// organizer's approval, or only visitors holding a signed invite link
+export const registrationModes = ["open", "approval", "invite"] as const;
+export type RegistrationMode = typeof registrationModes[number];
+
+// A recurring event: the rule its occurrences were generated from. Every
+// occurrence is a regular event with its own registrations.
+export const eventSeries = pgTable("event_series", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id),
+  title: text("title").notNull(),
+  recurrence: jsonb("recurrence").$type<RecurrenceRule>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
 
 // Events table
 export const events = pgTable("events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id),
   title: text("title").notNull(),
   description: text("description"),
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date"),
   timezone: text("timezone").default("UTC"),
   maxAttendees: integer("max_attendees"),
+  // Confirmed (not waitlisted) registrations. Seats are claimed with a
+  // conditional update on this count, so two registrants can't both take the last one.
+  registeredCount: integer("registered_count").notNull().default(0),
+  // Private events are left off the public registration page; invite links still reach them
   isPublic: boolean("is_public").default(true),
+  registrationMode: text("registration_mode").$type<RegistrationMode>().notNull().default("open"),
   status: text("status").$type<"draft" | "published" | "live" | "completed" | "cancelled">().default("draft"),
   imageUrl: text("image_url"),
   location: text("location"),
   tags: text("tags").array(),
+  reminderOffsets: integer("reminder_offsets").array().notNull().default(DEFAULT_REMINDER_OFFSETS), // Minutes before start
+  // Custom questions on the registration form (see shared/registrationFields.ts)
+  registrationFields: jsonb("registration_fields").$type<RegistrationField[]>().notNull().default([]),
+  seriesId: varchar("series_id").references(() => eventSeries.id),
+  // Deleted events are hidden from lists but keep their registrations and email history
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -24,6 +71,7 @@ export const events = pgTable("events", {
 // Attendees table
 export const attendees = pgTable("attendees", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id),
   email: text("email").notNull(),
   name: text("name").notNull(),
   company: text("company"),
@@ -40,13 +88,24 @@ export const attendees = pgTable("attendees", {
 });
 
 // Event registrations table
+export const registrationStatuses = ["registered", "waitlisted", "pending", "rejected", "cancelled"] as const;
+export type RegistrationStatus = typeof registrationStatuses[number];
+
 export const eventRegistrations = pgTable("event_registrations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   eventId: varchar("event_id").notNull().references(() => events.id),
   attendeeId: varchar("attendee_id").notNull().references(() => attendees.id),
+  // Registrants over the event's capacity wait in registrationDate order;
+  // pending ones wait for an organizer on events that require approval
+  status: text("status").$type<RegistrationStatus>().notNull().default("registered"),
+  // Answers to the event's registrationFields, keyed by field id
+  answers: jsonb("answers").$type<RegistrationAnswers>(),
   registrationDate: timestamp("registration_date").defaultNow(),
   attended: boolean("attended").default(false),
   attendanceTime: integer("attendance_time_minutes"),
+  // Latest arrival and departure scanned at the check-in kiosk
+  checkedInAt: timestamp("checked_in_at"),
+  checkedOutAt: timestamp("checked_out_at"),
   feedback: jsonb("feedback").$type<{
     rating: number;
     comments: string;
@@ -57,10 +116,16 @@ export const eventRegistrations = pgTable("event_registrations", {
 // Email campaigns table
 export const emailCampaigns = pgTable("email_campaigns", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id),
   name: text("name").notNull(),
-  type: text("type").$type<"reminder" | "welcome" | "follow-up" | "content-preview" | "thank-you">().notNull(),
+  // event-update campaigns are created automatically when an event is rescheduled, moved or cancelled,
+  // waitlist-promotion ones when a waitlisted registrant is given a seat, and
+  // registration-approved/-waitlisted/-rejected ones when an organizer decides on a pending registration
+  type: text("type").$type<"reminder" | "welcome" | "follow-up" | "content-preview" | "thank-you" | "event-update" | "waitlist-promotion" | "registration-approved" | "registration-waitlisted" | "registration-rejected">().notNull(),
   eventId: varchar("event_id").references(() => events.id),
   templateId: varchar("template_id").references(() => emailTemplates.id),
+  // Template version the campaign was created from; later template edits don't affect it
+  templateVersionId: varchar("template_version_id").references(() => emailTemplateVersions.id),
   subject: text("subject").notNull(),
   content: text("content").notNull(),
   scheduledAt: timestamp("scheduled_at"),
@@ -70,6 +135,8 @@ export const emailCampaigns = pgTable("email_campaigns", {
     interests: string[];
     engagementScore: { min: number; max: number };
     attendanceHistory: "all" | "attended" | "not-attended";
+    // Registrants whose answer to each field matches one of the values (event campaigns only)
+    registrationAnswers?: { fieldId: string; values: string[] }[];
   }>(),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -77,28 +144,143 @@ export const emailCampaigns = pgTable("email_campaigns", {
 // Email templates table
 export const emailTemplates = pgTable("email_templates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id),
   name: text("name").notNull(),
-  type: text("type").$type<"reminder" | "welcome" | "follow-up" | "content-preview" | "thank-you">().notNull(),
+  type: text("type").$type<"reminder" | "welcome" | "follow-up" | "content-preview" | "thank-you" | "registration-approved" | "registration-rejected">().notNull(),
   subject: text("subject").notNull(),
   content: text("content").notNull(),
   variables: text("variables").array(), // Available template variables
+  // Block builder document; when set, content and textContent are rendered from it
+  design: jsonb("design").$type<EmailDocument>(),
+  textContent: text("text_content"), // Plain-text alternative
   isActive: boolean("is_active").default(true),
+  currentVersion: integer("current_version").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Email sends table (for tracking)
+// Immutable snapshot of a template's subject and content, one per save
+export const emailTemplateVersions = pgTable("email_template_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: varchar("template_id").notNull().references(() => emailTemplates.id),
+  version: integer("version").notNull(),
+  subject: text("subject").notNull(),
+  content: text("content").notNull(),
+  variables: text("variables").array(),
+  design: jsonb("design").$type<EmailDocument>(),
+  textContent: text("text_content"),
+  createdBy: varchar("created_by").references(() => users.id),
+  // Set when this version was created by rolling back to an earlier one
+  restoredFrom: integer("restored_from"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  templateVersionUnique: unique().on(table.templateId, table.version),
+}));
+
+// Email sends table (one row per campaign recipient, for delivery tracking)
+export const emailSendStatuses = ["queued", "sent", "delivered", "bounced", "failed"] as const;
+export type EmailSendStatus = typeof emailSendStatuses[number];
+
 export const emailSends = pgTable("email_sends", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   campaignId: varchar("campaign_id").notNull().references(() => emailCampaigns.id),
   attendeeId: varchar("attendee_id").notNull().references(() => attendees.id),
-  sentAt: timestamp("sent_at").notNull(),
+  status: text("status").$type<EmailSendStatus>().notNull().default("queued"),
+  providerMessageId: text("provider_message_id"), // Matches delivery webhooks back to the send
+  errorCode: text("error_code"), // Last provider error, kept while retrying
+  errorMessage: text("error_message"),
+  sentAt: timestamp("sent_at"),
+  deliveredAt: timestamp("delivered_at"),
   openedAt: timestamp("opened_at"),
   clickedAt: timestamp("clicked_at"),
   bounced: boolean("bounced").default(false),
+  complained: boolean("complained").default(false),
   unsubscribed: boolean("unsubscribed").default(false),
 });
 
+// Sent event reminders ledger (one row per registrant and offset, so each reminder fires once)
+export const eventReminders = pgTable("event_reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull().references(() => events.id),
+  attendeeId: varchar("attendee_id").notNull().references(() => attendees.id),
+  offsetMinutes: integer("offset_minutes").notNull(),
+  campaignId: varchar("campaign_id").notNull().references(() => emailCampaigns.id),
+  sentAt: timestamp("sent_at").defaultNow(),
+}, (table) => ({
+  eventAttendeeOffset: unique().on(table.eventId, table.attendeeId, table.offsetMinutes),
+}));
+
+// Suppression list (addresses that must never be emailed from a workspace)
+export const suppressionReasons = ["unsubscribed", "bounced", "complained", "blocked"] as const;
+export type SuppressionReason = typeof suppressionReasons[number];
+
+export const suppressions = pgTable("suppressions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id),
+  email: text("email").notNull(), // Stored lowercased
+  reason: text("reason").$type<SuppressionReason>().notNull(),
+  campaignId: varchar("campaign_id").references(() => emailCampaigns.id),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  workspaceEmail: unique().on(table.workspaceId, table.email),
+}));
+
+// Email send queue table (one row per campaign recipient, drained by the scheduler worker)
+export const emailQueue = pgTable("email_queue", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").notNull().references(() => emailCampaigns.id),
+  attendeeId: varchar("attendee_id").notNull().references(() => attendees.id),
+  status: text("status").$type<"pending" | "processing" | "sent" | "skipped" | "dead">().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  // Lease on a "processing" item: the worker sending it and when it claimed it.
+  // Leases older than the queue's lease time belong to a worker that died.
+  lockedAt: timestamp("locked_at"),
+  lockedBy: text("locked_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  campaignAttendee: unique().on(table.campaignId, table.attendeeId),
+}));
+
+// Speakers belong to the workspace, so one speaker can present at several events
+export const speakers = pgTable("speakers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id),
+  name: text("name").notNull(),
+  title: text("title"), // Job title
+  company: text("company"),
+  bio: text("bio"),
+  photoUrl: text("photo_url"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Sessions on an event's agenda; sessions in different tracks can run at the same time
+export const eventSessions = pgTable("event_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull().references(() => events.id),
+  title: text("title").notNull(),
+  abstract: text("abstract"),
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time").notNull(),
+  track: text("track"),
+  location: text("location"), // Room name or stream link
+  speakerIds: text("speaker_ids").array().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Sessions an attendee has bookmarked for their own agenda
+export const sessionBookmarks = pgTable("session_bookmarks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => eventSessions.id),
+  attendeeId: varchar("attendee_id").notNull().references(() => attendees.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  sessionAttendee: unique().on(table.sessionId, table.attendeeId),
+}));
+
 // Content previews table
 export const contentPreviews = pgTable("content_previews", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -109,13 +291,20 @@ export const contentPreviews = pgTable("content_previews", {
   url: text("url"),
   fileData: text("file_data"), // Base64 encoded file data
   targetInterests: text("target_interests").array(),
+  // The speaker a speaker-bio is about
+  speakerId: varchar("speaker_id").references(() => speakers.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Analytics events table
 export const analyticsEvents = pgTable("analytics_events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  eventType: text("event_type").$type<"registration" | "email_open" | "email_click" | "attendance" | "engagement">().notNull(),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id),
+  // registration_update is a change the attendee made from their manage-registration link;
+  // metadata.action says which
+  // attendance is a registration marked attended; metadata.action is check_in or
+  // check_out for arrivals and departures scanned at the check-in kiosk
+  eventType: text("event_type").$type<"registration" | "registration_update" | "email_open" | "email_click" | "email_bounce" | "email_complaint" | "attendance" | "engagement">().notNull(),
   attendeeId: varchar("attendee_id").references(() => attendees.id),
   eventId: varchar("event_id").references(() => events.id),
   campaignId: varchar("campaign_id").references(() => emailCampaigns.id),
@@ -124,52 +313,146 @@ export const analyticsEvents = pgTable("analytics_events", {
 });
 
 // Insert schemas
-export const insertEventSchema = createInsertSchema(events).omit({
+export const insertWorkspaceSchema = createInsertSchema(workspaces, {
+  slug: z.string().regex(/^[a-z0-9-]+$/, "Slug may only contain lowercase letters, numbers and dashes"),
+}).omit({
   id: true,
   createdAt: true,
+});
+
+export const insertEventSchema = createInsertSchema(events, {
+  // Dates arrive as ISO strings in JSON request bodies
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullable().optional(),
+  reminderOffsets: z.array(z.number().int().positive()).optional(),
+  registrationFields: registrationFieldsSchema.optional(),
+  registrationMode: z.enum(registrationModes).optional(),
+}).omit({
+  id: true,
+  workspaceId: true,
+  seriesId: true,
+  registeredCount: true,
+  deletedAt: true,
+  createdAt: true,
   updatedAt: true,
 });
 
+export const insertEventSeriesSchema = createInsertSchema(eventSeries, {
+  recurrence: recurrenceRuleSchema,
+}).omit({
+  id: true,
+  workspaceId: true,
+  createdAt: true,
+});
+
+// A new series is its first event plus the rule for the rest
+export const createEventSeriesSchema = z.object({
+  event: insertEventSchema,
+  recurrence: recurrenceRuleSchema,
+});
+
 export const insertAttendeeSchema = createInsertSchema(attendees).omit({
   id: true,
+  workspaceId: true,
   registrationDate: true,
   lastActivity: true,
   engagementScore: true,
 });
 
-export const insertEventRegistrationSchema = createInsertSchema(eventRegistrations).omit({
+export const insertEventRegistrationSchema = createInsertSchema(eventRegistrations, {
+  status: z.enum(registrationStatuses).optional(),
+  // Checked against the event's fields with buildRegistrationAnswersSchema before saving
+  answers: z.record(z.union([z.string(), z.array(z.string()), z.boolean()])).nullable().optional(),
+}).omit({
   id: true,
   registrationDate: true,
 });
 
-export const insertEmailCampaignSchema = createInsertSchema(emailCampaigns).omit({
+export const insertEmailCampaignSchema = createInsertSchema(emailCampaigns, {
+  // Dates arrive as ISO strings in JSON request bodies
+  scheduledAt: z.coerce.date().nullable().optional(),
+}).omit({
   id: true,
+  workspaceId: true,
   createdAt: true,
   sentAt: true,
 });
 
 export const insertEmailTemplateSchema = createInsertSchema(emailTemplates).omit({
   id: true,
+  workspaceId: true,
+  currentVersion: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  design: emailDocumentSchema.nullable().optional(),
+});
+
+export const insertSuppressionSchema = createInsertSchema(suppressions, {
+  email: z.string().email(),
+  reason: z.enum(suppressionReasons),
+}).omit({
+  id: true,
+  workspaceId: true,
+  createdAt: true,
 });
 
 export const insertContentPreviewSchema = createInsertSchema(contentPreviews).omit({
   id: true,
   createdAt: true,
+}).refine(preview => preview.contentType !== "speaker-bio" || !!preview.speakerId, {
+  message: "Speaker bios must be linked to a speaker",
+  path: ["speakerId"],
+});
+
+export const insertSpeakerSchema = createInsertSchema(speakers, {
+  name: z.string().trim().min(1, "Speakers need a name"),
+  photoUrl: z.string().url().nullable().optional(),
+}).omit({
+  id: true,
+  workspaceId: true,
+  createdAt: true,
+});
+
+// The end time is checked against the start once updates are merged (see EventAgendaService)
+export const insertEventSessionSchema = createInsertSchema(eventSessions, {
+  title: z.string().trim().min(1, "Sessions need a title"),
+  // Dates arrive as ISO strings in JSON request bodies
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+  speakerIds: z.array(z.string()).max(20).optional(),
+}).omit({
+  id: true,
+  eventId: true,
+  createdAt: true,
 });
 
 export const insertAnalyticsEventSchema = createInsertSchema(analyticsEvents).omit({
   id: true,
+  workspaceId: true,
   timestamp: true,
 });
 
 // Types
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+
+// Insert payloads are validated without a workspace; the server assigns the active one
+export type WorkspaceScoped<T> = T & { workspaceId: string };
+
 export type Event = typeof events.$inferSelect;
 export type InsertEvent = z.infer<typeof insertEventSchema>;
 
+export type EventSeries = typeof eventSeries.$inferSelect;
+export type InsertEventSeries = z.infer<typeof insertEventSeriesSchema>;
+// A series with its remaining occurrences in date order
+export type EventSeriesWithOccurrences = EventSeries & { occurrences: Event[] };
+
 export type Attendee = typeof attendees.$inferSelect;
 export type InsertAttendee = z.infer<typeof insertAttendeeSchema>;
+export type EmailFrequency = NonNullable<Attendee["preferences"]>["emailFrequency"];
 
 export type EventRegistration = typeof eventRegistrations.$inferSelect;
 export type InsertEventRegistration = z.infer<typeof insertEventRegistrationSchema>;
@@ -180,24 +463,144 @@ export type InsertEmailCampaign = z.infer<typeof insertEmailCampaignSchema>;
 export type EmailTemplate = typeof emailTemplates.$inferSelect;
 export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
 
+export type EmailTemplateVersion = typeof emailTemplateVersions.$inferSelect;
+
 export type EmailSend = typeof emailSends.$inferSelect;
 
+export type CampaignDelivery = EmailSend & {
+  attendeeName: string;
+  attendeeEmail: string;
+};
+
+export type EventReminder = typeof eventReminders.$inferSelect;
+
+export type EmailQueueItem = typeof emailQueue.$inferSelect;
+
+export type CampaignSendProgress = {
+  total: number;
+  pending: number;
+  processing: number;
+  sent: number;
+  retrying: number;
+  skipped: number;
+  dead: number;
+};
+
+// Seats and waitlist for an event; capacity and spotsLeft are null when it is uncapped
+export type EventCapacity = {
+  capacity: number | null;
+  registered: number;
+  waitlisted: number;
+  spotsLeft: number | null;
+};
+
+// Live numbers for the check-in kiosk: registered attendees, those on site now,
+// and everyone who has checked in at least once
+export type CheckInCounts = {
+  registered: number;
+  checkedIn: number;
+  attended: number;
+};
+
+// The outcome of a kiosk scan, with who it was for
+export type CheckInResult = {
+  registration: EventRegistration;
+  attendeeName: string;
+  attendeeEmail: string;
+  // The scan repeated the attendee's current state (already in, or already out)
+  unchanged: boolean;
+  counts: CheckInCounts;
+};
+
+// Webinar tools whose attendance exports are recognized; "csv" is any other
+// report with an email column
+export type AttendancePlatform = "zoom" | "teams" | "webex" | "csv";
+
+// A report row that couldn't be applied to a registration of the event
+export type UnmatchedAttendanceRow = {
+  line: number;
+  name: string;
+  email: string;
+  reason: string;
+};
+
+export type AttendanceImportResult = {
+  platform: AttendancePlatform;
+  // Distinct attendees in the report, those whose registration was marked
+  // attended, and those the report lists as registered but absent
+  rows: number;
+  matched: number;
+  absent: number;
+  unmatched: UnmatchedAttendanceRow[];
+};
+
+// A registration as returned to the registrant, with their place in line if waitlisted
+export type RegistrationResult = EventRegistration & {
+  waitlistPosition: number | null;
+};
+
+// A registration waiting in the approval queue, with who asked and for what
+export type PendingRegistration = EventRegistration & {
+  attendeeName: string;
+  attendeeEmail: string;
+  attendeeCompany: string | null;
+  eventTitle: string;
+  eventStartDate: Date;
+};
+
+export type Suppression = typeof suppressions.$inferSelect;
+export type InsertSuppression = z.infer<typeof insertSuppressionSchema>;
+
+// A fully rendered message kept by the development capture provider instead of being delivered
+export type CapturedEmail = {
+  id: string;
+  to: string;
+  from: string;
+  subject: string;
+  html: string;
+  text?: string; // Missing on messages captured before plain-text parts were sent
+  headers: Record<string, string>;
+  attachments?: { filename: string; contentType: string; content: string }[]; // Content is base64
+  capturedAt: string;
+};
+
 export type ContentPreview = typeof contentPreviews.$inferSelect;
 export type InsertContentPreview = z.infer<typeof insertContentPreviewSchema>;
 
+export type Speaker = typeof speakers.$inferSelect;
+export type InsertSpeaker = z.infer<typeof insertSpeakerSchema>;
+
+export type EventSession = typeof eventSessions.$inferSelect;
+export type InsertEventSession = z.infer<typeof insertEventSessionSchema>;
+
+export type SessionBookmark = typeof sessionBookmarks.$inferSelect;
+
+// A session with its speakers, as listed on the agenda. Operators also see how
+// many attendees bookmarked it.
+export type AgendaSession = EventSession & { speakers: Speaker[]; bookmarkCount?: number };
+
+// Sessions in start time order, and everyone speaking at them
+export type EventAgenda = { sessions: AgendaSession[]; speakers: Speaker[] };
+
 export type AnalyticsEvent = typeof analyticsEvents.$inferSelect;
 export type InsertAnalyticsEvent = z.infer<typeof insertAnalyticsEventSchema>;
 
 // User schema (from existing)
+export const userRoles = ["admin", "organizer", "marketer", "viewer"] as const;
+export type UserRole = typeof userRoles[number];
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("viewer"),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+}).extend({
+  role: z.enum(userRoles).optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -0,0 +1,351 @@
+// Email template language shared by the send path and the editor preview.
+//
+//   {{attendeeName}}                       HTML-escaped value
+//   {{{unsubscribeLink}}}                  raw value, not escaped
+//   {{attendeeCompany | default: "you"}}   filters, chained with |
+//   {{eventStartDate | date: "long"}}      date, time and datetime formatting
+//   {{#if attendeeCompany}}...{{else}}...{{/if}}, {{#unless ...}}
+//   {{#each attendeeInterests}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}
+//   {{! comments are dropped }}
+//
+// Unknown variables render as empty strings; syntax errors throw TemplateSyntaxError.
+
+export class TemplateSyntaxError extends Error {
+  // 1-based line of the offending tag, when known
+  line?: number;
+}
+
+export type TemplateContext = Record<string, unknown>;
+
+export type RenderOptions = {
+  // Off for subject lines and plain-text bodies
+  escapeHtml?: boolean;
+  // IANA zone used by the date filters, usually the event's timezone
+  timeZone?: string;
+};
+
+type FilterCall = { name: string; args: (string | number)[] };
+
+type Expression = { path: string; filters: FilterCall[] };
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "output"; expression: Expression; raw: boolean }
+  | { type: "if"; negate: boolean; condition: Expression; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: "each"; list: Expression; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { type: "if" | "each" }>;
+
+const DATE_FORMATS: Record<string, Intl.DateTimeFormatOptions> = {
+  short: { month: "numeric", day: "numeric", year: "numeric" },
+  medium: { month: "short", day: "numeric", year: "numeric" },
+  long: { weekday: "long", month: "long", day: "numeric", year: "numeric" },
+};
+
+const TIME_FORMATS: Record<string, Intl.DateTimeFormatOptions> = {
+  short: { hour: "numeric", minute: "2-digit" },
+  long: { hour: "numeric", minute: "2-digit", timeZoneName: "short" },
+};
+
+// Fixed so the server and every browser render the same text
+const LOCALE = "en-US";
+
+type Filter = (value: unknown, args: (string | number)[], options: RenderOptions) => unknown;
+
+const filters: Record<string, Filter> = {
+  default: (value, [fallback = ""]) => (isEmpty(value) ? fallback : value),
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  capitalize: (value) => {
+    const text = toText(value);
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  },
+  truncate: (value, [length = 100]) => {
+    const text = toText(value);
+    const max = Number(length);
+    return text.length > max ? `${text.slice(0, max).trimEnd()}…` : text;
+  },
+  join: (value, [separator = ", "]) => (Array.isArray(value) ? value.map(toText).join(String(separator)) : toText(value)),
+  date: (value, [format = "medium"], options) => formatDateValue(value, DATE_FORMATS, String(format), options),
+  time: (value, [format = "short"], options) => formatDateValue(value, TIME_FORMATS, String(format), options),
+  datetime: (value, [format = "medium"], options) => {
+    const date = formatDateValue(value, DATE_FORMATS, String(format), options);
+    const time = formatDateValue(value, TIME_FORMATS, format === "long" ? "long" : "short", options);
+    return date && time ? `${date} at ${time}` : "";
+  },
+};
+
+export const templateFilterNames = Object.keys(filters);
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value;
+  if (typeof value === "string" || typeof value === "number") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+function formatDateValue(
+  value: unknown,
+  formats: Record<string, Intl.DateTimeFormatOptions>,
+  format: string,
+  options: RenderOptions
+): string {
+  const date = toDate(value);
+  if (!date) return "";
+  if (format === "iso") return date.toISOString();
+
+  try {
+    return new Intl.DateTimeFormat(LOCALE, { ...formats[format], timeZone: options.timeZone }).format(date);
+  } catch {
+    // Unknown time zone names fall back to UTC rather than failing the send
+    return new Intl.DateTimeFormat(LOCALE, { ...formats[format], timeZone: "UTC" }).format(date);
+  }
+}
+
+// Same output as the date and time filters, for building context values
+export function formatTemplateDate(value: Date | string, format: "short" | "medium" | "long" = "medium", timeZone?: string): string {
+  return formatDateValue(value, DATE_FORMATS, format, { timeZone });
+}
+
+export function formatTemplateTime(value: Date | string, format: "short" | "long" = "short", timeZone?: string): string {
+  return formatDateValue(value, TIME_FORMATS, format, { timeZone });
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function parseArgument(raw: string): string | number {
+  const text = raw.trim();
+  const quoted = text.match(/^"([^"]*)"$|^'([^']*)'$/);
+  if (quoted) return quoted[1] ?? quoted[2];
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  throw new TemplateSyntaxError(`Filter arguments must be quoted strings or numbers, got ${text}`);
+}
+
+function parseExpression(source: string): Expression {
+  // Split on | outside of quotes
+  const parts = source.match(/(?:[^|"']+|"[^"]*"|'[^']*')+/g) ?? [];
+  const path = (parts.shift() ?? "").trim();
+  if (!/^(@?[A-Za-z_]\w*)(\.[A-Za-z_]\w*)*$/.test(path)) {
+    throw new TemplateSyntaxError(`Invalid variable name "${path}"`);
+  }
+
+  const calls = parts.map(part => {
+    const [, name, rawArgs] = part.trim().match(/^(\w+)\s*(?::\s*([\s\S]*))?$/) ?? [];
+    if (!name || !(name in filters)) {
+      throw new TemplateSyntaxError(`Unknown filter "${part.trim()}"`);
+    }
+    const args = rawArgs ? (rawArgs.match(/"[^"]*"|'[^']*'|[^,]+/g) ?? []).map(parseArgument) : [];
+    return { name, args };
+  });
+
+  return { path, filters: calls };
+}
+
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { node: BlockNode; keyword: "if" | "unless" | "each"; inElse: boolean; index: number }[] = [];
+  const lineAt = (index: number) => template.slice(0, index).split("\n").length;
+  const tagPattern = /\{\{\{([\s\S]*?)\}\}\}|\{\{([\s\S]*?)\}\}/g;
+
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    if (top.node.type === "if") return top.inElse ? top.node.otherwise : top.node.then;
+    return top.inElse ? top.node.otherwise : top.node.body;
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(template)) !== null) {
+    if (match.index > lastIndex) {
+      current().push({ type: "text", value: template.slice(lastIndex, match.index) });
+    }
+    lastIndex = tagPattern.lastIndex;
+
+    try {
+      parseTag(match);
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError && error.line === undefined) {
+        error.line = lineAt(match.index);
+      }
+      throw error;
+    }
+  }
+
+  function parseTag(match: RegExpExecArray): void {
+    if (match[1] !== undefined) {
+      current().push({ type: "output", expression: parseExpression(match[1]), raw: true });
+      return;
+    }
+
+    const tag = match[2].trim();
+    if (tag.startsWith("!")) return;
+
+    const open = tag.match(/^#(if|unless|each)\s+([\s\S]+)$/);
+    if (open) {
+      const keyword = open[1] as "if" | "unless" | "each";
+      const expression = parseExpression(open[2]);
+      const node: BlockNode = keyword === "each"
+        ? { type: "each", list: expression, body: [], otherwise: [] }
+        : { type: "if", negate: keyword === "unless", condition: expression, then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, keyword, inElse: false, index: match.index });
+      return;
+    }
+
+    if (tag === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw new TemplateSyntaxError("{{else}} without a matching {{#if}}, {{#unless}} or {{#each}}");
+      }
+      top.inElse = true;
+      return;
+    }
+
+    const close = tag.match(/^\/(if|unless|each)$/);
+    if (close) {
+      const top = stack.pop();
+      if (!top || top.keyword !== close[1]) {
+        throw new TemplateSyntaxError(`{{/${close[1]}}} does not close an open {{#${close[1]}}}`);
+      }
+      return;
+    }
+
+    if (/^[#/]/.test(tag)) {
+      throw new TemplateSyntaxError(`Unknown block tag "{{${tag}}}"`);
+    }
+    current().push({ type: "output", expression: parseExpression(tag), raw: false });
+  }
+
+  if (stack.length > 0) {
+    const unclosed = stack[stack.length - 1];
+    const error = new TemplateSyntaxError(`Missing {{/${unclosed.keyword}}}`);
+    error.line = lineAt(unclosed.index);
+    throw error;
+  }
+  if (lastIndex < template.length) {
+    root.push({ type: "text", value: template.slice(lastIndex) });
+  }
+  return root;
+}
+
+// Variable names referenced by a template, without loop-local names such as this and @index
+export function getTemplateVariables(template: string): string[] {
+  const names = new Set<string>();
+  const visitExpression = (expression: Expression) => {
+    const [head] = expression.path.split(".");
+    if (head !== "this" && !head.startsWith("@")) names.add(head);
+  };
+  const visit = (nodes: TemplateNode[], depth: number) => {
+    for (const node of nodes) {
+      if (node.type === "output") {
+        // Inside a loop, bare names may be fields of the current item
+        if (depth === 0) visitExpression(node.expression);
+      } else if (node.type === "if") {
+        if (depth === 0) visitExpression(node.condition);
+        visit(node.then, depth);
+        visit(node.otherwise, depth);
+      } else if (node.type === "each") {
+        if (depth === 0) visitExpression(node.list);
+        visit(node.body, depth + 1);
+        visit(node.otherwise, depth);
+      }
+    }
+  };
+  visit(parseTemplate(template), 0);
+  return Array.from(names);
+}
+
+type Scope = { values: TemplateContext; parent?: Scope };
+
+function lookup(path: string, scope: Scope): unknown {
+  const [head, ...rest] = path.split(".");
+  let value: unknown;
+
+  // Names resolve against the innermost loop item first, then outwards
+  for (let s: Scope | undefined = scope; s; s = s.parent) {
+    if (head === "this" ? "this" in s.values : Object.prototype.hasOwnProperty.call(s.values, head)) {
+      value = s.values[head];
+      break;
+    }
+    const item = s.values.this;
+    if (item && typeof item === "object" && !Array.isArray(item) && head in item) {
+      value = (item as Record<string, unknown>)[head];
+      break;
+    }
+  }
+
+  for (const key of rest) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function evaluate(expression: Expression, scope: Scope, options: RenderOptions): unknown {
+  return expression.filters.reduce(
+    (value, call) => filters[call.name](value, call.args, options),
+    lookup(expression.path, scope)
+  );
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Scope, options: RenderOptions): string {
+  let output = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.value;
+        break;
+      case "output": {
+        const value = evaluate(node.expression, scope, options);
+        const text = Array.isArray(value) ? value.map(toText).join(", ") : toText(value);
+        output += node.raw || options.escapeHtml === false ? text : escapeHtml(text);
+        break;
+      }
+      case "if": {
+        const value = evaluate(node.condition, scope, options);
+        const truthy = !isEmpty(value) && value !== false && value !== 0;
+        output += renderNodes(truthy !== node.negate ? node.then : node.otherwise, scope, options);
+        break;
+      }
+      case "each": {
+        const list = evaluate(node.list, scope, options);
+        if (!Array.isArray(list) || list.length === 0) {
+          output += renderNodes(node.otherwise, scope, options);
+          break;
+        }
+        list.forEach((item, index) => {
+          output += renderNodes(node.body, {
+            values: { this: item, "@index": index, "@first": index === 0, "@last": index === list.length - 1 },
+            parent: scope,
+          }, options);
+        });
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+export function renderTemplate(template: string, context: TemplateContext, options: RenderOptions = {}): string {
+  return renderNodes(parseTemplate(template), { values: context }, options);
+}
@@ -0,0 +1,106 @@
+import { getTemplateVariables, TemplateSyntaxError } from "./templateEngine";
+
+// Every variable the send path puts in the template context (see EmailService.buildTemplateContext)
+export const templateVariableCatalog: { name: string; description: string }[] = [
+  { name: "attendeeName", description: "Attendee's full name" },
+  { name: "attendeeEmail", description: "Attendee's email address" },
+  { name: "attendeeCompany", description: "Attendee's company, may be empty" },
+  { name: "attendeeJobTitle", description: "Attendee's job title, may be empty" },
+  { name: "attendeeInterests", description: "List of the attendee's interests" },
+  { name: "eventTitle", description: "Event title" },
+  { name: "eventDescription", description: "Event description" },
+  { name: "eventDate", description: "Start date, e.g. 12/15/2024" },
+  { name: "eventTime", description: "Start time, e.g. 2:00 PM" },
+  { name: "eventStartDate", description: "Start date and time, for the date/time filters" },
+  { name: "eventEndDate", description: "End date and time, may be empty" },
+  { name: "eventTimezone", description: "Event timezone, e.g. America/New_York" },
+  { name: "eventLocation", description: "Event location, or Virtual" },
+  { name: "timeUntil", description: "Time left until the event starts" },
+  { name: "contentPreviews", description: "List of event content with title, description, type, url and speaker" },
+  { name: "agenda", description: "List of sessions with title, abstract, startTime, endTime, track, location and speakers" },
+  { name: "speakers", description: "List of speakers with name, title, company, bio, photoUrl and sessions" },
+  { name: "resourceLinks", description: "Links to event resources" },
+  { name: "feedbackLink", description: "Link to the feedback form" },
+  { name: "manageRegistrationLink", description: "Attendee's page to cancel or update their registration, empty if not registered" },
+  { name: "checkInQrCode", description: "Image URL of the attendee's check-in QR code, empty until they hold a seat" },
+  { name: "checkInCode", description: "Short check-in code to type at the door, empty until they hold a seat" },
+  { name: "unsubscribeLink", description: "Recipient's unsubscribe and preferences page" },
+];
+
+const knownVariables = new Set(templateVariableCatalog.map(v => v.name));
+
+export type TemplateField = "subject" | "content";
+
+export type TemplateDiagnostic = {
+  field: TemplateField;
+  severity: "error" | "warning";
+  message: string;
+  line?: number;
+  variable?: string;
+};
+
+export type TemplateLintResult = {
+  diagnostics: TemplateDiagnostic[];
+  // Variables the subject and content actually use, in order of first use
+  variables: string[];
+};
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = a[i - 1].toLowerCase() === b[j - 1].toLowerCase()
+        ? previous
+        : Math.min(previous, row[j], row[j - 1]) + 1;
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function closestVariable(name: string): string | undefined {
+  let best: { name: string; distance: number } | undefined;
+  for (const known of Array.from(knownVariables)) {
+    const distance = editDistance(name, known);
+    if (!best || distance < best.distance) best = { name: known, distance };
+  }
+  return best && best.distance <= 3 ? best.name : undefined;
+}
+
+// Syntax errors block saving; unknown variables are only warnings because they
+// render as empty text rather than failing the send
+export function lintTemplate(template: { subject: string; content: string }): TemplateLintResult {
+  const diagnostics: TemplateDiagnostic[] = [];
+  const variables: string[] = [];
+
+  for (const field of ["subject", "content"] as const) {
+    let used: string[];
+    try {
+      used = getTemplateVariables(template[field]);
+    } catch (error) {
+      if (!(error instanceof TemplateSyntaxError)) throw error;
+      diagnostics.push({ field, severity: "error", message: error.message, line: error.line });
+      continue;
+    }
+
+    for (const name of used) {
+      if (!variables.includes(name)) variables.push(name);
+      if (knownVariables.has(name)) continue;
+
+      const suggestion = closestVariable(name);
+      diagnostics.push({
+        field,
+        severity: "warning",
+        variable: name,
+        message: suggestion
+          ? `Unknown variable "${name}", did you mean "${suggestion}"?`
+          : `Unknown variable "${name}" will render as empty text`,
+      });
+    }
+  }
+
+  return { diagnostics, variables };
+}